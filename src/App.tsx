@@ -4,18 +4,43 @@
  */
 
 import { useState, useEffect } from 'react';
-import { Sparkles } from 'lucide-react';
+import { Sparkles, History } from 'lucide-react';
 import { useImageStore } from './store/imageStore';
 import { Upload } from './components/Upload';
 import { LoadingOverlay } from './components/LoadingOverlay';
 import { ImageListSidebar } from './components/ImageListSidebar';
 import { ComparisonView } from './components/ComparisonView';
 import { BulkActions } from './components/BulkActions';
+import { CreditDashboard } from './components/CreditDashboard';
+import { providerRegistry } from './services/providerRegistry';
+
+const providerLabels = providerRegistry.getAll().map((provider) => provider.label);
 
 function App() {
-  const { isModelLoading, modelLoadError, images } = useImageStore();
+  const {
+    isModelLoading,
+    modelLoadError,
+    images,
+    setPriorityImage,
+    sessionStatus,
+    savedSessionInfo,
+    persistenceError,
+    checkSavedSession,
+    restoreSession,
+    discardSavedSession,
+  } = useImageStore();
   const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
 
+  // Look for a session saved before the last reload
+  useEffect(() => {
+    checkSavedSession();
+  }, [checkSavedSession]);
+
+  // Selected image jumps to the front of the processing queue
+  useEffect(() => {
+    setPriorityImage(selectedImageId);
+  }, [selectedImageId, setPriorityImage]);
+
   // Auto-select first image when images are added or when selected image is removed
   useEffect(() => {
     if (images.length > 0) {
@@ -36,6 +61,39 @@ function App() {
       {/* Loading Overlay */}
       {isModelLoading && <LoadingOverlay message="AI Modeli Yükleniyor..." />}
 
+      {/* Restore Session Prompt */}
+      {sessionStatus === 'prompt' && savedSessionInfo && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+          <div className="bg-white rounded-lg shadow-lg p-6 max-w-sm w-full border border-gray-100">
+            <div className="flex items-center gap-2.5 mb-3">
+              <div className="rounded-lg bg-blue-50 p-2">
+                <History className="h-4 w-4 text-blue-600" />
+              </div>
+              <h2 className="text-sm font-semibold text-gray-900">Önceki oturum bulundu</h2>
+            </div>
+            <p className="text-xs text-gray-600 mb-4">
+              {savedSessionInfo.imageCount} görsel içeren oturum (
+              {new Date(savedSessionInfo.savedAt).toLocaleString('tr-TR')}) kaydedilmiş.
+              Yarım kalan görseller duraklatılmış olarak geri yüklenir.
+            </p>
+            <div className="flex gap-1.5">
+              <button
+                onClick={restoreSession}
+                className="flex-1 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 rounded transition-colors"
+              >
+                Geri Yükle
+              </button>
+              <button
+                onClick={discardSavedSession}
+                className="px-3 py-1.5 text-xs font-medium text-gray-600 hover:bg-gray-100 rounded transition-colors"
+              >
+                Yeni Başla
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Header - Minimal & Clean */}
       <header className="flex-shrink-0 sticky top-0 z-10 backdrop-blur-lg bg-white/90 border-b border-gray-100">
         <div className="container mx-auto px-4 py-2.5">
@@ -46,9 +104,10 @@ function App() {
               </div>
               <div>
                 <h1 className="text-sm font-semibold text-gray-900">Fotoğraf İşleme</h1>
-                <p className="text-xs text-gray-500">imgly vs Photoroom</p>
+                <p className="text-xs text-gray-500">{providerLabels.join(' vs ')}</p>
               </div>
             </div>
+            <CreditDashboard />
           </div>
         </div>
       </header>
@@ -69,6 +128,14 @@ function App() {
           </div>
         )}
 
+        {/* Autosave Error - Compact */}
+        {persistenceError && (
+          <div className="mx-4 mt-3 p-3 rounded-lg bg-amber-50 border border-amber-100 text-amber-800">
+            <p className="font-medium text-xs">Oturum Kaydedilemedi</p>
+            <p className="text-xs mt-0.5 text-amber-700">{persistenceError}</p>
+          </div>
+        )}
+
         {images.length === 0 ? (
           /* Upload Section - Full Screen when no images */
           <div className="flex-1 flex items-center justify-center p-6">
@@ -78,7 +145,7 @@ function App() {
                   Görsel Yükleme
                 </h2>
                 <p className="text-sm text-gray-500">
-                  İşlemek istediğiniz görselleri yükleyin - Her görsel hem imgly hem de Photoroom ile işlenecek
+                  İşlemek istediğiniz görselleri yükleyin - Her görsel etkin sağlayıcıların hepsiyle ({providerLabels.join(', ')}) işlenecek
                 </p>
               </div>
               <Upload />
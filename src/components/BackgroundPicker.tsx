@@ -0,0 +1,204 @@
+/**
+ * BackgroundPicker Component
+ * Edits a BackgroundSpec: solid color, transparent, linear/radial gradient or a background photo
+ * Used for the global background (bulk actions) and the per-image override (comparison view)
+ */
+
+import type { BackgroundImageFit, BackgroundSpec, GradientStop } from '../types/background';
+import { BACKGROUND_COLOR_PRESETS, backgroundToCss } from '../lib/background';
+
+interface BackgroundPickerProps {
+  value: BackgroundSpec;
+  onChange: (background: BackgroundSpec) => void;
+}
+
+type BackgroundType = BackgroundSpec['type'];
+
+const TYPE_LABELS: Record<BackgroundType, string> = {
+  color: 'Renk',
+  transparent: 'Şeffaf',
+  'linear-gradient': 'Doğrusal',
+  'radial-gradient': 'Radyal',
+  image: 'Görsel',
+};
+
+const DEFAULT_STOPS: GradientStop[] = [
+  { offset: 0, color: '#FFFFFF' },
+  { offset: 1, color: '#E5E7EB' },
+];
+
+// First color of the current spec - carried over when switching type
+const primaryColor = (spec: BackgroundSpec): string => {
+  switch (spec.type) {
+    case 'color':
+    case 'image':
+      return spec.color;
+    case 'transparent':
+      return '#FFFFFF';
+    default:
+      return spec.stops[0]?.color ?? '#FFFFFF';
+  }
+};
+
+const currentStops = (spec: BackgroundSpec): GradientStop[] =>
+  spec.type === 'linear-gradient' || spec.type === 'radial-gradient' ? spec.stops : DEFAULT_STOPS;
+
+const typeButtonClass = (active: boolean) =>
+  `flex-1 px-2 py-1 text-xs font-medium rounded transition-colors ${
+    active ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'
+  }`;
+
+export function BackgroundPicker({ value, onChange }: BackgroundPickerProps) {
+  const handleTypeChange = (type: BackgroundType) => {
+    if (type === value.type) return;
+
+    switch (type) {
+      case 'color':
+        onChange({ type: 'color', color: primaryColor(value) });
+        break;
+      case 'transparent':
+        onChange({ type: 'transparent' });
+        break;
+      case 'linear-gradient':
+        onChange({ type: 'linear-gradient', angle: 180, stops: currentStops(value) });
+        break;
+      case 'radial-gradient':
+        onChange({ type: 'radial-gradient', stops: currentStops(value) });
+        break;
+      case 'image':
+        // Stays on the current background until a file is chosen
+        break;
+    }
+  };
+
+  const handleStopColorChange = (index: number, color: string) => {
+    if (value.type !== 'linear-gradient' && value.type !== 'radial-gradient') return;
+    const stops = value.stops.map((stop, i) => (i === index ? { ...stop, color } : stop));
+    onChange({ ...value, stops });
+  };
+
+  const handleImageFile = (file: File | undefined) => {
+    if (!file || !file.type.startsWith('image/')) return;
+    onChange({
+      type: 'image',
+      file,
+      fit: value.type === 'image' ? value.fit : 'fill',
+      color: primaryColor(value),
+    });
+  };
+
+  const handleImageFitChange = (fit: BackgroundImageFit) => {
+    if (value.type !== 'image') return;
+    onChange({ ...value, fit });
+  };
+
+  return (
+    <div className="space-y-2">
+      {/* Type */}
+      <div className="flex gap-1">
+        {(Object.keys(TYPE_LABELS) as BackgroundType[]).map((type) =>
+          type === 'image' ? (
+            <label key={type} className={`${typeButtonClass(value.type === type)} text-center cursor-pointer`}>
+              {TYPE_LABELS[type]}
+              <input
+                type="file"
+                accept="image/*"
+                onChange={(e) => {
+                  handleImageFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+                className="hidden"
+              />
+            </label>
+          ) : (
+            <button key={type} onClick={() => handleTypeChange(type)} className={typeButtonClass(value.type === type)}>
+              {TYPE_LABELS[type]}
+            </button>
+          )
+        )}
+      </div>
+
+      {/* Solid color */}
+      {value.type === 'color' && (
+        <div className="flex items-center gap-1.5">
+          {BACKGROUND_COLOR_PRESETS.map((color) => (
+            <button
+              key={color}
+              onClick={() => onChange({ type: 'color', color })}
+              className={`w-5 h-5 rounded border ${
+                value.color.toUpperCase() === color ? 'border-blue-600 ring-1 ring-blue-600' : 'border-gray-300'
+              }`}
+              style={{ background: color }}
+              title={color}
+            />
+          ))}
+          <input
+            type="color"
+            value={value.color}
+            onChange={(e) => onChange({ type: 'color', color: e.target.value })}
+            className="w-6 h-5 p-0 border border-gray-300 rounded cursor-pointer"
+            title="Özel renk"
+          />
+        </div>
+      )}
+
+      {/* Gradient */}
+      {(value.type === 'linear-gradient' || value.type === 'radial-gradient') && (
+        <div className="flex items-center gap-2">
+          {value.stops.map((stop, index) => (
+            <input
+              key={index}
+              type="color"
+              value={stop.color}
+              onChange={(e) => handleStopColorChange(index, e.target.value)}
+              className="w-6 h-5 p-0 border border-gray-300 rounded cursor-pointer"
+              title={index === 0 ? 'Başlangıç rengi' : 'Bitiş rengi'}
+            />
+          ))}
+          {value.type === 'linear-gradient' && (
+            <label className="flex items-center gap-1 text-xs text-gray-600">
+              Açı
+              <input
+                type="number"
+                min={0}
+                max={360}
+                step={15}
+                value={value.angle}
+                onChange={(e) => onChange({ ...value, angle: (parseInt(e.target.value) || 0) % 360 })}
+                className="w-14 px-1.5 py-0.5 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </label>
+          )}
+        </div>
+      )}
+
+      {/* Background photo */}
+      {value.type === 'image' && (
+        <div className="flex items-center gap-1.5">
+          <button onClick={() => handleImageFitChange('fill')} className={typeButtonClass(value.fit === 'fill')}>
+            Doldur
+          </button>
+          <button onClick={() => handleImageFitChange('fit')} className={typeButtonClass(value.fit === 'fit')}>
+            Sığdır
+          </button>
+          {value.fit === 'fit' && (
+            <input
+              type="color"
+              value={value.color}
+              onChange={(e) => onChange({ ...value, color: e.target.value })}
+              className="w-6 h-5 p-0 border border-gray-300 rounded cursor-pointer"
+              title="Boşluk rengi"
+            />
+          )}
+        </div>
+      )}
+
+      {value.type === 'transparent' && (
+        <p className="text-xs text-gray-500">Yalnızca PNG, WebP ve AVIF çıktıda korunur, JPEG beyaz olur.</p>
+      )}
+
+      {/* Preview swatch */}
+      <div className="h-6 rounded border border-gray-200" style={{ background: backgroundToCss(value) }} />
+    </div>
+  );
+}
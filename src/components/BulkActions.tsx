@@ -3,26 +3,74 @@
  * Bulk operations and downloads for processed images
  */
 
-import { Download, Settings, Lock, Unlock, Edit2 } from 'lucide-react';
+import { Download, Settings, Lock, Unlock, Edit2, Palette, Sun, Crop, Store, FileImage, Layers, Tags, Stamp, FingerprintPattern } from 'lucide-react';
 import { useState } from 'react';
 import { useImageStore } from '../store/imageStore';
-import type { ResizeMode } from '../types/image';
-import { imageProcessor } from '../services/imageProcessor';
-import JSZip from 'jszip';
+import type { ResizeMode, SubjectFit } from '../types/image';
+import type { ProviderId } from '../types/provider';
+import type { ValidationReport } from '../types/preset';
+import { exportService, type RenderedFile } from '../services/exportService';
+import { presetValidator } from '../services/presetValidator';
+import { providerRegistry } from '../services/providerRegistry';
+import { PROVIDER_ACCENT_CLASSES } from '../lib/providerStyles';
+import { describeBackground } from '../lib/background';
+import { describeShadow } from '../lib/shadow';
+import { describeCrop } from '../lib/crop';
+import { describeVariantProfile } from '../lib/variants';
+import { describeWatermark } from '../lib/watermark';
+import { BackgroundPicker } from './BackgroundPicker';
+import { ShadowControls } from './ShadowControls';
+import { CropControls } from './CropControls';
+import { SubjectFitFields } from './SubjectFitFields';
+import { PresetPanel } from './PresetPanel';
+import { OutputFormatControls } from './OutputFormatControls';
+import { ColorProfileControls } from './ColorProfileControls';
+import { VariantProfileControls } from './VariantProfileControls';
+import { MetadataControls } from './MetadataControls';
+import { WatermarkControls } from './WatermarkControls';
+import { ForensicControls } from './ForensicControls';
+import { ValidationReportPanel } from './ValidationReportPanel';
+import { CompressionReportPanel } from './CompressionReportPanel';
 import { saveAs } from 'file-saver';
 
+const zipFileName = (target: string) => `processed-images-${target}-${Date.now()}.zip`;
+
 export function BulkActions() {
-  const { images, updateBulkDimensions, updateImageName } = useImageStore();
+  const { images, exportSettings, updateBulkDimensions, updateImageName, setExportSettings } = useImageStore();
+  const globalWatermark = useImageStore((state) => state.globalWatermark);
+  const setGlobalWatermark = useImageStore((state) => state.setGlobalWatermark);
+  const applyWatermarkToAll = useImageStore((state) => state.applyWatermarkToAll);
+  const removeWatermarkFromAll = useImageStore((state) => state.removeWatermarkFromAll);
   const [showSettings, setShowSettings] = useState(false);
+  const [showBackground, setShowBackground] = useState(false);
+  const [showShadow, setShowShadow] = useState(false);
+  const [showCrop, setShowCrop] = useState(false);
+  const [showPresets, setShowPresets] = useState(false);
+  const [showFormat, setShowFormat] = useState(false);
+  const [showVariants, setShowVariants] = useState(false);
+  const [showMetadata, setShowMetadata] = useState(false);
+  const [showWatermark, setShowWatermark] = useState(false);
+  const [showForensic, setShowForensic] = useState(false);
+  // Rendered files held back because they violate their preset
+  const [pendingExport, setPendingExport] = useState<{
+    target: ProviderId | 'all';
+    files: RenderedFile[];
+    report: ValidationReport;
+  } | null>(null);
+  // Files of the last export that had a byte budget
+  const [compressedFiles, setCompressedFiles] = useState<RenderedFile[] | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
   const [showRename, setShowRename] = useState(false);
   const [bulkWidth, setBulkWidth] = useState(0);
   const [bulkHeight, setBulkHeight] = useState(0);
   const [bulkName, setBulkName] = useState('');
   const [aspectRatioLocked, setAspectRatioLocked] = useState(true);
   const [resizeMode, setResizeMode] = useState<ResizeMode>('fit');
+  const [subjectFit, setSubjectFit] = useState<SubjectFit>(exportSettings.subjectFit);
 
   const doneImages = images.filter((img) => img.status === 'done');
   const canDownload = doneImages.length > 0;
+  const watermarkedCount = images.filter((img) => img.watermark).length;
 
   // Calculate average aspect ratio from first image
   const firstImage = images[0];
@@ -30,80 +78,83 @@ export function BulkActions() {
     ? firstImage.dimensions.width / firstImage.dimensions.height 
     : 1;
 
-  const handleDownloadAll = async (provider: 'imgly' | 'photoroom' | 'both') => {
-    if (!canDownload) return;
-
-    const zip = new JSZip();
-    let fileCount = 0;
-
-    // Show progress indicator
-    console.log('[BulkActions] Starting download with resize...');
-
-    for (const image of doneImages) {
-      try {
-        // Get target dimensions and resize mode from image settings
-        const targetDimensions = {
-          width: image.dimensions.width,
-          height: image.dimensions.height,
-        };
-        const resizeMode = image.resizeMode || 'fit';
-
-        if (provider === 'imgly' && image.imglyBlob) {
-          // Resize on-the-fly before adding to zip
-          const resizedBlob = await imageProcessor.resizeImage(
-            image.imglyBlob,
-            targetDimensions,
-            resizeMode
-          );
-          zip.file(`${image.newName}_imgly.jpg`, resizedBlob);
-          fileCount++;
-        } else if (provider === 'photoroom' && image.photoroomBlob) {
-          const resizedBlob = await imageProcessor.resizeImage(
-            image.photoroomBlob,
-            targetDimensions,
-            resizeMode
-          );
-          zip.file(`${image.newName}_photoroom.jpg`, resizedBlob);
-          fileCount++;
-        } else if (provider === 'both') {
-          if (image.imglyBlob) {
-            const resizedBlob = await imageProcessor.resizeImage(
-              image.imglyBlob,
-              targetDimensions,
-              resizeMode
-            );
-            zip.file(`${image.newName}_imgly.jpg`, resizedBlob);
-            fileCount++;
-          }
-          if (image.photoroomBlob) {
-            const resizedBlob = await imageProcessor.resizeImage(
-              image.photoroomBlob,
-              targetDimensions,
-              resizeMode
-            );
-            zip.file(`${image.newName}_photoroom.jpg`, resizedBlob);
-            fileCount++;
-          }
-        }
-      } catch (error) {
-        console.error(`[BulkActions] Error resizing image ${image.id}:`, error);
-        // Continue with next image
+  // Providers that have at least one downloadable result, in registry order
+  const downloadProviderIds = providerRegistry.sortIds(
+    [...new Set(doneImages.flatMap((img) => Object.keys(img.results)))].filter((providerId) =>
+      doneImages.some((img) => exportService.hasResult(img, providerId))
+    )
+  );
+  const countResults = (providerId: ProviderId) =>
+    doneImages.filter((img) => exportService.hasResult(img, providerId)).length;
+  const totalResultCount = downloadProviderIds.reduce((sum, providerId) => sum + countResults(providerId), 0);
+
+  const saveZip = async (target: ProviderId | 'all', files: RenderedFile[]) => {
+    const blob = await exportService.zipFiles(files);
+    saveAs(blob, zipFileName(target));
+    exportService.recordForensicMarks(files);
+  };
+
+  const handleDownloadAll = async (target: ProviderId | 'all') => {
+    if (!canDownload || isExporting) return;
+
+    const providerIds = target === 'all' ? downloadProviderIds : [target];
+    setIsExporting(true);
+    setPendingExport(null);
+    setCompressedFiles(null);
+
+    try {
+      // Every file is rendered from its cutout with the image's export settings
+      console.log('[BulkActions] Starting download with resize...');
+      const { files, failedCount } = await exportService.renderFiles(doneImages, providerIds, exportSettings);
+
+      if (files.length === 0) {
+        alert(failedCount > 0 ? `${failedCount} dosya oluşturulamadı - indirilecek görsel yok` : 'İndirilecek görsel bulunamadı');
+        return;
+      }
+      if (failedCount > 0) {
+        alert(`${failedCount} dosya oluşturulamadı ve ZIP'e eklenmeyecek`);
       }
-    }
 
-    if (fileCount === 0) {
-      alert('İndirilecek görsel bulunamadı');
-      return;
+      const compressed = files.filter((file) => file.compression);
+      if (compressed.length > 0) setCompressedFiles(compressed);
+
+      // Images with a marketplace preset are checked before anything is zipped
+      const report = await presetValidator.validate(files);
+      if (report.issues.length > 0) {
+        setPendingExport({ target, files, report });
+        return;
+      }
+
+      await saveZip(target, files);
+    } catch (error) {
+      console.error('[BulkActions] Download failed:', error);
+      alert('ZIP dosyası oluşturulamadı. Lütfen tekrar deneyin.');
+    } finally {
+      setIsExporting(false);
     }
+  };
 
-    console.log(`[BulkActions] Creating zip with ${fileCount} resized images...`);
-    const blob = await zip.generateAsync({ type: 'blob' });
-    saveAs(blob, `processed-images-${provider}-${Date.now()}.zip`);
+  const handleDownloadAnyway = async () => {
+    if (!pendingExport) return;
+    const { target, files } = pendingExport;
+    setPendingExport(null);
+    try {
+      await saveZip(target, files);
+    } catch (error) {
+      console.error('[BulkActions] Download failed:', error);
+      alert('ZIP dosyası oluşturulamadı. Lütfen tekrar deneyin.');
+    }
   };
 
   const handleApplyDimensions = () => {
     if (bulkWidth > 0 && bulkHeight > 0) {
-      updateBulkDimensions(bulkWidth, bulkHeight, resizeMode, aspectRatioLocked);
+      updateBulkDimensions(
+        bulkWidth,
+        bulkHeight,
+        resizeMode,
+        aspectRatioLocked,
+        resizeMode === 'subject' ? subjectFit : undefined
+      );
       setShowSettings(false);
     }
   };
@@ -134,6 +185,72 @@ export function BulkActions() {
             <Settings className="w-3.5 h-3.5" />
             Boyut
           </button>
+          <button
+            onClick={() => setShowBackground(!showBackground)}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-50 hover:bg-gray-100 rounded transition-colors"
+          >
+            <Palette className="w-3.5 h-3.5" />
+            Arka Plan
+          </button>
+          <button
+            onClick={() => setShowShadow(!showShadow)}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-50 hover:bg-gray-100 rounded transition-colors"
+          >
+            <Sun className="w-3.5 h-3.5" />
+            Gölge
+          </button>
+          <button
+            onClick={() => setShowCrop(!showCrop)}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-50 hover:bg-gray-100 rounded transition-colors"
+          >
+            <Crop className="w-3.5 h-3.5" />
+            Kırp
+          </button>
+          <button
+            onClick={() => setShowFormat(!showFormat)}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-50 hover:bg-gray-100 rounded transition-colors"
+          >
+            <FileImage className="w-3.5 h-3.5" />
+            Biçim
+          </button>
+          <button
+            onClick={() => setShowVariants(!showVariants)}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-50 hover:bg-gray-100 rounded transition-colors"
+            title={describeVariantProfile(exportSettings.variants)}
+          >
+            <Layers className="w-3.5 h-3.5" />
+            Varyant
+          </button>
+          <button
+            onClick={() => setShowMetadata(!showMetadata)}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-50 hover:bg-gray-100 rounded transition-colors"
+          >
+            <Tags className="w-3.5 h-3.5" />
+            Meta
+          </button>
+          <button
+            onClick={() => setShowWatermark(!showWatermark)}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-50 hover:bg-gray-100 rounded transition-colors"
+            title={describeWatermark(globalWatermark)}
+          >
+            <Stamp className="w-3.5 h-3.5" />
+            Filigran
+          </button>
+          <button
+            onClick={() => setShowForensic(!showForensic)}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-50 hover:bg-gray-100 rounded transition-colors"
+            title={exportSettings.forensic.enabled ? 'Görünmez iz açık' : 'Görünmez iz kapalı'}
+          >
+            <FingerprintPattern className="w-3.5 h-3.5" />
+            İz
+          </button>
+          <button
+            onClick={() => setShowPresets(!showPresets)}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-50 hover:bg-gray-100 rounded transition-colors"
+          >
+            <Store className="w-3.5 h-3.5" />
+            Pazaryeri
+          </button>
           <button
             onClick={() => setShowRename(!showRename)}
             className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-50 hover:bg-gray-100 rounded transition-colors"
@@ -145,33 +262,117 @@ export function BulkActions() {
 
         {/* Download Buttons - Compact */}
         <div className="flex gap-1.5">
+          {downloadProviderIds.map((providerId) => {
+            const accent = PROVIDER_ACCENT_CLASSES[providerRegistry.get(providerId)?.accent ?? 'blue'];
+            return (
+              <button
+                key={providerId}
+                onClick={() => handleDownloadAll(providerId)}
+                disabled={!canDownload || isExporting}
+                className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white ${accent.solidButton} disabled:bg-gray-300 disabled:cursor-not-allowed rounded transition-colors`}
+              >
+                <Download className="w-3.5 h-3.5" />
+                {providerRegistry.getLabel(providerId)} ({countResults(providerId)})
+              </button>
+            );
+          })}
           <button
-            onClick={() => handleDownloadAll('imgly')}
-            disabled={!canDownload}
-            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed rounded transition-colors"
-          >
-            <Download className="w-3.5 h-3.5" />
-            imgly ({doneImages.length})
-          </button>
-          <button
-            onClick={() => handleDownloadAll('photoroom')}
-            disabled={!canDownload}
-            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-300 disabled:cursor-not-allowed rounded transition-colors"
-          >
-            <Download className="w-3.5 h-3.5" />
-            Photoroom ({doneImages.length})
-          </button>
-          <button
-            onClick={() => handleDownloadAll('both')}
-            disabled={!canDownload}
+            onClick={() => handleDownloadAll('all')}
+            disabled={!canDownload || isExporting}
             className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-green-600 hover:bg-green-700 disabled:bg-gray-300 disabled:cursor-not-allowed rounded transition-colors"
           >
             <Download className="w-3.5 h-3.5" />
-            Tümü ({doneImages.length * 2})
+            Tümü ({totalResultCount})
           </button>
         </div>
       </div>
 
+      {/* Validation Report - files that break their marketplace preset */}
+      {pendingExport && (
+        <ValidationReportPanel
+          report={pendingExport.report}
+          onDownload={handleDownloadAnyway}
+          onCancel={() => setPendingExport(null)}
+        />
+      )}
+
+      {/* Compression Report - achieved size/quality per budgeted file */}
+      {compressedFiles && <CompressionReportPanel files={compressedFiles} onClose={() => setCompressedFiles(null)} />}
+
+      {/* Output Format Panel - Compact */}
+      {showFormat && (
+        <div className="mt-2 p-3 bg-gray-50 rounded-lg border-t border-gray-100">
+          <p className="text-xs font-medium text-gray-700 mb-2">Çıktı Biçimi</p>
+          <OutputFormatControls value={exportSettings.output} onChange={(output) => setExportSettings({ output })} />
+          <p className="text-xs font-medium text-gray-700 mt-3 mb-2">Renk Profili</p>
+          <ColorProfileControls value={exportSettings.color} onChange={(color) => setExportSettings({ color })} />
+        </div>
+      )}
+
+      {/* Size Variants Panel - Compact */}
+      {showVariants && (
+        <div className="mt-2 p-3 bg-gray-50 rounded-lg border-t border-gray-100">
+          <p className="text-xs font-medium text-gray-700 mb-2">Boyut Varyantları</p>
+          <VariantProfileControls
+            value={exportSettings.variants}
+            onChange={(variants) => setExportSettings({ variants })}
+          />
+        </div>
+      )}
+
+      {/* Metadata Panel - Compact */}
+      {showMetadata && (
+        <div className="mt-2 p-3 bg-gray-50 rounded-lg border-t border-gray-100">
+          <p className="text-xs font-medium text-gray-700 mb-2">Meta Veri (EXIF/IPTC/XMP)</p>
+          <MetadataControls
+            value={exportSettings.metadata}
+            onChange={(metadata) => setExportSettings({ metadata })}
+          />
+        </div>
+      )}
+
+      {/* Watermark Panel - Compact */}
+      {showWatermark && (
+        <div className="mt-2 p-3 bg-gray-50 rounded-lg border-t border-gray-100">
+          <p className="text-xs font-medium text-gray-700 mb-2">Genel Filigran</p>
+          <WatermarkControls value={globalWatermark} onChange={setGlobalWatermark} />
+          <div className="flex gap-1.5 mt-2">
+            <button
+              onClick={applyWatermarkToAll}
+              disabled={!globalWatermark || images.length === 0}
+              className="flex-1 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed rounded transition-colors"
+            >
+              Tümüne uygula ({images.length})
+            </button>
+            <button
+              onClick={removeWatermarkFromAll}
+              disabled={watermarkedCount === 0}
+              className="flex-1 px-3 py-1.5 text-xs font-medium text-gray-700 bg-white hover:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed rounded transition-colors"
+            >
+              Tümünden kaldır ({watermarkedCount})
+            </button>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            Filigran görsel başına atanır: burada tümüne uygulayın, tek görsel için karşılaştırma ekranını kullanın.
+            Önizlemelere, tekli indirmelere ve ZIP dosyalarına eklenir.
+          </p>
+        </div>
+      )}
+
+      {/* Forensic Mark Panel - Compact */}
+      {showForensic && (
+        <div className="mt-2 p-3 bg-gray-50 rounded-lg border-t border-gray-100">
+          <p className="text-xs font-medium text-gray-700 mb-2">Görünmez İz</p>
+          <ForensicControls
+            value={exportSettings.forensic}
+            onChange={(forensic) => setExportSettings({ forensic })}
+          />
+        </div>
+      )}
+
+      {/* Marketplace Presets */}
+      {showPresets && <PresetPanel onClose={() => setShowPresets(false)} />}
+
       {/* Settings Panel - Compact */}
       {showSettings && (
         <div className="mt-2 p-3 bg-gray-50 rounded-lg border-t border-gray-100">
@@ -209,6 +410,17 @@ export function BulkActions() {
             >
               Stretch
             </button>
+            <button
+              onClick={() => setResizeMode('subject')}
+              className={`flex-1 px-2 py-1 text-xs font-medium rounded transition-colors ${
+                resizeMode === 'subject'
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white text-gray-600 hover:bg-gray-100'
+              }`}
+              title="Ürünü maskesine göre ölçekle ve konumlandır"
+            >
+              Ürün
+            </button>
             <button
               onClick={() => setAspectRatioLocked(!aspectRatioLocked)}
               className={`px-2 py-1 rounded transition-colors ${
@@ -226,6 +438,9 @@ export function BulkActions() {
             </button>
           </div>
 
+          {/* Subject fit - marketplace fill ratio and anchor */}
+          {resizeMode === 'subject' && <SubjectFitFields value={subjectFit} onChange={setSubjectFit} />}
+
           {/* Dimension Inputs - Compact */}
           <div className="grid grid-cols-2 gap-1.5 mb-2">
             <input
@@ -273,6 +488,42 @@ export function BulkActions() {
         </div>
       )}
 
+      {/* Background Panel - Compact */}
+      {showBackground && (
+        <div className="mt-2 p-3 bg-gray-50 rounded-lg border-t border-gray-100">
+          <p className="text-xs font-medium text-gray-700 mb-1">Arka Plan</p>
+          <p className="text-xs text-gray-500 mb-2">
+            Kendi arka planı olmayan tüm görsellere uygulanır: {describeBackground(exportSettings.background)}
+          </p>
+          <BackgroundPicker
+            value={exportSettings.background}
+            onChange={(background) => setExportSettings({ background })}
+          />
+        </div>
+      )}
+
+      {/* Shadow Panel - Compact */}
+      {showShadow && (
+        <div className="mt-2 p-3 bg-gray-50 rounded-lg border-t border-gray-100">
+          <p className="text-xs font-medium text-gray-700 mb-1">Gölge ve Yansıma</p>
+          <p className="text-xs text-gray-500 mb-2">
+            Kendi gölge ayarı olmayan tüm görsellere uygulanır: {describeShadow(exportSettings.shadow)}
+          </p>
+          <ShadowControls value={exportSettings.shadow} onChange={(shadow) => setExportSettings({ shadow })} />
+        </div>
+      )}
+
+      {/* Crop Panel - Compact */}
+      {showCrop && (
+        <div className="mt-2 p-3 bg-gray-50 rounded-lg border-t border-gray-100">
+          <p className="text-xs font-medium text-gray-700 mb-1">Ürüne Göre Kırpma</p>
+          <p className="text-xs text-gray-500 mb-2">
+            Boyutlandırmadan önce kadrajı ürüne daraltır, böylece ürün çıktıyı doldurur: {describeCrop(exportSettings.crop)}
+          </p>
+          <CropControls value={exportSettings.crop} onChange={(crop) => setExportSettings({ crop })} />
+        </div>
+      )}
+
       {/* Bulk Rename Panel - Compact */}
       {showRename && (
         <div className="mt-2 p-3 bg-gray-50 rounded-lg border-t border-gray-100">
@@ -0,0 +1,54 @@
+/**
+ * ColorProfileControls Component
+ * Edits the ColorSettings: output ICC profile of JPEG/PNG exports and whether sRGB files are tagged
+ */
+
+import type { ColorProfileId, ColorSettings } from '../types/color';
+import { COLOR_PROFILE_LABELS } from '../lib/colorProfiles';
+
+interface ColorProfileControlsProps {
+  value: ColorSettings;
+  onChange: (settings: ColorSettings) => void;
+}
+
+const PROFILE_HINTS: Record<ColorProfileId, string> = {
+  srgb: 'Web ve pazaryerleri için standart - profil gömülmezse de doğru görünür.',
+  'display-p3': 'Geniş renk gamı (Apple ekranlar). Profili okumayan görüntüleyicilerde renkler soluk görünür.',
+  'adobe-rgb': 'Baskı ve fotoğraf iş akışları için. Profili okumayan görüntüleyicilerde renkler soluk görünür.',
+};
+
+export function ColorProfileControls({ value, onChange }: ColorProfileControlsProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        {(Object.keys(COLOR_PROFILE_LABELS) as ColorProfileId[]).map((profile) => (
+          <button
+            key={profile}
+            onClick={() => onChange({ ...value, outputProfile: profile })}
+            className={`flex-1 px-2 py-1 text-xs font-medium rounded transition-colors ${
+              value.outputProfile === profile ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            {COLOR_PROFILE_LABELS[profile]}
+          </button>
+        ))}
+      </div>
+
+      {value.outputProfile === 'srgb' && (
+        <label className="flex items-center gap-2 text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={value.embedProfile}
+            onChange={(e) => onChange({ ...value, embedProfile: e.target.checked })}
+            className="accent-blue-600"
+          />
+          sRGB profilini dosyaya göm
+        </label>
+      )}
+
+      <p className="text-xs text-gray-500">
+        {PROFILE_HINTS[value.outputProfile]} Yalnızca JPEG ve PNG çıktılara uygulanır, WebP/AVIF her zaman sRGB kalır.
+      </p>
+    </div>
+  );
+}
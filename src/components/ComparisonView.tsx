@@ -1,13 +1,31 @@
 /**
  * ComparisonView Component
- * Split-screen comparison between imgly and Photoroom results
+ * Side-by-side comparison of every provider's result (one column per provider)
  * Shows original/processed toggle for each provider
  */
 
 import { useState, useEffect } from 'react';
-import { Download } from 'lucide-react';
+import { AlertCircle, Brush, Download, Palette, Play, RotateCw, Sun, Crop, Stamp } from 'lucide-react';
 import type { ImageObject } from '../types/image';
-import { imageProcessor } from '../services/imageProcessor';
+import type { ProviderId } from '../types/provider';
+import { exportService } from '../services/exportService';
+import { providerRegistry } from '../services/providerRegistry';
+import { resolveProviderIds, useImageStore } from '../store/imageStore';
+import { PROVIDER_ACCENT_CLASSES } from '../lib/providerStyles';
+import { describeProviderMode } from '../lib/providerMode';
+import { backgroundToCss, describeBackground } from '../lib/background';
+import { ProviderModeSelect } from './ProviderModeSelect';
+import { describeShadow } from '../lib/shadow';
+import { describeCrop } from '../lib/crop';
+import { describeSubjectFit } from '../lib/subjectFit';
+import { describeCompression } from '../lib/outputFormat';
+import type { CompressionReport } from '../types/output';
+import { BackgroundPicker } from './BackgroundPicker';
+import { ShadowControls } from './ShadowControls';
+import { CropControls } from './CropControls';
+import { WatermarkControls } from './WatermarkControls';
+import { MaskEditor } from './MaskEditor';
+import { describeWatermark } from '../lib/watermark';
 import { saveAs } from 'file-saver';
 
 interface ComparisonViewProps {
@@ -16,43 +34,49 @@ interface ComparisonViewProps {
 
 type ViewMode = 'original' | 'processed';
 
+interface PreviewImage {
+  blob: Blob;
+  name: string;
+  type: string;
+}
+
 export function ComparisonView({ image }: ComparisonViewProps) {
-  const [leftView, setLeftView] = useState<ViewMode>('processed');
-  const [rightView, setRightView] = useState<ViewMode>('processed');
-  const [previewImage, setPreviewImage] = useState<{ blob: Blob; name: string; type: string } | null>(null);
+  const enabledProviderIds = useImageStore((state) => state.enabledProviderIds);
+  const defaultProviderMode = useImageStore((state) => state.defaultProviderMode);
+  const setImageProviderMode = useImageStore((state) => state.setImageProviderMode);
+  const runProvider = useImageStore((state) => state.runProvider);
+  const exportSettings = useImageStore((state) => state.exportSettings);
+  const updateImageBackground = useImageStore((state) => state.updateImageBackground);
+  const updateImageShadow = useImageStore((state) => state.updateImageShadow);
+  const updateImageCrop = useImageStore((state) => state.updateImageCrop);
+  const globalWatermark = useImageStore((state) => state.globalWatermark);
+  const updateImageWatermark = useImageStore((state) => state.updateImageWatermark);
+  const [previewImage, setPreviewImage] = useState<PreviewImage | null>(null);
   const [showPreview, setShowPreview] = useState(false);
+  const [showBackground, setShowBackground] = useState(false);
+  const [showShadow, setShowShadow] = useState(false);
+  const [showCrop, setShowCrop] = useState(false);
+  const [showWatermark, setShowWatermark] = useState(false);
 
-  // Generate URLs for blobs
-  const originalUrl = image.originalFile ? URL.createObjectURL(image.originalFile) : null;
-  const imglyUrl = image.imglyBlob ? URL.createObjectURL(image.imglyBlob) : null;
-  const photoroomUrl = image.photoroomBlob ? URL.createObjectURL(image.photoroomBlob) : null;
+  const background = exportService.resolveBackground(image, exportSettings);
+  const shadow = exportService.resolveShadow(image, exportSettings);
+  const crop = exportService.resolveCrop(image, exportSettings);
 
-  const leftImageUrl = leftView === 'original' ? originalUrl : imglyUrl;
-  const rightImageUrl = rightView === 'original' ? originalUrl : photoroomUrl;
+  // Columns: providers of the image's mode plus any that already produced a result
+  const modeProviderIds = resolveProviderIds(image, { defaultProviderMode, enabledProviderIds });
+  const providerIds = providerRegistry.sortIds([
+    ...new Set([...Object.keys(image.results), ...modeProviderIds]),
+  ]);
+  const failedCount = providerIds.filter((providerId) => image.results[providerId]?.status === 'error').length;
+  // Other providers can be run on demand once the image is finished
+  const canRunProvider = image.status === 'done' || image.status === 'error' || image.status === 'cancelled';
+  const missingProviders = providerRegistry
+    .getAll()
+    .filter((provider) => !providerIds.includes(provider.id) && provider.isAvailable());
 
-  // Handle image click for preview
-  const handleLeftImageClick = () => {
-    const blob = leftView === 'original' ? image.originalFile : image.imglyBlob;
-    if (blob) {
-      setPreviewImage({
-        blob,
-        name: `${image.newName} - imgly ${leftView === 'original' ? '(Orijinal)' : '(İşlenmiş)'}`,
-        type: leftView === 'original' ? 'original' : 'imgly',
-      });
-      setShowPreview(true);
-    }
-  };
-
-  const handleRightImageClick = () => {
-    const blob = rightView === 'original' ? image.originalFile : image.photoroomBlob;
-    if (blob) {
-      setPreviewImage({
-        blob,
-        name: `${image.newName} - Photoroom ${rightView === 'original' ? '(Orijinal)' : '(İşlenmiş)'}`,
-        type: rightView === 'original' ? 'original' : 'photoroom',
-      });
-      setShowPreview(true);
-    }
+  const handleOpenPreview = (preview: PreviewImage) => {
+    setPreviewImage(preview);
+    setShowPreview(true);
   };
 
   const handleClosePreview = () => {
@@ -71,55 +95,6 @@ export function ComparisonView({ image }: ComparisonViewProps) {
     return () => window.removeEventListener('keydown', handleEsc);
   }, [showPreview]);
 
-  // Download handlers - resize on download
-  const handleDownloadImgly = async () => {
-    if (image.imglyBlob) {
-      try {
-        const targetDimensions = {
-          width: image.dimensions.width,
-          height: image.dimensions.height,
-        };
-        const resizeMode = image.resizeMode || 'fit';
-        
-        console.log(`[ComparisonView] Resizing imgly to ${targetDimensions.width}x${targetDimensions.height} (${resizeMode})`);
-        const resizedBlob = await imageProcessor.resizeImage(
-          image.imglyBlob,
-          targetDimensions,
-          resizeMode
-        );
-        saveAs(resizedBlob, `${image.newName}_imgly.jpg`);
-      } catch (error) {
-        console.error('[ComparisonView] Error resizing imgly:', error);
-        // Fallback to original size
-        saveAs(image.imglyBlob, `${image.newName}_imgly.jpg`);
-      }
-    }
-  };
-
-  const handleDownloadPhotoroom = async () => {
-    if (image.photoroomBlob) {
-      try {
-        const targetDimensions = {
-          width: image.dimensions.width,
-          height: image.dimensions.height,
-        };
-        const resizeMode = image.resizeMode || 'fit';
-        
-        console.log(`[ComparisonView] Resizing photoroom to ${targetDimensions.width}x${targetDimensions.height} (${resizeMode})`);
-        const resizedBlob = await imageProcessor.resizeImage(
-          image.photoroomBlob,
-          targetDimensions,
-          resizeMode
-        );
-        saveAs(resizedBlob, `${image.newName}_photoroom.jpg`);
-      } catch (error) {
-        console.error('[ComparisonView] Error resizing photoroom:', error);
-        // Fallback to original size
-        saveAs(image.photoroomBlob, `${image.newName}_photoroom.jpg`);
-      }
-    }
-  };
-
   return (
     <>
       <div className="h-full flex flex-col bg-white">
@@ -129,193 +104,197 @@ export function ComparisonView({ image }: ComparisonViewProps) {
           <div className="flex-1 min-w-0">
             <h2 className="text-sm font-medium text-gray-900 truncate">
               {image.newName || image.originalFile.name}
+              {image.sourceFile && (
+                <span
+                  className="ml-1.5 text-xs font-normal text-gray-400"
+                  title={`Yüklenen dosya: ${image.sourceFile.name} - önizleme ve işleme için dönüştürüldü`}
+                >
+                  ({image.sourceFile.name.split('.').pop()?.toUpperCase()} kaynağından)
+                </span>
+              )}
+              {image.sourceProfile !== undefined && (
+                <span
+                  className="ml-1.5 text-xs font-normal text-gray-400"
+                  title="Gömülü renk profili yüklemede sRGB'ye dönüştürüldü"
+                >
+                  ({image.sourceProfile || 'ICC profili'} → sRGB)
+                </span>
+              )}
             </h2>
-          </div>
-          <div className="ml-4 text-right flex-shrink-0">
-            <p className="text-xs font-medium text-gray-900">
-              {image.dimensions.width} × {image.dimensions.height}
-            </p>
-            <p className="text-xs text-gray-500">
-              {image.resizeMode === 'fit' && 'Fit'}
-              {image.resizeMode === 'fill' && 'Fill'}
-              {image.resizeMode === 'stretch' && 'Stretch'}
-              {!image.resizeMode && 'Fit'}
-            </p>
-          </div>
-        </div>
-      </div>
+            <div className="flex items-center gap-1.5 mt-1">
+              <ProviderModeSelect
+                value={image.providerMode ?? null}
+                onChange={(mode) => setImageProviderMode(image.id, mode)}
+                defaultLabel={`Varsayılan (${describeProviderMode(defaultProviderMode)})`}
+              />
+              <div className="relative">
+                <button
+                  onClick={() => setShowBackground(!showBackground)}
+                  className={`flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded transition-colors ${
+                    showBackground ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-100'
+                  }`}
+                  title={`Arka plan: ${describeBackground(background)}`}
+                >
+                  <Palette className="w-3 h-3" />
+                  <span
+                    className="w-3 h-3 rounded-sm border border-gray-300"
+                    style={{ background: backgroundToCss(background) }}
+                  />
+                  {image.background ? 'Özel' : 'Varsayılan'}
+                </button>
 
-      {/* Split View */}
-      <div className="flex-1 grid grid-cols-2 gap-px bg-gray-100">
-        {/* Left Side - imgly */}
-        <div className="bg-white flex flex-col">
-          {/* Controls - Compact */}
-          <div className="px-3 py-2.5 border-b border-gray-100 bg-gray-50/50">
-            <div className="flex items-center justify-between mb-2">
-              <h3 className="text-xs font-medium text-gray-700">imgly</h3>
-              <div className="flex items-center gap-1.5">
-                {image.status === 'processing' && image.imglyProgress !== undefined && (
-                  <span className="text-xs text-blue-600 font-medium">
-                    {image.imglyProgress}%
-                  </span>
-                )}
-                {image.status === 'done' && image.imglyBlob && (
-                  <button
-                    onClick={handleDownloadImgly}
-                    className="p-1.5 text-blue-600 hover:bg-blue-50 rounded transition-colors"
-                    title={`İndir (${image.dimensions.width}x${image.dimensions.height})`}
-                  >
-                    <Download className="w-3.5 h-3.5" />
-                  </button>
+                {/* Per-image background - overrides the global one */}
+                {showBackground && (
+                  <div className="absolute left-0 mt-1 w-64 bg-white border border-gray-200 rounded-lg shadow-lg p-3 z-20">
+                    <p className="text-xs font-medium text-gray-700 mb-2">Bu Görselin Arka Planı</p>
+                    <BackgroundPicker
+                      value={background}
+                      onChange={(spec) => updateImageBackground(image.id, spec)}
+                    />
+                    {image.background && (
+                      <button
+                        onClick={() => updateImageBackground(image.id, null)}
+                        className="mt-2 w-full px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100 rounded transition-colors"
+                      >
+                        Varsayılana dön ({describeBackground(exportSettings.background)})
+                      </button>
+                    )}
+                  </div>
                 )}
               </div>
-            </div>
-            
-            {/* Toggle buttons - Compact */}
-            <div className="flex gap-1">
-              <button
-                onClick={() => setLeftView('original')}
-                className={`flex-1 px-2 py-1 text-xs font-medium rounded transition-colors ${
-                  leftView === 'original'
-                    ? 'bg-blue-600 text-white'
-                    : 'bg-white text-gray-600 hover:bg-gray-100'
-                }`}
-              >
-                Orijinal
-              </button>
-              <button
-                onClick={() => setLeftView('processed')}
-                className={`flex-1 px-2 py-1 text-xs font-medium rounded transition-colors ${
-                  leftView === 'processed'
-                    ? 'bg-blue-600 text-white'
-                    : 'bg-white text-gray-600 hover:bg-gray-100'
-                }`}
-              >
-                İşlenmiş
-              </button>
-            </div>
-          </div>
+              <div className="relative">
+                <button
+                  onClick={() => setShowShadow(!showShadow)}
+                  className={`flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded transition-colors ${
+                    showShadow ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-100'
+                  }`}
+                  title={describeShadow(shadow)}
+                >
+                  <Sun className="w-3 h-3" />
+                  {image.shadow ? 'Özel' : 'Varsayılan'}
+                </button>
 
-          {/* Image Display */}
-          <div className="flex-1 relative p-4 overflow-auto">
-            {leftImageUrl ? (
-              <div className="absolute inset-4 flex items-center justify-center">
-                <img
-                  src={leftImageUrl}
-                  alt="imgly result"
-                  onClick={handleLeftImageClick}
-                  className="max-w-full max-h-full object-contain rounded-lg shadow-lg cursor-pointer hover:opacity-90 transition-opacity"
-                />
+                {/* Per-image shadow - overrides the global one, the preview updates on release */}
+                {showShadow && (
+                  <div className="absolute left-0 mt-1 w-72 bg-white border border-gray-200 rounded-lg shadow-lg p-3 z-20">
+                    <p className="text-xs font-medium text-gray-700 mb-2">Bu Görselin Gölgesi</p>
+                    <ShadowControls value={shadow} onChange={(spec) => updateImageShadow(image.id, spec)} />
+                    {image.shadow && (
+                      <button
+                        onClick={() => updateImageShadow(image.id, null)}
+                        className="mt-2 w-full px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100 rounded transition-colors"
+                      >
+                        Varsayılana dön ({describeShadow(exportSettings.shadow)})
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
-            ) : (
-              <div className="absolute inset-4 flex items-center justify-center">
-                <div className="text-center">
-                  {image.status === 'processing' ? (
-                    <>
-                      <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-3"></div>
-                      <p className="text-sm text-gray-600">İşleniyor...</p>
-                    </>
-                  ) : (
-                    <>
-                      <div className="w-12 h-12 rounded-full bg-gray-200 flex items-center justify-center mx-auto mb-3">
-                        <svg className="w-6 h-6 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                        </svg>
-                      </div>
-                      <p className="text-sm text-gray-500">Sonuç bekleniyor</p>
-                    </>
-                  )}
-                </div>
+              <div className="relative">
+                <button
+                  onClick={() => setShowCrop(!showCrop)}
+                  className={`flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded transition-colors ${
+                    showCrop ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-100'
+                  }`}
+                  title={describeCrop(crop)}
+                >
+                  <Crop className="w-3 h-3" />
+                  {image.crop ? 'Özel' : 'Varsayılan'}
+                </button>
+
+                {/* Per-image crop - overrides the global one */}
+                {showCrop && (
+                  <div className="absolute left-0 mt-1 w-72 bg-white border border-gray-200 rounded-lg shadow-lg p-3 z-20">
+                    <p className="text-xs font-medium text-gray-700 mb-2">Bu Görselin Kırpması</p>
+                    <CropControls value={crop} onChange={(spec) => updateImageCrop(image.id, spec)} />
+                    {image.crop && (
+                      <button
+                        onClick={() => updateImageCrop(image.id, null)}
+                        className="mt-2 w-full px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100 rounded transition-colors"
+                      >
+                        Varsayılana dön ({describeCrop(exportSettings.crop)})
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
-            )}
-          </div>
-        </div>
+              <div className="relative">
+                <button
+                  onClick={() => setShowWatermark(!showWatermark)}
+                  className={`flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded transition-colors ${
+                    showWatermark ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-100'
+                  }`}
+                  title={describeWatermark(image.watermark)}
+                >
+                  <Stamp className="w-3 h-3" />
+                  {image.watermark ? 'Var' : 'Yok'}
+                </button>
 
-        {/* Right Side - Photoroom */}
-        <div className="bg-white flex flex-col">
-          {/* Controls - Compact */}
-          <div className="px-3 py-2.5 border-b border-gray-100 bg-gray-50/50">
-            <div className="flex items-center justify-between mb-2">
-              <h3 className="text-xs font-medium text-gray-700">Photoroom</h3>
-              <div className="flex items-center gap-1.5">
-                {image.status === 'processing' && image.photoroomProgress !== undefined && (
-                  <span className="text-xs text-purple-600 font-medium">
-                    {image.photoroomProgress}%
-                  </span>
+                {/* Per-image watermark - previews and downloads update right away */}
+                {showWatermark && (
+                  <div className="absolute left-0 mt-1 w-72 bg-white border border-gray-200 rounded-lg shadow-lg p-3 z-20">
+                    <p className="text-xs font-medium text-gray-700 mb-2">Bu Görselin Filigranı</p>
+                    <WatermarkControls
+                      value={image.watermark ?? null}
+                      onChange={(watermark) => updateImageWatermark(image.id, watermark)}
+                    />
+                    {globalWatermark && image.watermark !== globalWatermark && (
+                      <button
+                        onClick={() => updateImageWatermark(image.id, globalWatermark)}
+                        className="mt-2 w-full px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100 rounded transition-colors"
+                      >
+                        Genel filigranı kullan ({describeWatermark(globalWatermark)})
+                      </button>
+                    )}
+                  </div>
                 )}
-                {image.status === 'done' && image.photoroomBlob && (
+              </div>
+              {canRunProvider &&
+                missingProviders.map((provider) => (
                   <button
-                    onClick={handleDownloadPhotoroom}
-                    className="p-1.5 text-purple-600 hover:bg-purple-50 rounded transition-colors"
-                    title={`İndir (${image.dimensions.width}x${image.dimensions.height})`}
+                    key={provider.id}
+                    onClick={() => runProvider(image.id, provider.id)}
+                    className={`flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded transition-colors ${PROVIDER_ACCENT_CLASSES[provider.accent].iconButton}`}
+                    title={`Bu görsel için ${provider.label} sonucunu da al`}
                   >
-                    <Download className="w-3.5 h-3.5" />
+                    <Play className="w-3 h-3" />
+                    {provider.label}
                   </button>
-                )}
-              </div>
-            </div>
-            
-            {/* Toggle buttons - Compact */}
-            <div className="flex gap-1">
-              <button
-                onClick={() => setRightView('original')}
-                className={`flex-1 px-2 py-1 text-xs font-medium rounded transition-colors ${
-                  rightView === 'original'
-                    ? 'bg-blue-600 text-white'
-                    : 'bg-white text-gray-600 hover:bg-gray-100'
-                }`}
-              >
-                Orijinal
-              </button>
-              <button
-                onClick={() => setRightView('processed')}
-                className={`flex-1 px-2 py-1 text-xs font-medium rounded transition-colors ${
-                  rightView === 'processed'
-                    ? 'bg-blue-600 text-white'
-                    : 'bg-white text-gray-600 hover:bg-gray-100'
-                }`}
-              >
-                İşlenmiş
-              </button>
+                ))}
             </div>
           </div>
-
-          {/* Image Display */}
-          <div className="flex-1 relative p-4 overflow-auto">
-            {rightImageUrl ? (
-              <div className="absolute inset-4 flex items-center justify-center">
-                <img
-                  src={rightImageUrl}
-                  alt="Photoroom result"
-                  onClick={handleRightImageClick}
-                  className="max-w-full max-h-full object-contain rounded-lg shadow-lg cursor-pointer hover:opacity-90 transition-opacity"
-                />
-              </div>
-            ) : (
-              <div className="absolute inset-4 flex items-center justify-center">
-                <div className="text-center">
-                  {image.status === 'processing' ? (
-                    <>
-                      <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-3"></div>
-                      <p className="text-sm text-gray-600">İşleniyor...</p>
-                    </>
-                  ) : (
-                    <>
-                      <div className="w-12 h-12 rounded-full bg-gray-200 flex items-center justify-center mx-auto mb-3">
-                        <svg className="w-6 h-6 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                        </svg>
-                      </div>
-                      <p className="text-sm text-gray-500">Sonuç bekleniyor</p>
-                    </>
-                  )}
-                </div>
-              </div>
-            )}
+          <div className="ml-4 text-right flex-shrink-0">
+            <p className="text-xs font-medium text-gray-900">
+              {image.dimensions.width} × {image.dimensions.height}
+            </p>
+            <p className="text-xs text-gray-500">
+              {image.resizeMode === 'fit' && 'Fit'}
+              {image.resizeMode === 'fill' && 'Fill'}
+              {image.resizeMode === 'stretch' && 'Stretch'}
+              {image.resizeMode === 'subject' &&
+                describeSubjectFit(exportService.resolveSubjectFit(image, exportSettings))}
+              {!image.resizeMode && 'Fit'}
+            </p>
           </div>
         </div>
       </div>
 
+      {/* Split View - one column per provider */}
+      <div
+        className="flex-1 grid gap-px bg-gray-100"
+        style={{ gridTemplateColumns: `repeat(${Math.max(1, providerIds.length)}, minmax(0, 1fr))` }}
+      >
+        {providerIds.map((providerId) => (
+          <ProviderColumn
+            key={providerId}
+            image={image}
+            providerId={providerId}
+            onPreview={handleOpenPreview}
+            onRun={canRunProvider ? () => runProvider(image.id, providerId) : undefined}
+          />
+        ))}
+      </div>
+
       {/* Status Bar */}
       {image.status === 'error' && (
         <div className="bg-red-50 border-t border-red-200 p-3">
@@ -330,14 +309,19 @@ export function ComparisonView({ image }: ComparisonViewProps) {
           <div className="flex items-center justify-between">
             <p className="text-sm text-green-800">
               ✓ İşlem tamamlandı
+              {failedCount > 0 && (
+                <span className="ml-2 text-xs text-amber-700">({failedCount} sağlayıcı başarısız)</span>
+              )}
             </p>
             <div className="flex gap-3 text-xs text-gray-600">
-              {image.imglyBlob && (
-                <span>imgly: {(image.imglyBlob.size / 1024).toFixed(1)} KB</span>
-              )}
-              {image.photoroomBlob && (
-                <span>Photoroom: {(image.photoroomBlob.size / 1024).toFixed(1)} KB</span>
-              )}
+              {providerIds.map((providerId) => {
+                const blob = image.results[providerId]?.blob;
+                return blob ? (
+                  <span key={providerId}>
+                    {providerRegistry.getLabel(providerId)}: {(blob.size / 1024).toFixed(1)} KB
+                  </span>
+                ) : null;
+              })}
             </div>
           </div>
         </div>
@@ -393,3 +377,223 @@ export function ComparisonView({ image }: ComparisonViewProps) {
     </>
   );
 }
+
+interface ProviderColumnProps {
+  image: ImageObject;
+  providerId: ProviderId;
+  onPreview: (preview: PreviewImage) => void;
+  onRun?: () => void; // Run this provider on demand (only offered while the image is idle)
+}
+
+/**
+ * One provider's result with its own original/processed toggle and download
+ */
+function ProviderColumn({ image, providerId, onPreview, onRun }: ProviderColumnProps) {
+  const exportSettings = useImageStore((state) => state.exportSettings);
+  const [view, setView] = useState<ViewMode>('processed');
+  const [lastCompression, setLastCompression] = useState<CompressionReport | null>(null);
+  const [showMaskEditor, setShowMaskEditor] = useState(false);
+
+  const provider = providerRegistry.get(providerId);
+  const label = providerRegistry.getLabel(providerId);
+  const accent = PROVIDER_ACCENT_CLASSES[provider?.accent ?? 'blue'];
+  const result = image.results[providerId];
+  const resultBlob = result?.blob ?? null;
+  // During an on-demand run only the requested providers are working
+  const isRunning =
+    image.status === 'processing' && (!image.pendingProviderIds || image.pendingProviderIds.includes(providerId));
+  const hasError = result?.status === 'error';
+  const attempts = result?.diagnostics?.attempts ?? 0;
+  const durationMs = result?.diagnostics?.durationMs;
+
+  // Generate URLs for blobs
+  const originalUrl = image.originalFile ? URL.createObjectURL(image.originalFile) : null;
+  const resultUrl = resultBlob ? URL.createObjectURL(resultBlob) : null;
+  const imageUrl = view === 'original' ? originalUrl : resultUrl;
+
+  // Handle image click for preview
+  const handleImageClick = () => {
+    const blob = view === 'original' ? image.originalFile : resultBlob;
+    if (blob) {
+      onPreview({
+        blob,
+        name: `${image.newName} - ${label} ${view === 'original' ? '(Orijinal)' : '(İşlenmiş)'}`,
+        type: view === 'original' ? 'original' : providerId,
+      });
+    }
+  };
+
+  // Download handler - rendered from the cutout with the current export settings
+  const handleDownload = async () => {
+    if (!resultBlob) return;
+
+    try {
+      console.log(`[ComparisonView] Rendering ${providerId} at ${image.dimensions.width}x${image.dimensions.height}`);
+      const { blob, compression, forensicMark } = await exportService.renderResult(image, providerId, exportSettings);
+      setLastCompression(compression ?? null);
+      saveAs(blob, exportService.getFileName(image, providerId, blob));
+      exportService.recordForensicMarks([{ image, forensicMark }]);
+    } catch (error) {
+      console.error(`[ComparisonView] Error rendering ${providerId}:`, error);
+      // Fallback to the original size preview
+      saveAs(resultBlob, exportService.getFileName(image, providerId, resultBlob));
+    }
+  };
+
+  return (
+    <div className="bg-white flex flex-col">
+      {/* Controls - Compact */}
+      <div className="px-3 py-2.5 border-b border-gray-100 bg-gray-50/50">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-xs font-medium text-gray-700">
+            {label}
+            {attempts > 1 && (
+              <span
+                className="ml-1.5 font-normal text-gray-400"
+                title={durationMs ? `Toplam süre: ${(durationMs / 1000).toFixed(1)} sn` : undefined}
+              >
+                · {attempts} deneme
+              </span>
+            )}
+            {result?.providerCutout && (
+              <span className="ml-1.5 font-normal text-gray-400" title="Maske elle düzeltildi">
+                · düzenlendi
+              </span>
+            )}
+          </h3>
+          <div className="flex items-center gap-1.5">
+            {isRunning && result && (
+              <span className={`text-xs font-medium ${accent.text}`}>
+                {result.status === 'pending' ? 'Sırada' : `${result.progress}%`}
+              </span>
+            )}
+            {!isRunning && hasError && (
+              <span className="text-xs font-medium text-red-600">Hata</span>
+            )}
+            {lastCompression && (
+              <span
+                className={`text-xs ${lastCompression.withinBudget ? 'text-gray-400' : 'text-red-600'}`}
+                title="Son indirilen dosya"
+              >
+                {describeCompression(lastCompression)}
+              </span>
+            )}
+            {image.status === 'done' && result?.cutout && (
+              <button
+                onClick={() => setShowMaskEditor(true)}
+                className={`p-1.5 rounded transition-colors ${accent.iconButton}`}
+                title="Maskeyi düzenle"
+              >
+                <Brush className="w-3.5 h-3.5" />
+              </button>
+            )}
+            {image.status === 'done' && resultBlob && (
+              <button
+                onClick={handleDownload}
+                className={`p-1.5 rounded transition-colors ${accent.iconButton}`}
+                title={`İndir (${image.dimensions.width}x${image.dimensions.height})`}
+              >
+                <Download className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Toggle buttons - Compact */}
+        <div className="flex gap-1">
+          <button
+            onClick={() => setView('original')}
+            className={`flex-1 px-2 py-1 text-xs font-medium rounded transition-colors ${
+              view === 'original'
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            Orijinal
+          </button>
+          <button
+            onClick={() => setView('processed')}
+            className={`flex-1 px-2 py-1 text-xs font-medium rounded transition-colors ${
+              view === 'processed'
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            İşlenmiş
+          </button>
+        </div>
+      </div>
+
+      {/* Image Display */}
+      <div className="flex-1 relative p-4 overflow-auto">
+        {imageUrl ? (
+          <div className="absolute inset-4 flex items-center justify-center">
+            <img
+              src={imageUrl}
+              alt={`${label} result`}
+              onClick={handleImageClick}
+              className="max-w-full max-h-full object-contain rounded-lg shadow-lg cursor-pointer hover:opacity-90 transition-opacity"
+            />
+          </div>
+        ) : (
+          <div className="absolute inset-4 flex items-center justify-center">
+            <div className="text-center">
+              {isRunning ? (
+                <>
+                  <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-3"></div>
+                  <p className="text-sm text-gray-600">
+                    {result?.status === 'pending' ? 'Sağlayıcı sırası bekleniyor...' : 'İşleniyor...'}
+                  </p>
+                </>
+              ) : hasError ? (
+                <>
+                  <div className="w-12 h-12 rounded-full bg-red-50 flex items-center justify-center mx-auto mb-3">
+                    <AlertCircle className="w-6 h-6 text-red-500" />
+                  </div>
+                  <p className="text-sm font-medium text-red-700">{label} başarısız</p>
+                  <p className="text-xs text-red-600 mt-1 max-w-xs break-words">
+                    {result?.errorMessage || 'Bilinmeyen hata'}
+                  </p>
+                  {attempts > 1 && (
+                    <p className="text-xs text-gray-500 mt-1">{attempts} denemeden sonra vazgeçildi</p>
+                  )}
+                  {onRun && provider?.isAvailable() && (
+                    <button
+                      onClick={onRun}
+                      className={`mt-3 inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white rounded transition-colors ${accent.solidButton}`}
+                    >
+                      <RotateCw className="w-3.5 h-3.5" />
+                      Tekrar dene
+                    </button>
+                  )}
+                </>
+              ) : onRun && provider?.isAvailable() ? (
+                <button
+                  onClick={onRun}
+                  className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white rounded transition-colors ${accent.solidButton}`}
+                >
+                  <Play className="w-3.5 h-3.5" />
+                  {label} ile çalıştır
+                </button>
+              ) : (
+                <>
+                  <div className="w-12 h-12 rounded-full bg-gray-200 flex items-center justify-center mx-auto mb-3">
+                    <svg className="w-6 h-6 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                    </svg>
+                  </div>
+                  <p className="text-sm text-gray-500">Sonuç bekleniyor</p>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Mask Editor */}
+      {showMaskEditor && (
+        <MaskEditor image={image} providerId={providerId} onClose={() => setShowMaskEditor(false)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * CompressionReportPanel Component
+ * Shows the size and quality each file reached under its byte budget after a bulk export
+ * Files that could not be squeezed under the budget are highlighted
+ */
+
+import { X } from 'lucide-react';
+import type { RenderedFile } from '../services/exportService';
+import { describeCompression } from '../lib/outputFormat';
+
+interface CompressionReportPanelProps {
+  files: RenderedFile[];
+  onClose: () => void;
+}
+
+export function CompressionReportPanel({ files, onClose }: CompressionReportPanelProps) {
+  const overBudgetCount = files.filter((file) => !file.compression?.withinBudget).length;
+
+  return (
+    <div className="mt-2 p-3 bg-gray-50 rounded-lg border-t border-gray-100">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-xs font-medium text-gray-700">
+          Sıkıştırma Raporu
+          {overBudgetCount > 0 && (
+            <span className="ml-1.5 text-red-600">({overBudgetCount} dosya hedefin üzerinde)</span>
+          )}
+        </p>
+        <button onClick={onClose} className="p-0.5 text-gray-400 hover:text-gray-600 rounded" title="Kapat">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <ul className="max-h-40 overflow-y-auto space-y-1">
+        {files.map((file) =>
+          file.compression ? (
+            <li
+              key={file.fileName}
+              className={`text-xs ${file.compression.withinBudget ? 'text-gray-600' : 'text-red-600'}`}
+            >
+              <span className="font-medium">{file.fileName}</span>: {describeCompression(file.compression)}
+            </li>
+          ) : null
+        )}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+/**
+ * CreditDashboard Component
+ * Photoroom credit overview for the header: remaining, used this session, used today
+ * Also edits the per-batch and per-day spending caps
+ */
+
+import { useState, useSyncExternalStore } from 'react';
+import { Coins } from 'lucide-react';
+import { creditTracker } from '../services/creditTracker';
+import { photoroomService } from '../services/photoroomService';
+
+// Empty input = no limit
+const parseLimit = (value: string): number | null => {
+  const limit = parseInt(value, 10);
+  return Number.isFinite(limit) && limit >= 0 ? limit : null;
+};
+
+export function CreditDashboard() {
+  const usage = useSyncExternalStore(creditTracker.subscribe, creditTracker.getUsage);
+  const [showLimits, setShowLimits] = useState(false);
+
+  if (!photoroomService.isReady()) return null;
+
+  const { limits } = usage;
+  const dailyLimitReached = limits.perDay !== null && usage.usedToday >= limits.perDay;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setShowLimits(!showLimits)}
+        className={`flex items-center gap-2 px-2.5 py-1.5 text-xs rounded transition-colors ${
+          showLimits ? 'bg-purple-50 text-purple-700' : 'text-gray-600 hover:bg-gray-50'
+        }`}
+        title="Photoroom kredi kullanımı"
+      >
+        <Coins className="w-3.5 h-3.5 text-purple-600" />
+        <span>
+          Kalan: <span className="font-medium text-gray-900">{usage.remaining ?? '—'}</span>
+        </span>
+        <span className="text-gray-300">|</span>
+        <span>
+          Oturum: <span className="font-medium text-gray-900">{usage.usedThisSession}</span>
+        </span>
+        <span className="text-gray-300">|</span>
+        <span className={dailyLimitReached ? 'text-red-600' : undefined}>
+          Bugün:{' '}
+          <span className="font-medium">
+            {usage.usedToday}
+            {limits.perDay !== null && ` / ${limits.perDay}`}
+          </span>
+        </span>
+      </button>
+
+      {/* Limits Panel - Compact */}
+      {showLimits && (
+        <div className="absolute right-0 mt-1 w-64 bg-white border border-gray-200 rounded-lg shadow-lg p-3 space-y-2 z-20">
+          <p className="text-xs font-medium text-gray-700">Harcama Limitleri</p>
+          <label className="flex items-center justify-between text-xs text-gray-600">
+            Yükleme başına
+            <input
+              type="number"
+              min={0}
+              value={limits.perBatch ?? ''}
+              onChange={(e) => creditTracker.setLimits({ perBatch: parseLimit(e.target.value) })}
+              placeholder="Sınırsız"
+              className="w-20 px-2 py-0.5 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-purple-500 focus:border-purple-500"
+            />
+          </label>
+          <label className="flex items-center justify-between text-xs text-gray-600">
+            Günlük
+            <input
+              type="number"
+              min={0}
+              value={limits.perDay ?? ''}
+              onChange={(e) => creditTracker.setLimits({ perDay: parseLimit(e.target.value) })}
+              placeholder="Sınırsız"
+              className="w-20 px-2 py-0.5 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-purple-500 focus:border-purple-500"
+            />
+          </label>
+          <p className="text-xs text-gray-400">
+            Limite ulaşıldığında Photoroom istekleri gönderilmez, diğer sağlayıcılar çalışmaya devam eder.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
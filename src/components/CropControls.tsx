@@ -0,0 +1,107 @@
+/**
+ * CropControls Component
+ * Edits a CropSpec: crop to the subject's bounding box with a margin per side
+ * Used for the global crop (bulk actions) and the per-image override (comparison view)
+ */
+
+import { useState } from 'react';
+import type { CropMarginUnit, CropMargins, CropSpec } from '../types/crop';
+import { CROP_SIDE_LABELS } from '../lib/crop';
+
+interface CropControlsProps {
+  value: CropSpec;
+  onChange: (crop: CropSpec) => void;
+}
+
+interface MarginFieldProps {
+  label: string;
+  value: number;
+  onCommit: (value: number) => void;
+}
+
+/**
+ * Number input that reports on blur/Enter - every change re-renders all previews
+ */
+function MarginField({ label, value, onCommit }: MarginFieldProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const parsed = parseFloat(draft);
+    if (Number.isFinite(parsed) && parsed >= 0 && parsed !== value) onCommit(parsed);
+    setDraft(null);
+  };
+
+  return (
+    <label className="flex flex-col gap-0.5 text-xs text-gray-600">
+      {label}
+      <input
+        type="number"
+        min={0}
+        value={draft ?? value}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+        }}
+        className="w-full px-1.5 py-1 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+      />
+    </label>
+  );
+}
+
+export function CropControls({ value, onChange }: CropControlsProps) {
+  const update = (changes: Partial<CropSpec>) => onChange({ ...value, ...changes });
+
+  const setMargin = (side: keyof CropMargins, margin: number) =>
+    update({ margin: { ...value.margin, [side]: margin } });
+
+  const setAllMargins = (margin: number) =>
+    update({ margin: { top: margin, right: margin, bottom: margin, left: margin } });
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-xs text-gray-700">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="accent-blue-600"
+        />
+        Ürünün sınırlarına kırp
+      </label>
+
+      {value.enabled && (
+        <>
+          {/* Margin unit */}
+          <div className="flex gap-1">
+            {(['percent', 'px'] as CropMarginUnit[]).map((unit) => (
+              <button
+                key={unit}
+                onClick={() => update({ unit })}
+                className={`flex-1 px-2 py-1 text-xs font-medium rounded transition-colors ${
+                  value.unit === unit ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {unit === 'percent' ? '% (ürüne göre)' : 'Piksel'}
+              </button>
+            ))}
+          </div>
+
+          {/* Margins per side */}
+          <div className="grid grid-cols-4 gap-1.5">
+            {(Object.keys(CROP_SIDE_LABELS) as (keyof CropMargins)[]).map((side) => (
+              <MarginField
+                key={side}
+                label={CROP_SIDE_LABELS[side]}
+                value={value.margin[side]}
+                onCommit={(margin) => setMargin(side, margin)}
+              />
+            ))}
+          </div>
+          <MarginField label="Tüm kenarlar" value={value.margin.top} onCommit={setAllMargins} />
+        </>
+      )}
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ import { Input } from './ui/input';
 import { ImageCard } from './ImageCard';
 import { ImagePreviewModal } from './ImagePreviewModal';
 import type { ImageObject } from '../types/image';
+import { getFileExtension } from '../lib/outputFormat';
 
 export function EditorDashboard() {
   const { images, updateBulkDimensions, clearAll } = useImageStore();
@@ -55,7 +56,7 @@ export function EditorDashboard() {
     // Add each processed image to the zip
     for (const image of processedImages) {
       if (image.processedBlob) {
-        zip.file(`${image.newName}.jpg`, image.processedBlob);
+        zip.file(`${image.newName}.${getFileExtension(image.processedBlob.type)}`, image.processedBlob);
       }
     }
 
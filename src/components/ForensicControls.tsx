@@ -0,0 +1,112 @@
+/**
+ * ForensicControls Component
+ * Turns the invisible trace mark of exports on/off and verifies a suspect image:
+ * reads the batch code and export day back and looks the batch up in this browser's export log
+ */
+
+import { useState } from 'react';
+import type { ForensicSettings, ForensicVerification } from '../types/forensic';
+import { useImageStore } from '../store/imageStore';
+import { forensicService } from '../services/forensicService';
+
+interface ForensicControlsProps {
+  value: ForensicSettings;
+  onChange: (settings: ForensicSettings) => void;
+}
+
+const MAX_LISTED_FILES = 5;
+
+export function ForensicControls({ value, onChange }: ForensicControlsProps) {
+  const images = useImageStore((state) => state.images);
+  const [result, setResult] = useState<{ fileName: string; verification: ForensicVerification } | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSuspectFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsChecking(true);
+    setError(null);
+    setResult(null);
+    try {
+      const verification = await forensicService.verify(file, images);
+      setResult({ fileName: file.name, verification });
+    } catch (err) {
+      console.error('[ForensicControls] Verification failed:', err);
+      setError(err instanceof Error ? err.message : 'Görüntü okunamadı');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const payload = result?.verification.payload;
+  const knownFiles = result?.verification.knownFiles ?? [];
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-xs text-gray-600">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+          className="accent-blue-600"
+        />
+        Dışa aktarılan görsellere görünmez iz ekle
+      </label>
+      <p className="text-xs text-gray-500">
+        Yükleme partisinin kodu ve dışa aktarma tarihi piksellere gizlenir; önizlemeler iz taşımaz. Kırpılan,
+        yeniden boyutlandırılan veya bayt bütçesi için küçültülen/çok sıkıştırılan kopyalarda iz okunamayabilir.
+      </p>
+
+      {/* Verification */}
+      <label
+        className={`block px-3 py-1.5 text-xs font-medium text-center rounded transition-colors ${
+          isChecking ? 'text-gray-400 bg-gray-100' : 'text-gray-700 bg-white hover:bg-gray-100 cursor-pointer'
+        }`}
+      >
+        {isChecking ? 'İz okunuyor...' : 'Şüpheli görseli doğrula'}
+        <input
+          type="file"
+          accept="image/*"
+          disabled={isChecking}
+          onChange={(e) => {
+            handleSuspectFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
+      </label>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {result && (
+        <div className="p-2 text-xs bg-white rounded border border-gray-200 space-y-0.5">
+          <p className="font-medium text-gray-700 truncate" title={result.fileName}>
+            {result.fileName}
+          </p>
+          {payload ? (
+            <>
+              <p className="text-green-700">
+                İz bulundu: parti <span className="font-mono">{payload.batchCode.toString(16).padStart(8, '0')}</span>,{' '}
+                {payload.date}
+              </p>
+              {knownFiles.length > 0 ? (
+                <p className="text-gray-600">
+                  {result.verification.logged ? 'Bu tarayıcıdan dışa aktarıldı' : 'Açık oturumdaki parti'}:{' '}
+                  {knownFiles.slice(0, MAX_LISTED_FILES).join(', ')}
+                  {knownFiles.length > MAX_LISTED_FILES && ` ve ${knownFiles.length - MAX_LISTED_FILES} dosya daha`}
+                </p>
+              ) : (
+                <p className="text-gray-500">Parti bu tarayıcının kayıtlarında yok.</p>
+              )}
+            </>
+          ) : (
+            <p className="text-gray-500">
+              Geçerli bir iz bulunamadı ({result.verification.blockCount} blok okundu).
+            </p>
+          )}
+          <p className="text-gray-400">Güven: %{Math.round(result.verification.confidence * 100)}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { useState, useEffect } from 'react';
 import { Download, Pencil, Trash2, Loader2, Check } from 'lucide-react';
 import { useImageStore } from '../store/imageStore';
 import type { ImageObject } from '../types/image';
+import { getFileExtension } from '../lib/outputFormat';
 import { Card, CardContent } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
@@ -67,7 +68,7 @@ export function ImageCard({ image, onPreviewClick }: ImageCardProps) {
     const url = URL.createObjectURL(image.processedBlob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${image.newName}.jpg`;
+    a.download = `${image.newName}.${getFileExtension(image.processedBlob.type)}`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -4,10 +4,31 @@
  * Allows selection for comparison view
  */
 
-import type { ImageObject, ResizeMode } from '../types/image';
+import type { ImageObject, ResizeMode, SubjectFit } from '../types/image';
+import type { ProviderResultStatus } from '../types/provider';
 import { useImageStore } from '../store/imageStore';
-import { Settings, Lock, Unlock, Edit2 } from 'lucide-react';
+import { Settings, Lock, Unlock, Edit2, Pause, Play, X, SlidersHorizontal } from 'lucide-react';
 import { useState } from 'react';
+import { providerRegistry } from '../services/providerRegistry';
+import { ProviderModeSelect } from './ProviderModeSelect';
+import { SubjectFitFields } from './SubjectFitFields';
+
+const PROVIDER_STATUS_CLASSES: Record<ProviderResultStatus, string> = {
+  pending: 'bg-gray-100 text-gray-500',
+  processing: 'bg-blue-50 text-blue-600',
+  done: 'bg-green-50 text-green-700',
+  error: 'bg-red-50 text-red-600',
+};
+
+const PROVIDER_STATUS_LABELS: Record<ProviderResultStatus, string> = {
+  pending: 'Sırada',
+  processing: 'İşleniyor',
+  done: 'Hazır',
+  error: 'Hata',
+};
+
+// Keep concurrency inputs in a sane range (1-8)
+const clampConcurrency = (value: string) => Math.min(8, Math.max(1, parseInt(value) || 1));
 
 interface ImageListSidebarProps {
   images: ImageObject[];
@@ -16,7 +37,26 @@ interface ImageListSidebarProps {
 }
 
 export function ImageListSidebar({ images, selectedImageId, onSelectImage }: ImageListSidebarProps) {
-  const { removeImage, updateImageDimensions, updateImageName } = useImageStore();
+  const {
+    removeImage,
+    updateImageDimensions,
+    updateImageName,
+    isQueuePaused,
+    queueSettings,
+    setQueueSettings,
+    pauseQueue,
+    resumeQueue,
+    cancelQueue,
+    pauseImage,
+    resumeImage,
+    cancelImage,
+    enabledProviderIds,
+    setProviderEnabled,
+    defaultProviderMode,
+    setDefaultProviderMode,
+    exportSettings,
+  } = useImageStore();
+  const [showQueueSettings, setShowQueueSettings] = useState(false);
   const [editingImageId, setEditingImageId] = useState<string | null>(null);
   const [editingNameId, setEditingNameId] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
@@ -24,8 +64,14 @@ export function ImageListSidebar({ images, selectedImageId, onSelectImage }: Ima
   const [editHeight, setEditHeight] = useState(0);
   const [aspectRatioLocked, setAspectRatioLocked] = useState(true);
   const [resizeMode, setResizeMode] = useState<ResizeMode>('fit');
+  const [subjectFit, setSubjectFit] = useState<SubjectFit>(exportSettings.subjectFit);
   const [originalAspectRatio, setOriginalAspectRatio] = useState(1);
 
+  const processingCount = images.filter((img) => img.status === 'processing').length;
+  const queuedCount = images.filter((img) => img.status === 'queued').length;
+  const pendingCount =
+    processingCount + queuedCount + images.filter((img) => img.status === 'paused').length;
+
   if (images.length === 0) {
     return (
       <div className="h-full flex items-center justify-center p-4">
@@ -45,7 +91,113 @@ export function ImageListSidebar({ images, selectedImageId, onSelectImage }: Ima
     <div className="h-full flex flex-col bg-white">
       {/* Header - Minimal */}
       <div className="flex-shrink-0 px-3 py-2 border-b border-gray-100">
-        <p className="text-xs font-medium text-gray-500">{images.length} Görsel</p>
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-xs font-medium text-gray-500">{images.length} Görsel</p>
+            {pendingCount > 0 && (
+              <p className="text-xs text-gray-400">
+                {processingCount} işleniyor • {queuedCount} sırada
+                {isQueuePaused && ' • Duraklatıldı'}
+              </p>
+            )}
+          </div>
+
+          {/* Batch queue controls */}
+          <div className="flex gap-0.5">
+            {isQueuePaused ? (
+              <button
+                onClick={resumeQueue}
+                className="p-1.5 text-gray-400 hover:text-green-600 hover:bg-green-50 rounded transition-colors"
+                title="Kuyruğu devam ettir"
+              >
+                <Play className="w-3.5 h-3.5" />
+              </button>
+            ) : (
+              <button
+                onClick={pauseQueue}
+                disabled={pendingCount === 0}
+                className="p-1.5 text-gray-400 hover:text-amber-600 hover:bg-amber-50 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-400 rounded transition-colors"
+                title="Kuyruğu duraklat"
+              >
+                <Pause className="w-3.5 h-3.5" />
+              </button>
+            )}
+            <button
+              onClick={cancelQueue}
+              disabled={pendingCount === 0}
+              className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-400 rounded transition-colors"
+              title="Tümünü iptal et"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => setShowQueueSettings(!showQueueSettings)}
+              className={`p-1.5 rounded transition-colors ${
+                showQueueSettings
+                  ? 'text-blue-600 bg-blue-50'
+                  : 'text-gray-400 hover:text-blue-600 hover:bg-blue-50'
+              }`}
+              title="Kuyruk ayarları"
+            >
+              <SlidersHorizontal className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Queue Settings Panel - Compact */}
+        {showQueueSettings && (
+          <div className="mt-2 bg-gray-50 border border-gray-200 rounded-lg p-2.5 space-y-1.5">
+            <p className="text-xs font-medium text-gray-700">Kuyruk Ayarları</p>
+            <label className="flex items-center justify-between text-xs text-gray-600">
+              Eşzamanlı görsel
+              <input
+                type="number"
+                min={1}
+                max={8}
+                value={queueSettings.workerCount}
+                onChange={(e) => setQueueSettings({ workerCount: clampConcurrency(e.target.value) })}
+                className="w-14 px-2 py-0.5 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </label>
+            <label className="flex items-center justify-between text-xs text-gray-600">
+              Varsayılan mod
+              <ProviderModeSelect
+                value={defaultProviderMode}
+                onChange={(mode) => mode && setDefaultProviderMode(mode)}
+              />
+            </label>
+            <p className="text-xs font-medium text-gray-700 pt-1">Karşılaştırma sağlayıcıları</p>
+            {providerRegistry.getAll().map((provider) => (
+              <div key={provider.id} className="flex items-center justify-between text-xs text-gray-600">
+                <label className="flex items-center gap-1.5" title={provider.description}>
+                  <input
+                    type="checkbox"
+                    checked={enabledProviderIds.includes(provider.id)}
+                    onChange={(e) => setProviderEnabled(provider.id, e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  {provider.label}
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={8}
+                  value={queueSettings.providerConcurrency[provider.id] ?? provider.capabilities.defaultConcurrency}
+                  onChange={(e) =>
+                    setQueueSettings({
+                      providerConcurrency: {
+                        ...queueSettings.providerConcurrency,
+                        [provider.id]: clampConcurrency(e.target.value),
+                      },
+                    })
+                  }
+                  title="Eşzamanlı istek limiti"
+                  className="w-14 px-2 py-0.5 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Image List - Compact */}
@@ -143,11 +295,49 @@ export function ImageListSidebar({ images, selectedImageId, onSelectImage }: Ima
                     </span>
                   )}
                   {image.status === 'error' && (
-                    <span className="text-xs text-red-600 mt-1 block">Hata</span>
+                    <span className="text-xs text-red-600 mt-1 block truncate" title={image.errorMessage}>
+                      Hata{image.errorMessage ? `: ${image.errorMessage}` : ''}
+                    </span>
                   )}
                   {image.status === 'idle' && (
                     <span className="text-xs text-gray-400 mt-1 block">Bekliyor</span>
                   )}
+                  {image.status === 'queued' && (
+                    <span className="text-xs text-gray-500 mt-1 block">
+                      {isQueuePaused ? 'Sırada (duraklatıldı)' : 'Sırada'}
+                    </span>
+                  )}
+                  {image.status === 'paused' && (
+                    <span className="text-xs text-amber-600 mt-1 block">Duraklatıldı</span>
+                  )}
+                  {image.status === 'cancelled' && (
+                    <span className="text-xs text-gray-400 mt-1 block">İptal edildi</span>
+                  )}
+
+                  {/* Per-provider status - errors show their message on hover */}
+                  {(image.status === 'processing' || image.status === 'done' || image.status === 'error') && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {providerRegistry.sortIds(Object.keys(image.results)).map((providerId) => {
+                        const result = image.results[providerId];
+                        return (
+                          <span
+                            key={providerId}
+                            className={`px-1 rounded text-[10px] leading-4 ${PROVIDER_STATUS_CLASSES[result.status]}`}
+                            title={[
+                              result.errorMessage ?? PROVIDER_STATUS_LABELS[result.status],
+                              (result.diagnostics?.attempts ?? 0) > 1 && `${result.diagnostics?.attempts} deneme`,
+                            ]
+                              .filter(Boolean)
+                              .join(' · ')}
+                          >
+                            {providerRegistry.getLabel(providerId)}
+                            {result.status === 'done' && ' ✓'}
+                            {result.status === 'error' && ' ✕'}
+                          </span>
+                        );
+                      })}
+                    </div>
+                  )}
                   
                   {/* Dimensions - Show only when done, subtle */}
                   {image.status === 'done' && image.dimensions.width > 0 && (
@@ -159,6 +349,44 @@ export function ImageListSidebar({ images, selectedImageId, onSelectImage }: Ima
 
                 {/* Action buttons - Show on hover */}
                 <div className="flex-shrink-0 flex gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                  {/* Queue controls */}
+                  {image.status === 'queued' && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        pauseImage(image.id);
+                      }}
+                      className="p-1.5 text-gray-400 hover:text-amber-600 hover:bg-amber-50 rounded transition-colors"
+                      title="Duraklat"
+                    >
+                      <Pause className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  {(image.status === 'paused' || image.status === 'cancelled') && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        resumeImage(image.id);
+                      }}
+                      className="p-1.5 text-gray-400 hover:text-green-600 hover:bg-green-50 rounded transition-colors"
+                      title={image.status === 'paused' ? 'Devam ettir' : 'Tekrar sıraya al'}
+                    >
+                      <Play className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  {(image.status === 'queued' || image.status === 'paused' || image.status === 'processing') && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        cancelImage(image.id);
+                      }}
+                      className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                      title="İptal et"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+
                   {/* Settings button */}
                   {image.status === 'done' && (
                     <button
@@ -171,6 +399,7 @@ export function ImageListSidebar({ images, selectedImageId, onSelectImage }: Ima
                         setOriginalAspectRatio(aspectRatio);
                         setAspectRatioLocked(image.maintainAspectRatio ?? true);
                         setResizeMode(image.resizeMode ?? 'fit');
+                        setSubjectFit(image.subjectFit ?? exportSettings.subjectFit);
                       }}
                       className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
                       title="Boyut ayarla"
@@ -233,6 +462,17 @@ export function ImageListSidebar({ images, selectedImageId, onSelectImage }: Ima
                       >
                         Stretch
                       </button>
+                      <button
+                        onClick={() => setResizeMode('subject')}
+                        className={`flex-1 px-2 py-1 text-xs font-medium rounded transition-colors ${
+                          resizeMode === 'subject'
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-white text-gray-600 hover:bg-gray-100'
+                        }`}
+                        title="Ürünü maskesine göre ölçekle ve konumlandır"
+                      >
+                        Ürün
+                      </button>
                       <button
                         onClick={() => setAspectRatioLocked(!aspectRatioLocked)}
                         className={`px-2 py-1 rounded transition-colors ${
@@ -250,6 +490,9 @@ export function ImageListSidebar({ images, selectedImageId, onSelectImage }: Ima
                       </button>
                     </div>
 
+                    {/* Subject fit - only this image */}
+                    {resizeMode === 'subject' && <SubjectFitFields value={subjectFit} onChange={setSubjectFit} />}
+
                     {/* Dimension Inputs - Compact */}
                     <div className="grid grid-cols-2 gap-1.5 mb-2">
                       <input
@@ -285,7 +528,14 @@ export function ImageListSidebar({ images, selectedImageId, onSelectImage }: Ima
                       <button
                         onClick={() => {
                           if (editWidth > 0 && editHeight > 0) {
-                            updateImageDimensions(image.id, editWidth, editHeight, resizeMode, aspectRatioLocked);
+                            updateImageDimensions(
+                              image.id,
+                              editWidth,
+                              editHeight,
+                              resizeMode,
+                              aspectRatioLocked,
+                              resizeMode === 'subject' ? subjectFit : undefined
+                            );
                             setEditingImageId(null);
                           }
                         }}
@@ -10,6 +10,7 @@ import { Input } from './ui/input';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import type { ImageObject } from '../types/image';
+import { getFileExtension } from '../lib/outputFormat';
 
 interface ImageRowProps {
   image: ImageObject;
@@ -56,7 +57,7 @@ export function ImageRow({ image }: ImageRowProps) {
     const url = URL.createObjectURL(image.processedBlob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${image.newName}.jpg`;
+    a.download = `${image.newName}.${getFileExtension(image.processedBlob.type)}`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -133,7 +134,9 @@ export function ImageRow({ image }: ImageRowProps) {
           placeholder="Dosya adı"
           disabled={image.status === 'processing'}
         />
-        <p className="text-xs text-muted-foreground mt-1">.jpg</p>
+        <p className="text-xs text-muted-foreground mt-1">
+          .{image.processedBlob ? getFileExtension(image.processedBlob.type) : 'jpg'}
+        </p>
       </div>
 
       {/* Dimensions */}
@@ -0,0 +1,524 @@
+/**
+ * MaskEditor Component
+ * Full-screen editor for one provider's alpha mask: erase background islands, restore cut-off parts
+ * from the original photo, with soft/hard and edge-aware ("magic") brushes, zoom/pan and undo
+ * Saving replaces the result's cutout, so previews and exports use the edited mask
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Eraser, Brush, Hand, Maximize, Undo2, WandSparkles, X, ZoomIn, ZoomOut } from 'lucide-react';
+import type { ImageObject } from '../types/image';
+import type { ProviderId } from '../types/provider';
+import type { MaskBrush, MaskBrushMode, MaskLayers, MaskRect, MaskStroke } from '../types/mask';
+import { imageProcessor } from '../services/imageProcessor';
+import { providerRegistry } from '../services/providerRegistry';
+import { useImageStore } from '../store/imageStore';
+import {
+  DEFAULT_MASK_BRUSH,
+  MASK_BRUSH_MODE_LABELS,
+  MASK_BRUSH_SIZE_RANGE,
+  MAX_MASK_UNDO_STEPS,
+  beginStroke,
+  paintStroke,
+  renderMaskPreview,
+} from '../lib/maskBrush';
+import { RangeField } from './RangeField';
+
+interface MaskEditorProps {
+  image: ImageObject;
+  providerId: ProviderId;
+  onClose: () => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface View {
+  zoom: number;
+  x: number; // Offset of the image in the viewport, screen pixels
+  y: number;
+}
+
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 32;
+const ZOOM_STEP = 1.25;
+
+const MODE_ICONS: Record<MaskBrushMode, typeof Eraser> = { erase: Eraser, restore: Brush };
+
+const percent = (value: number) => `%${Math.round(value * 100)}`;
+const pixels = (value: number) => `${value}px`;
+
+const toolButtonClass = (active: boolean) =>
+  `flex items-center gap-1 px-2 py-1 text-xs font-medium rounded transition-colors ${
+    active ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'
+  }`;
+
+/**
+ * Copy a region of the layers to the canvas
+ */
+function drawLayers(
+  canvas: HTMLCanvasElement | null,
+  layers: MaskLayers | null,
+  display: ImageData | null,
+  rect: MaskRect,
+  showRemoved: boolean
+): void {
+  const ctx = canvas?.getContext('2d');
+  if (!ctx || !layers || !display) return;
+  renderMaskPreview(layers, display, rect, showRemoved);
+  ctx.putImageData(display, 0, 0, rect.x, rect.y, rect.width, rect.height);
+}
+
+export function MaskEditor({ image, providerId, onClose }: MaskEditorProps) {
+  const refineMask = useImageStore((state) => state.refineMask);
+  const resetMask = useImageStore((state) => state.resetMask);
+  const result = image.results[providerId];
+  const cutout = result?.cutout ?? null;
+  const label = providerRegistry.getLabel(providerId);
+
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const layersRef = useRef<MaskLayers | null>(null);
+  const displayRef = useRef<ImageData | null>(null);
+  const strokeRef = useRef<{ stroke: MaskStroke; last: Point } | null>(null);
+  const panRef = useRef<{ start: Point; origin: Point } | null>(null);
+  const undoRef = useRef<Uint8ClampedArray[]>([]);
+
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [brush, setBrush] = useState<MaskBrush>(DEFAULT_MASK_BRUSH);
+  const [view, setView] = useState<View>({ zoom: 1, x: 0, y: 0 });
+  const [cursor, setCursor] = useState<Point | null>(null);
+  const [undoCount, setUndoCount] = useState(0);
+  const [showRemoved, setShowRemoved] = useState(true);
+  const [handTool, setHandTool] = useState(false);
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const isPanMode = handTool || spaceHeld;
+
+  const fitView = useCallback((width: number, height: number) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const zoom = Math.min(viewport.clientWidth / width, viewport.clientHeight / height, 1) * 0.95;
+    setView({
+      zoom,
+      x: (viewport.clientWidth - width * zoom) / 2,
+      y: (viewport.clientHeight - height * zoom) / 2,
+    });
+  }, []);
+
+  // Split the cutout into mask + colors (worker)
+  useEffect(() => {
+    if (!cutout) return;
+    let cancelled = false;
+
+    imageProcessor
+      .loadMaskLayers(cutout, image.originalFile)
+      .then((layers) => {
+        if (cancelled) return;
+        layersRef.current = layers;
+        displayRef.current = new ImageData(layers.width, layers.height);
+        undoRef.current = [];
+        setUndoCount(0);
+        setSize({ width: layers.width, height: layers.height });
+        fitView(layers.width, layers.height);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('[MaskEditor] Could not load the mask:', err);
+        setError(err instanceof Error ? err.message : 'Maske yüklenemedi');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cutout, image.originalFile, fitView]);
+
+  // Full redraw once the canvas exists and whenever the display mode changes
+  useEffect(() => {
+    if (!size) return;
+    drawLayers(canvasRef.current, layersRef.current, displayRef.current, { x: 0, y: 0, ...size }, showRemoved);
+  }, [size, showRemoved]);
+
+  const zoomAt = useCallback((factor: number, anchor?: Point) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const point = anchor ?? { x: viewport.clientWidth / 2, y: viewport.clientHeight / 2 };
+    setView((current) => {
+      const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current.zoom * factor));
+      const scale = zoom / current.zoom;
+      // Keep the image point under the anchor where it is
+      return { zoom, x: point.x - (point.x - current.x) * scale, y: point.y - (point.y - current.y) * scale };
+    });
+  }, []);
+
+  // Wheel zoom - registered by hand, React's wheel listener is passive and cannot stop the page from scrolling
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const bounds = viewport.getBoundingClientRect();
+      zoomAt(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, { x: e.clientX - bounds.left, y: e.clientY - bounds.top });
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [zoomAt]);
+
+  const undo = useCallback(() => {
+    const layers = layersRef.current;
+    const snapshot = undoRef.current.pop();
+    if (!layers || !snapshot || strokeRef.current) return;
+    layers.mask.set(snapshot);
+    setUndoCount(undoRef.current.length);
+    drawLayers(
+      canvasRef.current,
+      layers,
+      displayRef.current,
+      { x: 0, y: 0, width: layers.width, height: layers.height },
+      showRemoved
+    );
+  }, [showRemoved]);
+
+  const handleClose = useCallback(() => {
+    if (undoCount > 0 && !window.confirm('Kaydedilmemiş maske değişiklikleri silinsin mi?')) return;
+    onClose();
+  }, [undoCount, onClose]);
+
+  // Shortcuts: Ctrl+Z undo, [ ] brush size, space pans, ESC closes
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        undo();
+      } else if (e.key === '[' || e.key === ']') {
+        const factor = e.key === ']' ? 1.2 : 1 / 1.2;
+        setBrush((current) => ({
+          ...current,
+          size: Math.round(
+            Math.min(MASK_BRUSH_SIZE_RANGE.max, Math.max(MASK_BRUSH_SIZE_RANGE.min, current.size * factor))
+          ),
+        }));
+      } else if (e.key === ' ') {
+        e.preventDefault();
+        setSpaceHeld(true);
+      } else if (e.key === 'Escape') {
+        handleClose();
+      }
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key === ' ') setSpaceHeld(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [undo, handleClose]);
+
+  const toViewport = (e: React.PointerEvent): Point => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - bounds.left, y: e.clientY - bounds.top };
+  };
+
+  const toImage = (point: Point): Point => ({ x: (point.x - view.x) / view.zoom, y: (point.y - view.y) / view.zoom });
+
+  const paint = (from: Point, to: Point, stroke: MaskStroke) => {
+    const layers = layersRef.current;
+    if (!layers) return;
+    const changed = paintStroke(layers, stroke, from, to, brush);
+    if (changed) drawLayers(canvasRef.current, layers, displayRef.current, changed, showRemoved);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    // Middle/right button or the hand tool pans
+    if (e.button === 1 || e.button === 2 || isPanMode) {
+      panRef.current = { start: { x: e.clientX, y: e.clientY }, origin: { x: view.x, y: view.y } };
+      return;
+    }
+    const layers = layersRef.current;
+    if (e.button !== 0 || !layers) return;
+
+    const point = toImage(toViewport(e));
+    const stroke = beginStroke(layers.mask);
+    strokeRef.current = { stroke, last: point };
+    paint(point, point, stroke);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const position = toViewport(e);
+    setCursor(position);
+
+    const pan = panRef.current;
+    if (pan) {
+      setView((current) => ({
+        ...current,
+        x: pan.origin.x + e.clientX - pan.start.x,
+        y: pan.origin.y + e.clientY - pan.start.y,
+      }));
+      return;
+    }
+
+    const active = strokeRef.current;
+    if (!active) return;
+    const point = toImage(position);
+    paint(active.last, point, active.stroke);
+    active.last = point;
+  };
+
+  const handlePointerUp = () => {
+    panRef.current = null;
+    const active = strokeRef.current;
+    if (!active) return;
+    strokeRef.current = null;
+    // The mask before the stroke is the undo step
+    undoRef.current = [...undoRef.current, active.stroke.base].slice(-MAX_MASK_UNDO_STEPS);
+    setUndoCount(undoRef.current.length);
+  };
+
+  const handleSave = async () => {
+    const layers = layersRef.current;
+    if (!layers) return;
+    setIsSaving(true);
+    try {
+      const edited = await imageProcessor.composeMaskedCutout(layers);
+      refineMask(image.id, providerId, edited);
+      onClose();
+    } catch (err) {
+      console.error('[MaskEditor] Could not save the mask:', err);
+      setError(err instanceof Error ? err.message : 'Maske kaydedilemedi');
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    if (!window.confirm(`${label} sağlayıcısının ilk maskesine dönülsün mü? Tüm elle düzeltmeler silinir.`)) return;
+    resetMask(image.id, providerId);
+    onClose();
+  };
+
+  const ModeIcon = MODE_ICONS[brush.mode];
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-black/90 backdrop-blur-sm">
+      {/* Toolbar */}
+      <div className="bg-white border-b border-gray-200 px-4 py-2 space-y-2">
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="text-sm font-medium text-gray-900 truncate">
+            Maske düzenle - {image.newName} ({label})
+            {size && (
+              <span className="ml-1.5 text-xs font-normal text-gray-400">
+                {size.width} x {size.height} px
+              </span>
+            )}
+          </h3>
+          <div className="flex items-center gap-1.5">
+            {result?.providerCutout && (
+              <button
+                onClick={handleReset}
+                className="px-3 py-1.5 text-xs font-medium text-red-600 bg-white hover:bg-red-50 rounded transition-colors"
+              >
+                Sağlayıcı maskesine dön
+              </button>
+            )}
+            <button
+              onClick={handleClose}
+              className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-50 hover:bg-gray-100 rounded transition-colors"
+            >
+              Vazgeç
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!size || undoCount === 0 || isSaving}
+              className="px-3 py-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed rounded transition-colors"
+            >
+              {isSaving ? 'Kaydediliyor...' : 'Kaydet'}
+            </button>
+            <button
+              onClick={handleClose}
+              className="p-1.5 text-gray-500 hover:bg-gray-100 rounded transition-colors"
+              title="Kapat (ESC)"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+          {/* Brush */}
+          <div className="flex gap-1 p-0.5 bg-gray-100 rounded">
+            {(Object.keys(MASK_BRUSH_MODE_LABELS) as MaskBrushMode[]).map((mode) => {
+              const Icon = MODE_ICONS[mode];
+              return (
+                <button
+                  key={mode}
+                  onClick={() => {
+                    setBrush({ ...brush, mode });
+                    setHandTool(false);
+                  }}
+                  className={toolButtonClass(!handTool && brush.mode === mode)}
+                >
+                  <Icon className="w-3.5 h-3.5" />
+                  {MASK_BRUSH_MODE_LABELS[mode]}
+                </button>
+              );
+            })}
+            <button
+              onClick={() => setHandTool(!handTool)}
+              className={toolButtonClass(handTool)}
+              title="Kaydır (veya Boşluk tuşu / orta tuş)"
+            >
+              <Hand className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <button
+            onClick={() => setBrush({ ...brush, magic: !brush.magic })}
+            className={toolButtonClass(brush.magic)}
+            title="Yalnızca fırça merkezindeki renge benzeyen, ona bağlı pikselleri boyar - kenarlarda durur"
+          >
+            <WandSparkles className="w-3.5 h-3.5" />
+            Akıllı fırça
+          </button>
+
+          <div className="w-48">
+            <RangeField
+              label="Boyut"
+              value={brush.size}
+              min={MASK_BRUSH_SIZE_RANGE.min}
+              max={MASK_BRUSH_SIZE_RANGE.max}
+              step={1}
+              format={pixels}
+              onCommit={(value) => setBrush({ ...brush, size: value })}
+            />
+          </div>
+          <div className="w-48">
+            <RangeField
+              label="Sertlik"
+              value={brush.hardness}
+              min={0}
+              max={1}
+              step={0.05}
+              format={percent}
+              onCommit={(hardness) => setBrush({ ...brush, hardness })}
+            />
+          </div>
+          {brush.magic && (
+            <div className="w-48">
+              <RangeField
+                label="Tolerans"
+                value={brush.tolerance}
+                min={0.02}
+                max={0.6}
+                step={0.02}
+                format={percent}
+                onCommit={(tolerance) => setBrush({ ...brush, tolerance })}
+              />
+            </div>
+          )}
+
+          {/* View */}
+          <div className="flex items-center gap-1">
+            <button onClick={() => zoomAt(1 / ZOOM_STEP)} className={toolButtonClass(false)} title="Uzaklaştır">
+              <ZoomOut className="w-3.5 h-3.5" />
+            </button>
+            <span className="w-12 text-center text-xs text-gray-600 tabular-nums">{percent(view.zoom)}</span>
+            <button onClick={() => zoomAt(ZOOM_STEP)} className={toolButtonClass(false)} title="Yakınlaştır">
+              <ZoomIn className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => size && fitView(size.width, size.height)}
+              className={toolButtonClass(false)}
+              title="Ekrana sığdır"
+            >
+              <Maximize className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <label className="flex items-center gap-1.5 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={showRemoved}
+              onChange={(e) => setShowRemoved(e.target.checked)}
+              className="accent-blue-600"
+            />
+            Kaldırılan alanları göster
+          </label>
+          <button
+            onClick={undo}
+            disabled={undoCount === 0}
+            className={`${toolButtonClass(false)} disabled:text-gray-300 disabled:cursor-not-allowed`}
+            title="Geri al (Ctrl+Z)"
+          >
+            <Undo2 className="w-3.5 h-3.5" />
+            Geri al ({undoCount})
+          </button>
+        </div>
+      </div>
+
+      {/* Canvas */}
+      <div
+        ref={viewportRef}
+        className="flex-1 relative overflow-hidden select-none"
+        style={{ cursor: isPanMode ? 'grab' : 'none', touchAction: 'none' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={() => setCursor(null)}
+        onContextMenu={(e) => e.preventDefault()}
+      >
+        {size && (
+          <canvas
+            ref={canvasRef}
+            width={size.width}
+            height={size.height}
+            className="absolute left-0 top-0"
+            style={{
+              transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+              transformOrigin: '0 0',
+              imageRendering: view.zoom >= 2 ? 'pixelated' : 'auto',
+              // Checkerboard keeps transparent areas visible
+              background: 'repeating-conic-gradient(#E5E7EB 0% 25%, #FFFFFF 0% 50%) 0 0 / 16px 16px',
+            }}
+          />
+        )}
+
+        {/* Brush outline */}
+        {size && cursor && !isPanMode && (
+          <div
+            className="absolute pointer-events-none rounded-full border border-white flex items-center justify-center"
+            style={{
+              left: cursor.x - (brush.size * view.zoom) / 2,
+              top: cursor.y - (brush.size * view.zoom) / 2,
+              width: brush.size * view.zoom,
+              height: brush.size * view.zoom,
+              boxShadow: '0 0 0 1px rgba(0, 0, 0, 0.6)',
+            }}
+          >
+            <ModeIcon className="w-3 h-3 text-white drop-shadow" />
+          </div>
+        )}
+
+        {!size && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            {error ? (
+              <p className="text-sm text-red-300">{error}</p>
+            ) : (
+              <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Footer */}
+      <div className="px-4 py-2 text-center text-xs text-gray-400">
+        {size && error && <span className="mr-3 text-red-300">{error}</span>}
+        Sol tuş: boya · Orta/sağ tuş veya Boşluk: kaydır · Tekerlek: yakınlaştır · [ ]: fırça boyutu · Ctrl+Z: geri al
+      </div>
+    </div>
+  );
+}
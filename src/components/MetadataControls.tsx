@@ -0,0 +1,91 @@
+/**
+ * MetadataControls Component
+ * Edits the MetadataPolicy: strip, preserve or rewrite EXIF/IPTC/XMP in exported JPEGs
+ */
+
+import { useState } from 'react';
+import type { MetadataFields, MetadataMode, MetadataPolicy } from '../types/metadata';
+import { METADATA_FIELD_LABELS, METADATA_MODE_LABELS } from '../lib/metadata';
+
+interface MetadataControlsProps {
+  value: MetadataPolicy;
+  onChange: (policy: MetadataPolicy) => void;
+}
+
+interface TextFieldProps {
+  label: string;
+  value: string;
+  onCommit: (value: string) => void;
+}
+
+/**
+ * Text input that reports on blur/Enter - the policy is persisted with the session
+ */
+function TextField({ label, value, onCommit }: TextFieldProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft !== null && draft.trim() !== value) onCommit(draft.trim());
+    setDraft(null);
+  };
+
+  return (
+    <label className="flex items-center gap-2 text-xs text-gray-600">
+      <span className="w-20 flex-shrink-0">{label}</span>
+      <input
+        type="text"
+        value={draft ?? value}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+        }}
+        className="flex-1 px-2 py-1 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+      />
+    </label>
+  );
+}
+
+const MODE_HINTS: Record<MetadataMode, string> = {
+  strip: 'Dosyalara hiçbir meta veri yazılmaz (kamera, konum bilgisi dahil).',
+  preserve: 'Kaynak fotoğrafın EXIF/IPTC/XMP bilgileri kopyalanır - konum bilgisi de korunur.',
+  rewrite: 'Kaynağın meta verisi atılır, yalnızca aşağıdaki alanlar EXIF, IPTC ve XMP olarak yazılır.',
+};
+
+export function MetadataControls({ value, onChange }: MetadataControlsProps) {
+  const setField = (field: keyof MetadataFields, text: string) =>
+    onChange({ ...value, fields: { ...value.fields, [field]: text } });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        {(Object.keys(METADATA_MODE_LABELS) as MetadataMode[]).map((mode) => (
+          <button
+            key={mode}
+            onClick={() => onChange({ ...value, mode })}
+            className={`flex-1 px-2 py-1 text-xs font-medium rounded transition-colors ${
+              value.mode === mode ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            {METADATA_MODE_LABELS[mode]}
+          </button>
+        ))}
+      </div>
+
+      {value.mode === 'rewrite' && (
+        <div className="space-y-1">
+          {(Object.keys(METADATA_FIELD_LABELS) as (keyof MetadataFields)[]).map((field) => (
+            <TextField
+              key={field}
+              label={METADATA_FIELD_LABELS[field]}
+              value={value.fields[field]}
+              onCommit={(text) => setField(field, text)}
+            />
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">{MODE_HINTS[value.mode]} Yalnızca JPEG çıktılara uygulanır.</p>
+    </div>
+  );
+}
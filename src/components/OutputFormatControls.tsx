@@ -0,0 +1,141 @@
+/**
+ * OutputFormatControls Component
+ * Edits OutputSettings: file format, quality and an optional file-size budget of exported images
+ * Formats the browser cannot encode are marked - exports fall back to the next one
+ */
+
+import { useEffect, useState } from 'react';
+import type { OutputFormat, OutputSettings } from '../types/output';
+import { imageProcessor } from '../services/imageProcessor';
+import { OUTPUT_FORMAT_LABELS, getFormatFallbacks, isLossyFormat, supportsTransparency } from '../lib/outputFormat';
+
+interface OutputFormatControlsProps {
+  value: OutputSettings;
+  onChange: (output: OutputSettings) => void;
+}
+
+const DEFAULT_BUDGET_KB = 500;
+
+export function OutputFormatControls({ value, onChange }: OutputFormatControlsProps) {
+  const [supported, setSupported] = useState<OutputFormat[] | null>(null);
+  const [budgetDraft, setBudgetDraft] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    imageProcessor
+      .getSupportedOutputFormats()
+      .then((formats) => {
+        if (!cancelled) setSupported(formats);
+      })
+      .catch((error) => console.error('[OutputFormatControls] Format detection failed:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const isSupported = (format: OutputFormat) => !supported || supported.includes(format);
+  // What the exporter will actually write for an opaque image
+  const fallback = getFormatFallbacks(value.format, false).find(isSupported) ?? 'jpeg';
+  const budgetKB = value.maxBytes ? Math.round(value.maxBytes / 1024) : null;
+
+  // Committed on blur/Enter - a half-typed budget would start a search with a tiny target
+  const commitBudget = () => {
+    if (budgetDraft === null) return;
+    const parsed = parseInt(budgetDraft);
+    if (Number.isFinite(parsed) && parsed > 0 && parsed !== budgetKB) {
+      onChange({ ...value, maxBytes: parsed * 1024 });
+    }
+    setBudgetDraft(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        {(Object.keys(OUTPUT_FORMAT_LABELS) as OutputFormat[]).map((format) => (
+          <button
+            key={format}
+            onClick={() => onChange({ ...value, format })}
+            className={`flex-1 px-2 py-1 text-xs font-medium rounded transition-colors ${
+              value.format === format ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'
+            } ${isSupported(format) ? '' : 'line-through'}`}
+            title={isSupported(format) ? undefined : 'Bu tarayıcı bu biçimi kaydedemiyor'}
+          >
+            {OUTPUT_FORMAT_LABELS[format]}
+          </button>
+        ))}
+      </div>
+
+      {isLossyFormat(value.format) && (
+        <label className="flex items-center gap-2 text-xs text-gray-600">
+          <span className="w-12 flex-shrink-0">Kalite</span>
+          <input
+            type="range"
+            min={0.5}
+            max={1}
+            step={0.01}
+            value={value.quality}
+            onChange={(e) => onChange({ ...value, quality: parseFloat(e.target.value) })}
+            className="flex-1 accent-blue-600"
+          />
+          <span className="w-10 text-right tabular-nums">%{Math.round(value.quality * 100)}</span>
+        </label>
+      )}
+
+      {/* File-size budget */}
+      <label className="flex items-center gap-2 text-xs text-gray-700">
+        <input
+          type="checkbox"
+          checked={budgetKB !== null}
+          onChange={(e) => onChange({ ...value, maxBytes: e.target.checked ? DEFAULT_BUDGET_KB * 1024 : null })}
+          className="accent-blue-600"
+        />
+        Hedef dosya boyutu
+        {budgetKB !== null && (
+          <>
+            <input
+              type="number"
+              min={1}
+              value={budgetDraft ?? budgetKB}
+              onChange={(e) => setBudgetDraft(e.target.value)}
+              onBlur={commitBudget}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitBudget();
+              }}
+              className="w-20 px-1.5 py-0.5 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+            />
+            KB
+          </>
+        )}
+      </label>
+      {budgetKB !== null && (
+        <>
+          <label className="flex items-center gap-2 text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={value.allowDownscale ?? false}
+              onChange={(e) => onChange({ ...value, allowDownscale: e.target.checked })}
+              className="accent-blue-600"
+            />
+            Gerekirse görsel boyutunu küçült
+          </label>
+          <p className="text-xs text-gray-500">
+            {isLossyFormat(fallback)
+              ? 'Kalite sınıra sığana kadar düşürülür, ayarlanan kalite üst sınırdır.'
+              : 'PNG kayıpsızdır - sınıra yalnızca boyut küçültülerek inilebilir.'}
+          </p>
+        </>
+      )}
+
+      {fallback !== value.format && (
+        <p className="text-xs text-amber-700">
+          {OUTPUT_FORMAT_LABELS[value.format]} desteklenmiyor, {OUTPUT_FORMAT_LABELS[fallback]} olarak kaydedilecek.
+        </p>
+      )}
+      <p className="text-xs text-gray-500">
+        {supportsTransparency(value.format)
+          ? 'Şeffaf arka plan seçilirse dosyada korunur.'
+          : 'JPEG şeffaflık desteklemez - şeffaf arka plan beyaz olur.'}
+      </p>
+    </div>
+  );
+}
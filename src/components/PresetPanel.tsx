@@ -0,0 +1,114 @@
+/**
+ * PresetPanel Component
+ * Picks a marketplace preset and applies it to one upload batch (or every image)
+ * Sets size, resize mode, fill ratio, background and the preset's watermark - the rest is checked on export
+ */
+
+import { useState } from 'react';
+import { useImageStore } from '../store/imageStore';
+import { MARKETPLACE_PRESETS, formatFileSize, getMarketplacePreset } from '../lib/marketplacePresets';
+import { describeWatermark } from '../lib/watermark';
+import { WatermarkControls } from './WatermarkControls';
+
+const ALL_BATCHES = 'all';
+
+interface PresetPanelProps {
+  onClose: () => void;
+}
+
+export function PresetPanel({ onClose }: PresetPanelProps) {
+  const images = useImageStore((state) => state.images);
+  const applyPreset = useImageStore((state) => state.applyPreset);
+  const presetWatermarks = useImageStore((state) => state.presetWatermarks);
+  const setPresetWatermark = useImageStore((state) => state.setPresetWatermark);
+  const [presetId, setPresetId] = useState(MARKETPLACE_PRESETS[0].id);
+  const [batchId, setBatchId] = useState(ALL_BATCHES);
+  const [showWatermark, setShowWatermark] = useState(false);
+
+  // Upload batches in upload order
+  const batches = [...new Set(images.map((img) => img.batchId).filter((id): id is string => !!id))].map(
+    (id, index) => ({
+      id,
+      label: `Yükleme ${index + 1}`,
+      count: images.filter((img) => img.batchId === id).length,
+    })
+  );
+  const preset = getMarketplacePreset(presetId);
+  const targetBatchId = batchId === ALL_BATCHES ? null : batchId;
+
+  return (
+    <div className="mt-2 p-3 bg-gray-50 rounded-lg border-t border-gray-100">
+      <p className="text-xs font-medium text-gray-700 mb-2">Pazaryeri Ön Ayarı</p>
+
+      <div className="grid grid-cols-2 gap-1.5 mb-2">
+        <select
+          value={presetId}
+          onChange={(e) => setPresetId(e.target.value)}
+          className="w-full px-1.5 py-1 text-xs border border-gray-300 rounded bg-white focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+        >
+          {MARKETPLACE_PRESETS.map((item) => (
+            <option key={item.id} value={item.id}>
+              {item.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={batchId}
+          onChange={(e) => setBatchId(e.target.value)}
+          className="w-full px-1.5 py-1 text-xs border border-gray-300 rounded bg-white focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value={ALL_BATCHES}>Tüm görseller ({images.length})</option>
+          {batches.map((batch) => (
+            <option key={batch.id} value={batch.id}>
+              {batch.label} ({batch.count})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {preset && (
+        <p className="text-xs text-gray-500 mb-2">
+          {preset.dimensions.width}×{preset.dimensions.height}
+          {preset.fillRatio !== undefined ? `, ürün %${Math.round(preset.fillRatio * 100)}` : `, ${preset.resizeMode}`}
+          , {preset.format.toUpperCase()} en fazla {formatFileSize(preset.maxFileSizeBytes)}, kaynak en az{' '}
+          {preset.minSourceSize} px
+        </p>
+      )}
+
+      {/* Watermark stored with the preset - reused every time it is applied */}
+      <button
+        onClick={() => setShowWatermark(!showWatermark)}
+        className="w-full mb-2 px-2 py-1 text-xs text-left text-gray-600 bg-white hover:bg-gray-100 rounded transition-colors truncate"
+      >
+        Filigran: {describeWatermark(presetWatermarks[presetId])}
+      </button>
+      {showWatermark && (
+        <div className="mb-2 p-2 bg-white rounded border border-gray-200">
+          <WatermarkControls
+            value={presetWatermarks[presetId] ?? null}
+            onChange={(watermark) => setPresetWatermark(presetId, watermark)}
+          />
+        </div>
+      )}
+
+      <div className="flex gap-1.5">
+        <button
+          onClick={() => {
+            applyPreset(presetId, targetBatchId);
+            onClose();
+          }}
+          className="flex-1 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 rounded transition-colors"
+        >
+          Uygula
+        </button>
+        <button
+          onClick={() => applyPreset(null, targetBatchId)}
+          className="px-3 py-1.5 text-xs font-medium text-gray-600 hover:bg-gray-100 rounded transition-colors"
+          title="Dışa aktarmada kontrol edilmez, uygulanan ayarlar kalır"
+        >
+          Ön ayarı kaldır
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * ProviderModeSelect Component
+ * Dropdown for choosing which provider(s) run: compare all or a single one
+ * Used for the global default (sidebar) and the per-image override (comparison view)
+ */
+
+import type { ProviderMode } from '../types/image';
+import { providerRegistry } from '../services/providerRegistry';
+
+interface ProviderModeSelectProps {
+  value: ProviderMode | null; // null = follow the global default
+  onChange: (mode: ProviderMode | null) => void;
+  defaultLabel?: string; // Shows a "follow default" option when set
+  className?: string;
+}
+
+const DEFAULT_VALUE = 'default';
+const COMPARE_VALUE = 'compare';
+
+const encodeMode = (mode: ProviderMode | null): string => {
+  if (!mode) return DEFAULT_VALUE;
+  return mode.kind === 'single' ? `single:${mode.providerId}` : COMPARE_VALUE;
+};
+
+const decodeMode = (value: string): ProviderMode | null => {
+  if (value === DEFAULT_VALUE) return null;
+  if (value === COMPARE_VALUE) return { kind: 'compare' };
+  return { kind: 'single', providerId: value.slice('single:'.length) };
+};
+
+export function ProviderModeSelect({ value, onChange, defaultLabel, className = '' }: ProviderModeSelectProps) {
+  return (
+    <select
+      value={encodeMode(value)}
+      onChange={(e) => onChange(decodeMode(e.target.value))}
+      className={`px-1.5 py-0.5 text-xs border border-gray-300 rounded bg-white focus:ring-1 focus:ring-blue-500 focus:border-blue-500 ${className}`}
+    >
+      {defaultLabel && <option value={DEFAULT_VALUE}>{defaultLabel}</option>}
+      <option value={COMPARE_VALUE}>Karşılaştır (tümü)</option>
+      {providerRegistry.getAll().map((provider) => (
+        <option key={provider.id} value={`single:${provider.id}`}>
+          Yalnızca {provider.label}
+        </option>
+      ))}
+    </select>
+  );
+}
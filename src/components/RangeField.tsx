@@ -0,0 +1,48 @@
+/**
+ * RangeField Component
+ * Labelled slider for the export settings panels (shadow, watermark) and the mask editor's brush
+ */
+
+import { useState } from 'react';
+
+interface RangeFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onCommit: (value: number) => void;
+}
+
+/**
+ * Slider that only reports its value when released - every change re-renders all previews
+ */
+export function RangeField({ label, value, min, max, step, format, onCommit }: RangeFieldProps) {
+  const [draft, setDraft] = useState<number | null>(null);
+  const shown = draft ?? value;
+
+  const commit = () => {
+    if (draft !== null && draft !== value) onCommit(draft);
+    setDraft(null);
+  };
+
+  return (
+    <label className="flex items-center gap-2 text-xs text-gray-600">
+      <span className="w-16 flex-shrink-0">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={shown}
+        onChange={(e) => setDraft(parseFloat(e.target.value))}
+        onPointerUp={commit}
+        onKeyUp={commit}
+        onBlur={commit}
+        className="flex-1 accent-blue-600"
+      />
+      <span className="w-10 text-right tabular-nums">{format(shown)}</span>
+    </label>
+  );
+}
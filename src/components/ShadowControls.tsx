@@ -0,0 +1,116 @@
+/**
+ * ShadowControls Component
+ * Edits a ShadowSpec: contact or drop shadow plus an optional floor reflection
+ * Used for the global shadow (bulk actions) and the per-image override (comparison view)
+ */
+
+import type { ShadowSpec, ShadowType } from '../types/shadow';
+import { DEFAULT_REFLECTION, SHADOW_TYPE_LABELS } from '../lib/shadow';
+import { RangeField } from './RangeField';
+
+interface ShadowControlsProps {
+  value: ShadowSpec;
+  onChange: (shadow: ShadowSpec) => void;
+}
+
+const percent = (value: number) => `%${Math.round(value * 100)}`;
+
+export function ShadowControls({ value, onChange }: ShadowControlsProps) {
+  const update = (changes: Partial<ShadowSpec>) => onChange({ ...value, ...changes });
+  const { reflection } = value;
+
+  return (
+    <div className="space-y-2">
+      {/* Shadow type */}
+      <div className="flex gap-1">
+        {(Object.keys(SHADOW_TYPE_LABELS) as ShadowType[]).map((type) => (
+          <button
+            key={type}
+            onClick={() => update({ type })}
+            className={`flex-1 px-2 py-1 text-xs font-medium rounded transition-colors ${
+              value.type === type ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            {SHADOW_TYPE_LABELS[type]}
+          </button>
+        ))}
+      </div>
+
+      {value.type !== 'none' && (
+        <div className="space-y-1">
+          {value.type === 'drop' && (
+            <RangeField
+              label="Açı"
+              value={value.angle}
+              min={0}
+              max={359}
+              step={1}
+              format={(angle) => `${angle}°`}
+              onCommit={(angle) => update({ angle })}
+            />
+          )}
+          <RangeField
+            label="Mesafe"
+            value={value.distance}
+            min={0}
+            max={0.2}
+            step={0.005}
+            format={percent}
+            onCommit={(distance) => update({ distance })}
+          />
+          <RangeField
+            label="Bulanıklık"
+            value={value.blur}
+            min={0}
+            max={0.2}
+            step={0.005}
+            format={percent}
+            onCommit={(blur) => update({ blur })}
+          />
+          <RangeField
+            label="Opaklık"
+            value={value.opacity}
+            min={0}
+            max={1}
+            step={0.05}
+            format={percent}
+            onCommit={(opacity) => update({ opacity })}
+          />
+        </div>
+      )}
+
+      {/* Reflection */}
+      <label className="flex items-center gap-2 text-xs text-gray-700">
+        <input
+          type="checkbox"
+          checked={reflection !== null}
+          onChange={(e) => update({ reflection: e.target.checked ? DEFAULT_REFLECTION : null })}
+          className="accent-blue-600"
+        />
+        Zemin yansıması
+      </label>
+      {reflection && (
+        <div className="space-y-1">
+          <RangeField
+            label="Opaklık"
+            value={reflection.opacity}
+            min={0}
+            max={1}
+            step={0.05}
+            format={percent}
+            onCommit={(opacity) => update({ reflection: { ...reflection, opacity } })}
+          />
+          <RangeField
+            label="Uzunluk"
+            value={reflection.length}
+            min={0.05}
+            max={1}
+            step={0.05}
+            format={percent}
+            onCommit={(length) => update({ reflection: { ...reflection, length } })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+/**
+ * SubjectFitFields Component
+ * Fill ratio and anchor inputs shown when the 'subject' resize mode is selected
+ * Used in the bulk dimension panel and the per-image dimension panel (sidebar)
+ */
+
+import type { SubjectAnchor, SubjectFit } from '../types/image';
+import { SUBJECT_ANCHOR_LABELS } from '../lib/subjectFit';
+
+interface SubjectFitFieldsProps {
+  value: SubjectFit;
+  onChange: (fit: SubjectFit) => void;
+}
+
+export function SubjectFitFields({ value, onChange }: SubjectFitFieldsProps) {
+  return (
+    <div className="grid grid-cols-2 gap-1.5 mb-2">
+      <label className="flex items-center gap-1 text-xs text-gray-600">
+        Doluluk %
+        <input
+          type="number"
+          min={5}
+          max={100}
+          value={Math.round(value.fillRatio * 100)}
+          onChange={(e) => {
+            const percent = parseInt(e.target.value) || 0;
+            onChange({ ...value, fillRatio: Math.min(100, Math.max(5, percent)) / 100 });
+          }}
+          className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+          title="Ürünün kadrajda kaplayacağı oran"
+        />
+      </label>
+      <select
+        value={value.anchor}
+        onChange={(e) => onChange({ ...value, anchor: e.target.value as SubjectAnchor })}
+        className="w-full px-1.5 py-1 text-xs border border-gray-300 rounded bg-white focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+      >
+        {(Object.keys(SUBJECT_ANCHOR_LABELS) as SubjectAnchor[]).map((anchor) => (
+          <option key={anchor} value={anchor}>
+            {SUBJECT_ANCHOR_LABELS[anchor]}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -9,28 +9,53 @@ import { Upload as UploadIcon, Image as ImageIcon } from 'lucide-react';
 import { useImageStore } from '../store/imageStore';
 import { Card } from './ui/card';
 import { cn } from '../lib/utils';
+import { creditTracker } from '../services/creditTracker';
+import { ACCEPTED_INPUT_TYPES } from '../lib/inputFormats';
 
-const ACCEPTED_FORMATS = {
-  'image/jpeg': ['.jpg', '.jpeg'],
-  'image/png': ['.png'],
-  'image/webp': ['.webp'],
-};
+/**
+ * Pre-flight text shown before a drop spends credits
+ */
+function buildCreditEstimateMessage(fileCount: number, estimate: number): string {
+  const { remaining, usedToday, limits } = creditTracker.getUsage();
+  const lines = [`${fileCount} görsel için tahmini ${estimate} Photoroom kredisi kullanılacak.`];
+
+  if (remaining !== null) {
+    lines.push(`Kalan kredi: ${remaining}${estimate > remaining ? ' - yetmeyebilir!' : ''}`);
+  }
+  if (limits.perBatch !== null && estimate > limits.perBatch) {
+    lines.push(`Yükleme limiti ${limits.perBatch} kredi - kalan görseller Photoroom ile işlenmeyecek.`);
+  }
+  if (limits.perDay !== null && estimate > limits.perDay - usedToday) {
+    lines.push(`Günlük limitten kalan: ${Math.max(0, limits.perDay - usedToday)} kredi.`);
+  }
+
+  lines.push('', 'Devam edilsin mi?');
+  return lines.join('\n');
+}
 
 export function Upload() {
   const addImages = useImageStore((state) => state.addImages);
+  const estimateCredits = useImageStore((state) => state.estimateCredits);
 
   const onDrop = useCallback(
     (acceptedFiles: File[]) => {
-      if (acceptedFiles.length > 0) {
-        addImages(acceptedFiles);
+      if (acceptedFiles.length === 0) return;
+
+      const estimate = estimateCredits(acceptedFiles.length);
+      if (estimate > 0 && !window.confirm(buildCreditEstimateMessage(acceptedFiles.length, estimate))) {
+        return;
       }
+
+      addImages(acceptedFiles).catch((error) => {
+        console.error('[Upload] Adding images failed:', error);
+      });
     },
-    [addImages]
+    [addImages, estimateCredits]
   );
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: ACCEPTED_FORMATS,
+    accept: ACCEPTED_INPUT_TYPES,
     multiple: true,
   });
 
@@ -67,7 +92,7 @@ export function Upload() {
         
         {/* Format Badges - Minimal */}
         <div className="flex gap-1">
-          {['JPG', 'PNG', 'WEBP'].map((format) => (
+          {['JPG', 'PNG', 'WEBP', 'HEIC', 'TIFF', 'AVIF', 'BMP'].map((format) => (
             <span 
               key={format}
               className="px-2 py-0.5 rounded text-gray-500 text-xs"
@@ -0,0 +1,50 @@
+/**
+ * ValidationReportPanel Component
+ * Lists the files that violate their marketplace preset before the ZIP is built
+ * The user can still download them or cancel and fix the settings
+ */
+
+import { AlertTriangle } from 'lucide-react';
+import type { ValidationReport } from '../types/preset';
+
+interface ValidationReportPanelProps {
+  report: ValidationReport;
+  onDownload: () => void;
+  onCancel: () => void;
+}
+
+export function ValidationReportPanel({ report, onDownload, onCancel }: ValidationReportPanelProps) {
+  const fileCount = new Set(report.issues.map((issue) => issue.fileName)).size;
+
+  return (
+    <div className="mt-2 p-3 bg-amber-50 rounded-lg border border-amber-200">
+      <p className="flex items-center gap-1.5 text-xs font-medium text-amber-800 mb-2">
+        <AlertTriangle className="w-3.5 h-3.5" />
+        {report.checkedCount} dosyadan {fileCount} tanesi pazaryeri kurallarına uymuyor
+      </p>
+
+      <ul className="max-h-40 overflow-y-auto space-y-1 mb-2">
+        {report.issues.map((issue, index) => (
+          <li key={index} className="text-xs text-amber-900">
+            <span className="font-medium">{issue.fileName}</span>: {issue.message}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex gap-1.5">
+        <button
+          onClick={onDownload}
+          className="flex-1 px-3 py-1.5 text-xs font-medium text-white bg-amber-600 hover:bg-amber-700 rounded transition-colors"
+        >
+          Yine de İndir
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 text-xs font-medium text-gray-600 hover:bg-amber-100 rounded transition-colors"
+        >
+          İptal
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+/**
+ * VariantProfileControls Component
+ * Edits the VariantProfile: the named sizes a bulk download renders for every image
+ * and whether they are told apart by file suffix or by ZIP folder
+ */
+
+import { useState, type KeyboardEvent } from 'react';
+import { Plus, X } from 'lucide-react';
+import type { SizeVariant, VariantNaming, VariantProfile } from '../types/variant';
+import { VARIANT_NAMING_LABELS, createVariant, sanitizeVariantName } from '../lib/variants';
+
+interface VariantProfileControlsProps {
+  value: VariantProfile;
+  onChange: (profile: VariantProfile) => void;
+}
+
+interface VariantRowProps {
+  variant: SizeVariant;
+  onChange: (variant: SizeVariant) => void;
+  onRemove: () => void;
+}
+
+const inputClass =
+  'px-1.5 py-1 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500';
+
+/**
+ * One variant - name and size are committed on blur/Enter so half-typed values never reach the profile
+ */
+function VariantRow({ variant, onChange, onRemove }: VariantRowProps) {
+  const [name, setName] = useState<string | null>(null);
+  const [size, setSize] = useState<string | null>(null);
+
+  const commit = () => {
+    const nextName = name === null ? variant.name : sanitizeVariantName(name) || variant.name;
+    const parsed = size === null ? variant.longestSide : parseInt(size);
+    const nextSize = Number.isFinite(parsed) && parsed > 0 ? parsed : variant.longestSide;
+    if (nextName !== variant.name || nextSize !== variant.longestSide) {
+      onChange({ ...variant, name: nextName, longestSide: nextSize });
+    }
+    setName(null);
+    setSize(null);
+  };
+
+  const commitOnEnter = (e: KeyboardEvent) => {
+    if (e.key === 'Enter') commit();
+  };
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <input
+        type="text"
+        value={name ?? variant.name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commit}
+        onKeyDown={commitOnEnter}
+        className={`flex-1 min-w-0 ${inputClass}`}
+        title="Dosya soneki / klasör adı"
+      />
+      <input
+        type="number"
+        min={1}
+        value={size ?? variant.longestSide}
+        onChange={(e) => setSize(e.target.value)}
+        onBlur={commit}
+        onKeyDown={commitOnEnter}
+        className={`w-20 ${inputClass}`}
+        title="Uzun kenar (px)"
+      />
+      <span className="text-xs text-gray-500">px</span>
+      <button onClick={onRemove} className="p-0.5 text-gray-400 hover:text-red-600 rounded" title="Kaldır">
+        <X className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+}
+
+export function VariantProfileControls({ value, onChange }: VariantProfileControlsProps) {
+  const update = (changes: Partial<VariantProfile>) => onChange({ ...value, ...changes });
+
+  const updateVariant = (id: string, variant: SizeVariant) =>
+    update({ variants: value.variants.map((item) => (item.id === id ? variant : item)) });
+
+  const removeVariant = (id: string) => update({ variants: value.variants.filter((item) => item.id !== id) });
+
+  const names = value.variants.map((variant) => variant.name);
+  const hasDuplicateNames = new Set(names).size !== names.length;
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-xs text-gray-700">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="accent-blue-600"
+        />
+        Her görseli birden fazla boyutta indir
+      </label>
+
+      {value.enabled && (
+        <>
+          {/* Naming */}
+          <div className="flex gap-1">
+            {(Object.keys(VARIANT_NAMING_LABELS) as VariantNaming[]).map((naming) => (
+              <button
+                key={naming}
+                onClick={() => update({ naming })}
+                className={`flex-1 px-2 py-1 text-xs font-medium rounded transition-colors ${
+                  value.naming === naming ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {VARIANT_NAMING_LABELS[naming]}
+              </button>
+            ))}
+          </div>
+
+          {/* Variants */}
+          <div className="space-y-1">
+            {value.variants.map((variant) => (
+              <VariantRow
+                key={variant.id}
+                variant={variant}
+                onChange={(next) => updateVariant(variant.id, next)}
+                onRemove={() => removeVariant(variant.id)}
+              />
+            ))}
+          </div>
+          <button
+            onClick={() => update({ variants: [...value.variants, createVariant(value.variants)] })}
+            className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 rounded transition-colors"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            Boyut ekle
+          </button>
+
+          {hasDuplicateNames && (
+            <p className="text-xs text-amber-700">Aynı isimli boyutlar birbirinin üzerine yazılır.</p>
+          )}
+          <p className="text-xs text-gray-500">
+            Her boyut, görselin en-boy oranı korunarak uzun kenarı verilen piksele getirilir.
+            {value.naming === 'suffix' ? ' Örnek: urun_1_photoroom_thumb.jpg' : ' Örnek: thumb/urun_1_photoroom.jpg'}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
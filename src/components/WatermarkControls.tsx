@@ -0,0 +1,298 @@
+/**
+ * WatermarkControls Component
+ * Edits a WatermarkSpec: logo (upload with preview) or text mark, plus its placement -
+ * anchor and margin, tiled/diagonal repetition, opacity, rotation and blend mode
+ * Used for the global watermark, the per-preset ones (bulk actions) and the per-image one (comparison view)
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import type { WatermarkBlendMode, WatermarkLayout, WatermarkPlacement, WatermarkSpec } from '../types/watermark';
+import {
+  WATERMARK_ANCHORS,
+  WATERMARK_BLEND_LABELS,
+  WATERMARK_FONTS,
+  WATERMARK_LAYOUT_LABELS,
+  createImageWatermark,
+  createTextWatermark,
+} from '../lib/watermark';
+import { RangeField } from './RangeField';
+
+interface WatermarkControlsProps {
+  value: WatermarkSpec | null;
+  onChange: (watermark: WatermarkSpec | null) => void;
+}
+
+const percent = (value: number) => `%${Math.round(value * 100)}`;
+const degrees = (value: number) => `${value}°`;
+
+const typeButtonClass = (active: boolean) =>
+  `flex-1 px-2 py-1 text-xs font-medium text-center rounded transition-colors ${
+    active ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'
+  }`;
+
+// Placement carried over when switching between logo and text
+const placementOf = (watermark: WatermarkSpec): WatermarkPlacement => {
+  const { layout, anchor, margin, spacing, opacity, rotation, blendMode } = watermark;
+  return { layout, anchor, margin, spacing, opacity, rotation, blendMode };
+};
+
+/**
+ * Text input that reports on blur/Enter - every change re-renders the previews
+ */
+function TextInput({ value, onCommit }: { value: string; onCommit: (value: string) => void }) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft !== null && draft.trim() && draft !== value) onCommit(draft);
+    setDraft(null);
+  };
+
+  return (
+    <input
+      type="text"
+      value={draft ?? value}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+      }}
+      className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+    />
+  );
+}
+
+export function WatermarkControls({ value, onChange }: WatermarkControlsProps) {
+  const logo = value?.type === 'image' ? value.file : null;
+  const logoUrl = useMemo(() => (logo ? URL.createObjectURL(logo) : null), [logo]);
+
+  useEffect(() => {
+    return () => {
+      if (logoUrl) URL.revokeObjectURL(logoUrl);
+    };
+  }, [logoUrl]);
+
+  const handleLogoFile = (file: File | undefined) => {
+    if (!file || !file.type.startsWith('image/')) return;
+    if (value?.type === 'image') {
+      onChange({ ...value, file });
+    } else {
+      onChange(value ? { ...createImageWatermark(file), ...placementOf(value) } : createImageWatermark(file));
+    }
+  };
+
+  const handleTextType = () => {
+    if (value?.type === 'text') return;
+    onChange(value ? { ...createTextWatermark(), ...placementOf(value) } : createTextWatermark());
+  };
+
+  const updatePlacement = (changes: Partial<WatermarkPlacement>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  return (
+    <div className="space-y-2">
+      {/* Mark type - choosing a logo opens the file picker */}
+      <div className="flex gap-1">
+        <label className={`${typeButtonClass(value?.type === 'image')} cursor-pointer`}>
+          {value?.type === 'image' ? 'Logoyu değiştir' : 'Logo'}
+          <input
+            type="file"
+            accept="image/*"
+            onChange={(e) => {
+              handleLogoFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+        </label>
+        <button onClick={handleTextType} className={typeButtonClass(value?.type === 'text')}>
+          Metin
+        </button>
+        {value && (
+          <button
+            onClick={() => onChange(null)}
+            className="flex-1 px-2 py-1 text-xs font-medium text-red-600 bg-white hover:bg-red-50 rounded transition-colors"
+          >
+            Kaldır
+          </button>
+        )}
+      </div>
+
+      {/* Logo */}
+      {value?.type === 'image' && (
+        <>
+          <div className="flex items-center gap-2">
+            {/* Checkerboard keeps transparent areas visible */}
+            <div
+              className="w-12 h-12 flex-shrink-0 flex items-center justify-center rounded border border-gray-200"
+              style={{ background: 'repeating-conic-gradient(#E5E7EB 0% 25%, #FFFFFF 0% 50%) 0 0 / 10px 10px' }}
+            >
+              {logoUrl && <img src={logoUrl} alt="Filigran" className="max-w-full max-h-full object-contain" />}
+            </div>
+            <p className="flex-1 min-w-0 text-xs text-gray-600 truncate" title={value.file.name}>
+              {value.file.name}
+            </p>
+          </div>
+          <RangeField
+            label="Boyut"
+            value={value.scale}
+            min={0.05}
+            max={1}
+            step={0.05}
+            format={percent}
+            onCommit={(scale) => onChange({ ...value, scale })}
+          />
+        </>
+      )}
+
+      {/* Text */}
+      {value?.type === 'text' && (
+        <>
+          <TextInput value={value.text} onCommit={(text) => onChange({ ...value, text })} />
+          <div className="flex items-center gap-1.5">
+            <select
+              value={value.fontFamily}
+              onChange={(e) => onChange({ ...value, fontFamily: e.target.value })}
+              className="flex-1 px-1.5 py-1 text-xs border border-gray-300 rounded bg-white focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+              style={{ fontFamily: value.fontFamily }}
+            >
+              {WATERMARK_FONTS.map((font) => (
+                <option key={font} value={font} style={{ fontFamily: font }}>
+                  {font}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={value.bold}
+                onChange={(e) => onChange({ ...value, bold: e.target.checked })}
+                className="accent-blue-600"
+              />
+              Kalın
+            </label>
+            <input
+              type="color"
+              value={value.color}
+              onChange={(e) => onChange({ ...value, color: e.target.value })}
+              className="w-6 h-5 p-0 border border-gray-300 rounded cursor-pointer"
+              title="Yazı rengi"
+            />
+            <input
+              type="color"
+              value={value.strokeColor}
+              onChange={(e) => onChange({ ...value, strokeColor: e.target.value })}
+              className="w-6 h-5 p-0 border border-gray-300 rounded cursor-pointer"
+              title="Kontur rengi"
+            />
+          </div>
+          <RangeField
+            label="Boyut"
+            value={value.fontSize}
+            min={0.01}
+            max={0.25}
+            step={0.01}
+            format={percent}
+            onCommit={(fontSize) => onChange({ ...value, fontSize })}
+          />
+          <RangeField
+            label="Kontur"
+            value={value.strokeWidth}
+            min={0}
+            max={0.3}
+            step={0.02}
+            format={percent}
+            onCommit={(strokeWidth) => onChange({ ...value, strokeWidth })}
+          />
+        </>
+      )}
+
+      {/* Placement */}
+      {value && (
+        <>
+          <div className="flex gap-1">
+            {(Object.keys(WATERMARK_LAYOUT_LABELS) as WatermarkLayout[]).map((layout) => (
+              <button
+                key={layout}
+                onClick={() => updatePlacement({ layout })}
+                className={typeButtonClass(value.layout === layout)}
+              >
+                {WATERMARK_LAYOUT_LABELS[layout]}
+              </button>
+            ))}
+          </div>
+
+          {value.layout === 'single' ? (
+            <div className="flex items-center gap-2">
+              <div className="grid grid-cols-3 gap-0.5 flex-shrink-0" title="Konum">
+                {WATERMARK_ANCHORS.map((anchor) => (
+                  <button
+                    key={anchor}
+                    onClick={() => updatePlacement({ anchor })}
+                    className={`w-4 h-4 rounded-sm border ${
+                      value.anchor === anchor ? 'bg-blue-600 border-blue-600' : 'bg-white border-gray-300 hover:bg-gray-100'
+                    }`}
+                  />
+                ))}
+              </div>
+              <div className="flex-1 min-w-0">
+                <RangeField
+                  label="Kenar"
+                  value={value.margin}
+                  min={0}
+                  max={0.25}
+                  step={0.01}
+                  format={percent}
+                  onCommit={(margin) => updatePlacement({ margin })}
+                />
+              </div>
+            </div>
+          ) : (
+            <RangeField
+              label="Aralık"
+              value={value.spacing}
+              min={0}
+              max={2}
+              step={0.1}
+              format={percent}
+              onCommit={(spacing) => updatePlacement({ spacing })}
+            />
+          )}
+
+          <RangeField
+            label="Opaklık"
+            value={value.opacity}
+            min={0.05}
+            max={1}
+            step={0.05}
+            format={percent}
+            onCommit={(opacity) => updatePlacement({ opacity })}
+          />
+          <RangeField
+            label="Döndür"
+            value={value.rotation}
+            min={-180}
+            max={180}
+            step={5}
+            format={degrees}
+            onCommit={(rotation) => updatePlacement({ rotation })}
+          />
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            <span className="w-16 flex-shrink-0">Karışım</span>
+            <select
+              value={value.blendMode}
+              onChange={(e) => updatePlacement({ blendMode: e.target.value as WatermarkBlendMode })}
+              className="flex-1 px-1.5 py-1 text-xs border border-gray-300 rounded bg-white focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {(Object.keys(WATERMARK_BLEND_LABELS) as WatermarkBlendMode[]).map((mode) => (
+                <option key={mode} value={mode}>
+                  {WATERMARK_BLEND_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import type { BackgroundSpec, GradientStop } from '../types/background';
+
+export const DEFAULT_BACKGROUND: BackgroundSpec = { type: 'color', color: '#FFFFFF' };
+
+/**
+ * Quick picks for common catalog backgrounds
+ */
+export const BACKGROUND_COLOR_PRESETS = ['#FFFFFF', '#F5F5F5', '#EEEEEE', '#E8E4DE', '#1F2937', '#000000'];
+
+const stopsToCss = (stops: GradientStop[]): string =>
+  stops.map((stop) => `${stop.color} ${Math.round(stop.offset * 100)}%`).join(', ');
+
+/**
+ * CSS for a small swatch of the background (image backgrounds show their gap color)
+ */
+export function backgroundToCss(spec: BackgroundSpec): string {
+  switch (spec.type) {
+    case 'color':
+      return spec.color;
+    case 'transparent':
+      return 'repeating-conic-gradient(#E5E7EB 0% 25%, #FFFFFF 0% 50%) 50% / 8px 8px';
+    case 'linear-gradient':
+      return `linear-gradient(${spec.angle}deg, ${stopsToCss(spec.stops)})`;
+    case 'radial-gradient':
+      return `radial-gradient(circle, ${stopsToCss(spec.stops)})`;
+    case 'image':
+      return spec.color;
+  }
+}
+
+export function describeBackground(spec: BackgroundSpec): string {
+  switch (spec.type) {
+    case 'color':
+      return spec.color.toUpperCase();
+    case 'transparent':
+      return 'Şeffaf';
+    case 'linear-gradient':
+      return `Doğrusal gradyan (${spec.angle}°)`;
+    case 'radial-gradient':
+      return 'Radyal gradyan';
+    case 'image':
+      return spec.fit === 'fill' ? 'Görsel (doldur)' : 'Görsel (sığdır)';
+  }
+}
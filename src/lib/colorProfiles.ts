@@ -0,0 +1,165 @@
+import type { ColorProfileId, ColorSettings, ColorTransform, IccProfile, ToneCurve } from '../types/color';
+import type { OutputFormat } from '../types/output';
+
+export const DEFAULT_COLOR_SETTINGS: ColorSettings = { outputProfile: 'srgb', embedProfile: false };
+
+export const COLOR_PROFILE_LABELS: Record<ColorProfileId, string> = {
+  srgb: 'sRGB',
+  'display-p3': 'Display P3',
+  'adobe-rgb': 'Adobe RGB (1998)',
+};
+
+// Exports that are converted to the output profile and tagged - WebP/AVIF stay sRGB
+export const PROFILE_OUTPUT_FORMATS: OutputFormat[] = ['jpeg', 'png'];
+
+// sRGB curve - also used by Display P3
+const SRGB_CURVE: ToneCurve = {
+  type: 'parametric',
+  functionType: 3,
+  params: [2.4, 1 / 1.055, 0.055 / 1.055, 1 / 12.92, 0.04045],
+};
+const ADOBE_RGB_GAMMA = 563 / 256;
+
+/**
+ * The profiles exports can be converted to - colorants are D50-adapted (ICC PCS) XYZ, row-major
+ */
+export const BUILT_IN_PROFILES: Record<ColorProfileId, IccProfile> = {
+  srgb: {
+    description: 'sRGB IEC61966-2.1',
+    matrix: [0.4360747, 0.3850649, 0.1430804, 0.2225045, 0.7168786, 0.0606169, 0.0139322, 0.0971045, 0.7141733],
+    curves: [SRGB_CURVE, SRGB_CURVE, SRGB_CURVE],
+  },
+  'display-p3': {
+    description: 'Display P3',
+    matrix: [0.515102, 0.291965, 0.157153, 0.241196, 0.692236, 0.066568, -0.00105, 0.041882, 0.784073],
+    curves: [SRGB_CURVE, SRGB_CURVE, SRGB_CURVE],
+  },
+  'adobe-rgb': {
+    description: 'Adobe RGB (1998)',
+    matrix: [0.6097559, 0.2052401, 0.149224, 0.3111242, 0.625656, 0.0632197, 0.0194811, 0.0608902, 0.7448387],
+    curves: Array(3).fill({ type: 'gamma', gamma: ADOBE_RGB_GAMMA }) as IccProfile['curves'],
+  },
+};
+
+/**
+ * Encoded value (0-1) -> linear light (0-1)
+ */
+export function evaluateCurve(curve: ToneCurve, x: number): number {
+  switch (curve.type) {
+    case 'gamma':
+      return Math.pow(x, curve.gamma);
+    case 'table': {
+      const { values } = curve;
+      if (values.length === 0) return x;
+      if (values.length === 1) return values[0];
+      const position = x * (values.length - 1);
+      const index = Math.min(values.length - 2, Math.floor(position));
+      return values[index] + (values[index + 1] - values[index]) * (position - index);
+    }
+    case 'parametric': {
+      const [g, a = 1, b = 0, c = 0, d = 0, e = 0, f = 0] = curve.params;
+      switch (curve.functionType) {
+        case 0:
+          return Math.pow(x, g);
+        case 1:
+          return x >= -b / a ? Math.pow(a * x + b, g) : 0;
+        case 2:
+          return x >= -b / a ? Math.pow(a * x + b, g) + c : c;
+        case 3:
+          return x >= d ? Math.pow(a * x + b, g) : c * x;
+        default:
+          return x >= d ? Math.pow(a * x + b, g) + e : c * x + f;
+      }
+    }
+  }
+}
+
+/**
+ * Linear light (0-1) -> encoded value (0-1) in the target profile
+ */
+function encodeLinear(target: ColorProfileId, x: number): number {
+  if (target === 'adobe-rgb') return Math.pow(x, 1 / ADOBE_RGB_GAMMA);
+  return x <= 0.0031308 ? x * 12.92 : 1.055 * Math.pow(x, 1 / 2.4) - 0.055;
+}
+
+const multiply = (a: number[], b: number[]): number[] =>
+  [0, 1, 2].flatMap((row) => [0, 1, 2].map((col) => a[row * 3] * b[col] + a[row * 3 + 1] * b[3 + col] + a[row * 3 + 2] * b[6 + col]));
+
+function invert(m: number[]): number[] {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  return [
+    (e * i - f * h) / det,
+    (c * h - b * i) / det,
+    (b * f - c * e) / det,
+    (f * g - d * i) / det,
+    (a * i - c * g) / det,
+    (c * d - a * f) / det,
+    (d * h - e * g) / det,
+    (b * g - a * h) / det,
+    (a * e - b * d) / det,
+  ];
+}
+
+// CICP codes (ISO/IEC 23091-2) of the nclx color descriptions HEIF files carry instead of a profile
+const CICP_PRIMARIES: Record<number, ColorProfileId> = { 1: 'srgb', 2: 'srgb', 12: 'display-p3' }; // 2 = unspecified
+// sRGB, unspecified and the BT.709/601 camera curves - decoded with the sRGB curve like browsers do
+const CICP_SRGB_TRANSFERS = [1, 2, 6, 13];
+
+/**
+ * Built-in profile an nclx color description stands for - null for other gamuts and HDR curves (PQ, HLG)
+ */
+export function profileFromCicp(primaries: number, transfer: number): IccProfile | null {
+  const profileId = CICP_PRIMARIES[primaries];
+  if (!profileId || profileId === 'adobe-rgb' || !CICP_SRGB_TRANSFERS.includes(transfer)) return null;
+  return BUILT_IN_PROFILES[profileId];
+}
+
+/**
+ * Is the profile (close enough to) sRGB - no conversion needed then
+ */
+export function isSrgbProfile(profile: IccProfile): boolean {
+  const srgb = BUILT_IN_PROFILES.srgb;
+  const sameColorants = profile.matrix.every((value, i) => Math.abs(value - srgb.matrix[i]) < 0.005);
+  const sameCurves = profile.curves.every((curve) =>
+    [0.25, 0.5, 0.75].every((x) => Math.abs(evaluateCurve(curve, x) - evaluateCurve(SRGB_CURVE, x)) < 0.005)
+  );
+  return sameColorants && sameCurves;
+}
+
+export function createColorTransform(source: IccProfile, target: ColorProfileId): ColorTransform {
+  const toLinear = source.curves.map((curve) =>
+    Array.from({ length: 256 }, (_, value) => evaluateCurve(curve, value / 255))
+  ) as ColorTransform['toLinear'];
+
+  return {
+    toLinear,
+    matrix: multiply(invert(BUILT_IN_PROFILES[target].matrix), source.matrix),
+    target,
+  };
+}
+
+const ENCODE_STEPS = 4096;
+
+/**
+ * Convert RGBA pixels in place (alpha is left alone)
+ */
+export function applyColorTransform(data: Uint8ClampedArray, transform: ColorTransform): void {
+  const [toR, toG, toB] = transform.toLinear;
+  const m = transform.matrix;
+  const encode = new Uint8ClampedArray(ENCODE_STEPS + 1);
+  for (let i = 0; i <= ENCODE_STEPS; i++) {
+    encode[i] = Math.round(encodeLinear(transform.target, i / ENCODE_STEPS) * 255);
+  }
+
+  const toIndex = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * ENCODE_STEPS);
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = toR[data[i]];
+    const g = toG[data[i + 1]];
+    const b = toB[data[i + 2]];
+    data[i] = encode[toIndex(m[0] * r + m[1] * g + m[2] * b)];
+    data[i + 1] = encode[toIndex(m[3] * r + m[4] * g + m[5] * b)];
+    data[i + 2] = encode[toIndex(m[6] * r + m[7] * g + m[8] * b)];
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Concurrency Limiter
+ * Caps how many async tasks of one kind may run at the same time.
+ * Extra tasks wait in FIFO order until a slot is released.
+ */
+
+import { createAbortError, throwIfAborted } from './abort';
+
+export class ConcurrencyLimiter {
+  private limit: number;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(limit: number) {
+    this.limit = Math.max(1, limit);
+  }
+
+  /**
+   * Change the limit at runtime - waiting tasks are released if slots open up
+   */
+  public setLimit(limit: number): void {
+    this.limit = Math.max(1, limit);
+    this.releaseWaiting();
+  }
+
+  public getLimit(): number {
+    return this.limit;
+  }
+
+  public getActiveCount(): number {
+    return this.active;
+  }
+
+  /**
+   * Run a task as soon as a slot is free
+   * An aborted signal removes the task from the waiting list without running it
+   */
+  public async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    throwIfAborted(signal);
+
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        this.active++;
+        resolve();
+      };
+      const onAbort = () => {
+        this.waiting = this.waiting.filter((entry) => entry !== start);
+        reject(createAbortError());
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiting.push(start);
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    this.releaseWaiting();
+  }
+
+  private releaseWaiting(): void {
+    while (this.active < this.limit && this.waiting.length > 0) {
+      const next = this.waiting.shift();
+      next?.();
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import type { CropMargins, CropSpec } from '../types/crop';
+
+export const DEFAULT_CROP: CropSpec = {
+  enabled: false,
+  unit: 'percent',
+  margin: { top: 5, right: 5, bottom: 5, left: 5 },
+};
+
+export const CROP_SIDE_LABELS: Record<keyof CropMargins, string> = {
+  top: 'Üst',
+  right: 'Sağ',
+  bottom: 'Alt',
+  left: 'Sol',
+};
+
+export function describeCrop(spec: CropSpec): string {
+  if (!spec.enabled) return 'Kırpma yok';
+
+  const { top, right, bottom, left } = spec.margin;
+  const suffix = spec.unit === 'percent' ? '%' : 'px';
+  const values = [top, right, bottom, left];
+  return values.every((value) => value === top)
+    ? `Ürüne kırp (${top}${suffix})`
+    : `Ürüne kırp (${values.map((value) => `${value}${suffix}`).join(' ')})`;
+}
@@ -0,0 +1,219 @@
+/**
+ * Forensic Mark
+ * Embeds and reads the invisible trace mark (batch code + export day) in the DCT
+ * coefficients of exported pixels, so a leaked copy can be traced back to its export batch.
+ * Pure pixel math, usable on the main thread and in workers.
+ */
+
+import type { ForensicPayload, ForensicReading, ForensicSettings } from '../types/forensic';
+
+export const DEFAULT_FORENSIC_SETTINGS: ForensicSettings = { enabled: false };
+
+/**
+ * The mark lives in two mid-frequency DCT coefficients of every 8x8 luminance block,
+ * on the same grid JPEG compresses - each block votes for one of the 64 payload bits,
+ * so every bit is repeated all over the image and survives recompression
+ * Coefficients are quantized to one of two interleaved lattices (QIM): even steps = 0, odd half steps = 1
+ */
+const BLOCK = 8;
+const PAYLOAD_BITS = 64; // 16-bit day + 32-bit batch code + 16-bit CRC
+const QIM_STEP = 20; // Larger survives harder compression but gets visible in flat areas
+const COEFFICIENTS: [number, number][] = [
+  [2, 1],
+  [1, 2],
+];
+// Blocks this close to black/white would clip - neither marked nor read
+const MIN_BLOCK_LUMA = 16;
+const MAX_BLOCK_LUMA = 239;
+const MIN_VOTES_PER_BIT = 4;
+const EPOCH = Date.UTC(2024, 0, 1);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Orthonormal 8x8 DCT basis of each coefficient - row-major, index y * 8 + x
+const BASES = COEFFICIENTS.map(([u, v]) => {
+  const basis = new Float64Array(BLOCK * BLOCK);
+  for (let y = 0; y < BLOCK; y++) {
+    for (let x = 0; x < BLOCK; x++) {
+      basis[y * BLOCK + x] =
+        0.25 * Math.cos(((2 * x + 1) * u * Math.PI) / 16) * Math.cos(((2 * y + 1) * v * Math.PI) / 16);
+    }
+  }
+  return basis;
+});
+
+/**
+ * 32-bit FNV-1a - turns a batch id into the code carried by the mark
+ */
+export function hashBatchId(batchId: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < batchId.length; i++) {
+    hash ^= batchId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// CRC-16-CCITT (0x1021, initial 0xFFFF)
+const crc16 = (bytes: Uint8Array): number => {
+  let crc = 0xffff;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+};
+
+const payloadBytes = (day: number, batchCode: number): Uint8Array =>
+  new Uint8Array([
+    (day >> 8) & 0xff,
+    day & 0xff,
+    (batchCode >>> 24) & 0xff,
+    (batchCode >>> 16) & 0xff,
+    (batchCode >>> 8) & 0xff,
+    batchCode & 0xff,
+  ]);
+
+function encodePayload({ batchCode, date }: ForensicPayload): Uint8Array {
+  const day = Math.max(0, Math.min(0xffff, Math.round((Date.parse(date) - EPOCH) / DAY_MS)));
+  const data = payloadBytes(day, batchCode);
+  const crc = crc16(data);
+  const bytes = [...data, crc >> 8, crc & 0xff];
+
+  const bits = new Uint8Array(PAYLOAD_BITS);
+  bytes.forEach((byte, i) => {
+    for (let bit = 0; bit < 8; bit++) bits[i * 8 + bit] = (byte >> (7 - bit)) & 1;
+  });
+  return bits;
+}
+
+function decodePayload(bits: Uint8Array): ForensicPayload | null {
+  const bytes = new Uint8Array(PAYLOAD_BITS / 8);
+  bits.forEach((bit, i) => {
+    bytes[i >> 3] |= bit << (7 - (i & 7));
+  });
+  if (crc16(bytes.subarray(0, 6)) !== ((bytes[6] << 8) | bytes[7])) return null;
+
+  const day = (bytes[0] << 8) | bytes[1];
+  const batchCode = ((bytes[2] << 24) | (bytes[3] << 16) | (bytes[4] << 8) | bytes[5]) >>> 0;
+  return { batchCode, date: new Date(EPOCH + day * DAY_MS).toISOString().slice(0, 10) };
+}
+
+// Which bit a block carries, and whether it is stored inverted - so repeated bits do not form a visible pattern
+const blockSlot = (bx: number, by: number, columns: number): number => (by * columns + bx) % PAYLOAD_BITS;
+const blockKey = (bx: number, by: number): number => {
+  let hash = Math.imul(bx + 1, 0x9e3779b1) ^ Math.imul(by + 1, 0x85ebca77);
+  hash ^= hash >>> 15;
+  hash = Math.imul(hash, 0x2c1b3c6d);
+  return (hash >>> 13) & 1;
+};
+
+/**
+ * Luminance of a block, or null when it is not fully opaque or too dark/bright to carry the mark
+ */
+function readBlock(data: Uint8ClampedArray, width: number, bx: number, by: number): Float64Array | null {
+  const luma = new Float64Array(BLOCK * BLOCK);
+  let sum = 0;
+  for (let y = 0; y < BLOCK; y++) {
+    for (let x = 0; x < BLOCK; x++) {
+      const offset = ((by * BLOCK + y) * width + bx * BLOCK + x) * 4;
+      if (data[offset + 3] < 255) return null;
+      const value = 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+      luma[y * BLOCK + x] = value;
+      sum += value;
+    }
+  }
+  const mean = sum / luma.length;
+  return mean < MIN_BLOCK_LUMA || mean > MAX_BLOCK_LUMA ? null : luma;
+}
+
+const project = (luma: Float64Array, basis: Float64Array): number => {
+  let sum = 0;
+  for (let i = 0; i < luma.length; i++) sum += luma[i] * basis[i];
+  return sum;
+};
+
+/**
+ * Embed the payload into RGBA pixels in place
+ * The change is added equally to R, G and B - luminance only, which JPEG keeps at full resolution
+ * @returns Number of blocks that carry the mark
+ */
+export function embedForensicPayload(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  payload: ForensicPayload
+): number {
+  const bits = encodePayload(payload);
+  const columns = Math.floor(width / BLOCK);
+  const rows = Math.floor(height / BLOCK);
+  const delta = new Float64Array(BLOCK * BLOCK);
+  let marked = 0;
+
+  for (let by = 0; by < rows; by++) {
+    for (let bx = 0; bx < columns; bx++) {
+      const luma = readBlock(data, width, bx, by);
+      if (!luma) continue;
+
+      const offset = (bits[blockSlot(bx, by, columns)] ^ blockKey(bx, by)) * (QIM_STEP / 2);
+      delta.fill(0);
+      for (const basis of BASES) {
+        const coefficient = project(luma, basis);
+        const target = Math.round((coefficient - offset) / QIM_STEP) * QIM_STEP + offset;
+        const change = target - coefficient;
+        for (let i = 0; i < delta.length; i++) delta[i] += change * basis[i];
+      }
+
+      for (let y = 0; y < BLOCK; y++) {
+        for (let x = 0; x < BLOCK; x++) {
+          const pixel = ((by * BLOCK + y) * width + bx * BLOCK + x) * 4;
+          const change = delta[y * BLOCK + x];
+          data[pixel] += change;
+          data[pixel + 1] += change;
+          data[pixel + 2] += change;
+        }
+      }
+      marked++;
+    }
+  }
+
+  return marked;
+}
+
+/**
+ * Read the payload back - every block votes for its bit with how close it sits to either lattice
+ * Only works on the image as exported: cropping, resizing or heavy recompression destroy the mark
+ */
+export function readForensicPayload(data: Uint8ClampedArray, width: number, height: number): ForensicReading {
+  const columns = Math.floor(width / BLOCK);
+  const rows = Math.floor(height / BLOCK);
+  const votes = new Float64Array(PAYLOAD_BITS);
+  const counts = new Uint32Array(PAYLOAD_BITS);
+  let blockCount = 0;
+
+  for (let by = 0; by < rows; by++) {
+    for (let bx = 0; bx < columns; bx++) {
+      const luma = readBlock(data, width, bx, by);
+      if (!luma) continue;
+
+      // +1 on the "0" lattice, -1 on the "1" lattice - flipped back for inverted blocks
+      const sign = blockKey(bx, by) ? -1 : 1;
+      const slot = blockSlot(bx, by, columns);
+      for (const basis of BASES) {
+        votes[slot] += sign * Math.cos((2 * Math.PI * project(luma, basis)) / QIM_STEP);
+        counts[slot]++;
+      }
+      blockCount++;
+    }
+  }
+
+  const totalVotes = counts.reduce((sum, count) => sum + count, 0);
+  const confidence = totalVotes ? votes.reduce((sum, vote) => sum + Math.abs(vote), 0) / totalVotes : 0;
+  if (counts.some((count) => count < MIN_VOTES_PER_BIT)) {
+    return { payload: null, confidence, blockCount };
+  }
+
+  const bits = Uint8Array.from(votes, (vote) => (vote < 0 ? 1 : 0));
+  return { payload: decodePayload(bits), confidence, blockCount };
+}
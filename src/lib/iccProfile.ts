@@ -0,0 +1,389 @@
+/**
+ * ICC Profiles
+ * Reads the embedded profile of PNG/WebP/TIFF/HEIF uploads (JPEG lives in jpegMetadata), parses
+ * matrix/TRC RGB profiles and writes compact ICC v2 profiles for the built-in output profiles.
+ * Pure byte manipulation, usable on the main thread and in workers.
+ */
+
+import type { ColorProfileId, IccProfile, ToneCurve } from '../types/color';
+import { BUILT_IN_PROFILES, evaluateCurve } from './colorProfiles';
+
+const D50_WHITE = [0.9642, 1.0, 0.8249];
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+// Chunks that describe the color space - replaced when a profile is embedded
+const PNG_COLOR_CHUNKS = ['iCCP', 'sRGB', 'gAMA', 'cHRM'];
+const TIFF_TAG_ICC_PROFILE = 34675;
+
+const encoder = new TextEncoder();
+
+const fourCC = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+};
+
+async function runStream(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([data as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// ---- Parsing ----
+
+function readCurve(view: DataView, offset: number): ToneCurve | null {
+  const type = fourCC(new Uint8Array(view.buffer, view.byteOffset), offset);
+
+  if (type === 'curv') {
+    const count = view.getUint32(offset + 8);
+    if (count === 0) return { type: 'gamma', gamma: 1 };
+    if (count === 1) return { type: 'gamma', gamma: view.getUint16(offset + 12) / 256 };
+    const values = Array.from({ length: count }, (_, i) => view.getUint16(offset + 12 + i * 2) / 65535);
+    return { type: 'table', values };
+  }
+
+  if (type === 'para') {
+    const functionType = view.getUint16(offset + 8);
+    const paramCount = [1, 3, 4, 5, 7][functionType];
+    if (paramCount === undefined) return null;
+    const params = Array.from({ length: paramCount }, (_, i) => view.getInt32(offset + 12 + i * 4) / 65536);
+    return { type: 'parametric', functionType, params };
+  }
+
+  return null;
+}
+
+function readDescription(view: DataView, bytes: Uint8Array, offset: number): string {
+  const type = fourCC(bytes, offset);
+
+  if (type === 'desc') {
+    const length = view.getUint32(offset + 8);
+    return String.fromCharCode(...bytes.subarray(offset + 12, offset + 12 + Math.max(0, length - 1)));
+  }
+  if (type === 'mluc' && view.getUint32(offset + 8) > 0) {
+    // First record: language, country, length, offset (from the tag start) of a UTF-16BE string
+    const length = view.getUint32(offset + 20);
+    const start = offset + view.getUint32(offset + 24);
+    const chars: number[] = [];
+    for (let i = 0; i < length; i += 2) chars.push(view.getUint16(start + i));
+    return String.fromCharCode(...chars);
+  }
+  return '';
+}
+
+/**
+ * Matrix/TRC RGB profile - null for anything else (CMYK, gray, LUT-based)
+ */
+export function parseIccProfile(bytes: Uint8Array): IccProfile | null {
+  if (bytes.length < 132 || fourCC(bytes, 36) !== 'acsp' || fourCC(bytes, 16) !== 'RGB ') return null;
+
+  try {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const tags = new Map<string, number>();
+    const tagCount = view.getUint32(128);
+    for (let i = 0; i < tagCount; i++) {
+      const entry = 132 + i * 12;
+      tags.set(fourCC(bytes, entry), view.getUint32(entry + 4));
+    }
+
+    const readXYZ = (signature: string) => {
+      const offset = tags.get(signature);
+      if (offset === undefined || fourCC(bytes, offset) !== 'XYZ ') return null;
+      return [0, 1, 2].map((i) => view.getInt32(offset + 8 + i * 4) / 65536);
+    };
+    const readTrc = (signature: string) => {
+      const offset = tags.get(signature);
+      return offset === undefined ? null : readCurve(view, offset);
+    };
+
+    const red = readXYZ('rXYZ');
+    const green = readXYZ('gXYZ');
+    const blue = readXYZ('bXYZ');
+    const curves = [readTrc('rTRC'), readTrc('gTRC'), readTrc('bTRC')];
+    if (!red || !green || !blue || curves.some((curve) => !curve)) return null;
+
+    const descOffset = tags.get('desc');
+    return {
+      description: descOffset === undefined ? '' : readDescription(view, bytes, descOffset),
+      // Colorants are the columns of the RGB -> XYZ matrix
+      matrix: [red[0], green[0], blue[0], red[1], green[1], blue[1], red[2], green[2], blue[2]],
+      curves: curves as IccProfile['curves'],
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Embedded profile of a PNG (iCCP chunk, zlib compressed)
+ */
+export async function extractPngIccProfile(bytes: Uint8Array): Promise<Uint8Array | null> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = fourCC(bytes, offset + 4);
+    if (type === 'IDAT' || type === 'IEND') break;
+
+    if (type === 'iCCP') {
+      const data = bytes.subarray(offset + 8, offset + 8 + length);
+      const nameEnd = data.indexOf(0);
+      // Name, NUL, compression method (always 0 = zlib), profile
+      return nameEnd < 0 ? null : runStream(data.subarray(nameEnd + 2), new DecompressionStream('deflate'));
+    }
+    offset += 12 + length;
+  }
+  return null;
+}
+
+/**
+ * Embedded profile of a WebP (ICCP chunk of an extended file)
+ */
+export function extractWebpIccProfile(bytes: Uint8Array): Uint8Array | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12; // 'RIFF', size, 'WEBP'
+
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    if (fourCC(bytes, offset) === 'ICCP') return bytes.slice(offset + 8, offset + 8 + size);
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+/**
+ * Embedded profile of a TIFF (InterColorProfile tag of the first image)
+ */
+export function extractTiffIccProfile(bytes: Uint8Array): Uint8Array | null {
+  if (bytes.length < 8) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = bytes[0] === 0x49; // 'II' - otherwise 'MM'
+  const ifd = view.getUint32(4, littleEndian);
+  if (ifd + 2 > bytes.length) return null;
+
+  const entryCount = view.getUint16(ifd, littleEndian);
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > bytes.length) return null;
+    if (view.getUint16(entry, littleEndian) !== TIFF_TAG_ICC_PROFILE) continue;
+
+    // UNDEFINED bytes - always stored at an offset for a real profile (> 4 bytes)
+    const length = view.getUint32(entry + 4, littleEndian);
+    const offset = view.getUint32(entry + 8, littleEndian);
+    return length > 4 && offset + length <= bytes.length ? bytes.slice(offset, offset + length) : null;
+  }
+  return null;
+}
+
+/**
+ * Color description of a HEIF/HEIC file ('colr' property): an ICC profile, or the CICP codes of an nclx box
+ */
+export type HeifColorInfo = { icc: Uint8Array } | { primaries: number; transfer: number };
+
+interface IsoBox {
+  type: string;
+  start: number; // Payload start, after the header
+  end: number;
+}
+
+function readBoxes(bytes: Uint8Array, start: number, end: number): IsoBox[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes: IsoBox[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset; // Box runs to the end of its parent
+    }
+    if (size < header || offset + size > end) break;
+
+    boxes.push({ type: fourCC(bytes, offset + 4), start: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+/**
+ * First 'colr' property of a HEIF file (meta > iprp > ipco) - the items of a photo share it
+ * An ICC profile ('prof'/'rICC') wins over nclx codes
+ */
+export function extractHeifColorInfo(bytes: Uint8Array): HeifColorInfo | null {
+  const meta = readBoxes(bytes, 0, bytes.length).find((box) => box.type === 'meta');
+  // meta is a full box - version and flags before its children
+  const iprp = meta && readBoxes(bytes, meta.start + 4, meta.end).find((box) => box.type === 'iprp');
+  const ipco = iprp && readBoxes(bytes, iprp.start, iprp.end).find((box) => box.type === 'ipco');
+  if (!ipco) return null;
+
+  const colrBoxes = readBoxes(bytes, ipco.start, ipco.end).filter((box) => box.type === 'colr' && box.end - box.start >= 4);
+  const profile = colrBoxes.find((box) => ['prof', 'rICC'].includes(fourCC(bytes, box.start)));
+  if (profile) return { icc: bytes.slice(profile.start + 4, profile.end) };
+
+  const nclx = colrBoxes.find((box) => fourCC(bytes, box.start) === 'nclx' && box.end - box.start >= 8);
+  if (!nclx) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { primaries: view.getUint16(nclx.start + 4), transfer: view.getUint16(nclx.start + 6) };
+}
+
+// ---- Writing ----
+
+const s15Fixed16 = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setInt32(0, Math.round(value * 65536));
+  return bytes;
+};
+
+const xyzTag = (xyz: number[]) => concatBytes([encoder.encode('XYZ \0\0\0\0'), ...xyz.map(s15Fixed16)]);
+
+function curveTag(curve: ToneCurve): Uint8Array {
+  if (curve.type === 'gamma') {
+    const tag = new Uint8Array(14);
+    tag.set(encoder.encode('curv'));
+    new DataView(tag.buffer).setUint32(8, 1);
+    new DataView(tag.buffer).setUint16(12, Math.round(curve.gamma * 256));
+    return tag;
+  }
+  // Sampled - 1024 points are plenty for 8-bit output
+  const count = 1024;
+  const tag = new Uint8Array(12 + count * 2);
+  const view = new DataView(tag.buffer);
+  tag.set(encoder.encode('curv'));
+  view.setUint32(8, count);
+  for (let i = 0; i < count; i++) {
+    view.setUint16(12 + i * 2, Math.round(Math.min(1, Math.max(0, evaluateCurve(curve, i / (count - 1)))) * 65535));
+  }
+  return tag;
+}
+
+function descriptionTag(text: string): Uint8Array {
+  // textDescriptionType: ASCII part, then empty Unicode and ScriptCode parts (67-byte field)
+  const ascii = encoder.encode(text + '\0');
+  const tag = new Uint8Array(12 + ascii.length + 4 + 4 + 2 + 1 + 67);
+  tag.set(encoder.encode('desc'));
+  new DataView(tag.buffer).setUint32(8, ascii.length);
+  tag.set(ascii, 12);
+  return tag;
+}
+
+const textTag = (text: string) => concatBytes([encoder.encode('text\0\0\0\0'), encoder.encode(text + '\0')]);
+
+const profileCache = new Map<ColorProfileId, Uint8Array>();
+
+/**
+ * ICC v2 display profile of a built-in output profile (a few KB - cached)
+ */
+export function buildIccProfile(id: ColorProfileId): Uint8Array {
+  const cached = profileCache.get(id);
+  if (cached) return cached;
+
+  const profile = BUILT_IN_PROFILES[id];
+  const { matrix } = profile;
+  const trc = curveTag(profile.curves[0]);
+  const tags: [string, Uint8Array][] = [
+    ['desc', descriptionTag(profile.description)],
+    ['cprt', textTag('No copyright, use freely')],
+    ['wtpt', xyzTag(D50_WHITE)],
+    ['rXYZ', xyzTag([matrix[0], matrix[3], matrix[6]])],
+    ['gXYZ', xyzTag([matrix[1], matrix[4], matrix[7]])],
+    ['bXYZ', xyzTag([matrix[2], matrix[5], matrix[8]])],
+    ['rTRC', trc],
+    ['gTRC', trc],
+    ['bTRC', trc],
+  ];
+
+  // Tag data after the header and tag table, 4-byte aligned; the three TRCs share one block
+  const tableEnd = 128 + 4 + tags.length * 12;
+  const blocks: Uint8Array[] = [];
+  const offsets = new Map<Uint8Array, number>();
+  let position = tableEnd;
+  for (const [, data] of tags) {
+    if (offsets.has(data)) continue;
+    offsets.set(data, position);
+    const padded = new Uint8Array(Math.ceil(data.length / 4) * 4);
+    padded.set(data);
+    blocks.push(padded);
+    position += padded.length;
+  }
+
+  const result = new Uint8Array(position);
+  const view = new DataView(result.buffer);
+  view.setUint32(0, position);
+  view.setUint32(8, 0x02100000); // Version 2.1
+  result.set(encoder.encode('mntrRGB XYZ '), 12); // Class, color space, PCS
+  result.set(encoder.encode('acsp'), 36);
+  D50_WHITE.forEach((value, i) => result.set(s15Fixed16(value), 68 + i * 4)); // Illuminant
+
+  view.setUint32(128, tags.length);
+  tags.forEach(([signature, data], i) => {
+    const entry = 132 + i * 12;
+    result.set(encoder.encode(signature), entry);
+    view.setUint32(entry + 4, offsets.get(data)!);
+    view.setUint32(entry + 8, data.length);
+  });
+  let blockPosition = tableEnd;
+  for (const block of blocks) {
+    result.set(block, blockPosition);
+    blockPosition += block.length;
+  }
+
+  profileCache.set(id, result);
+  return result;
+}
+
+// ---- PNG embedding ----
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(encoder.encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/**
+ * Tag a PNG with an ICC profile (iCCP right after IHDR, other color chunks dropped)
+ * Returns the input unchanged when it is not a PNG
+ */
+export async function embedPngIccProfile(bytes: Uint8Array, profile: Uint8Array, name: string): Promise<Uint8Array> {
+  if (!PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) return bytes;
+
+  const compressed = await runStream(profile, new CompressionStream('deflate'));
+  const iccp = pngChunk('iCCP', concatBytes([encoder.encode(name.slice(0, 79)), new Uint8Array([0, 0]), compressed]));
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ihdrEnd = PNG_SIGNATURE.length + 12 + view.getUint32(PNG_SIGNATURE.length);
+  const parts: Uint8Array[] = [bytes.subarray(0, ihdrEnd), iccp];
+  let offset = ihdrEnd;
+
+  while (offset + 8 <= bytes.length) {
+    const end = offset + 12 + view.getUint32(offset);
+    if (!PNG_COLOR_CHUNKS.includes(fourCC(bytes, offset + 4))) parts.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+
+  return concatBytes(parts);
+}
@@ -0,0 +1,66 @@
+/**
+ * Upload formats
+ * JPEG, PNG and WebP go straight into the pipeline; the others are decoded into a
+ * browser-friendly working copy first (natively where possible, WASM/JS decoders otherwise)
+ */
+
+import type { InputFormat } from '../types/image';
+
+export const INPUT_FORMAT_LABELS: Record<InputFormat, string> = {
+  jpeg: 'JPEG',
+  png: 'PNG',
+  webp: 'WebP',
+  avif: 'AVIF',
+  bmp: 'BMP',
+  heic: 'HEIC',
+  tiff: 'TIFF',
+};
+
+// Dropzone accept map - extensions matter, HEIC often arrives without a MIME type
+export const ACCEPTED_INPUT_TYPES: Record<string, string[]> = {
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/png': ['.png'],
+  'image/webp': ['.webp'],
+  'image/avif': ['.avif'],
+  'image/bmp': ['.bmp'],
+  'image/heic': ['.heic'],
+  'image/heif': ['.heif'],
+  'image/tiff': ['.tif', '.tiff'],
+};
+
+// Every browser decodes these the same way - no working copy needed
+const PIPELINE_FORMATS: InputFormat[] = ['jpeg', 'png', 'webp'];
+
+export const needsWorkingCopy = (format: InputFormat): boolean => !PIPELINE_FORMATS.includes(format);
+
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+const AVIF_BRANDS = ['avif', 'avis'];
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+/**
+ * Format from the file's first bytes (the MIME type and extension are not reliable for HEIC/TIFF)
+ * @returns null for anything that is not a supported image
+ */
+export function detectInputFormat(header: Uint8Array): InputFormat | null {
+  if (header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) return 'jpeg';
+  if (ascii(header, 0, 4) === '\x89PNG') return 'png';
+  if (ascii(header, 0, 4) === 'RIFF' && ascii(header, 8, 4) === 'WEBP') return 'webp';
+  if (ascii(header, 0, 2) === 'BM') return 'bmp';
+  if (ascii(header, 0, 4) === 'II*\0' || ascii(header, 0, 4) === 'MM\0*') return 'tiff';
+
+  // ISO base media file: size, 'ftyp', major brand, minor version, compatible brands
+  if (ascii(header, 4, 4) === 'ftyp') {
+    const boxSize = Math.min(header.length, (header[0] << 24) | (header[1] << 16) | (header[2] << 8) | header[3]);
+    const brands = [ascii(header, 8, 4)];
+    for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+      brands.push(ascii(header, offset, 4));
+    }
+    // AVIF files also list 'mif1' - check AVIF first
+    if (brands.some((brand) => AVIF_BRANDS.includes(brand))) return 'avif';
+    if (brands.some((brand) => HEIF_BRANDS.includes(brand))) return 'heic';
+  }
+
+  return null;
+}
@@ -0,0 +1,435 @@
+/**
+ * JPEG Metadata
+ * Minimal reader/writer for the metadata segments of a JPEG file:
+ * EXIF (APP1), XMP (APP1), IPTC (APP13 Photoshop block) and the ICC profile (APP2 chunks).
+ * Canvas re-encoding drops all of them - they are read from the source and written back here.
+ * Pure byte manipulation, usable on the main thread and in workers.
+ */
+
+import type { MetadataFields } from '../types/metadata';
+
+const MARKER_SOI = 0xd8;
+const MARKER_SOS = 0xda;
+const MARKER_EOI = 0xd9;
+const MARKER_APP0 = 0xe0;
+const MARKER_APP1 = 0xe1;
+const MARKER_APP2 = 0xe2;
+const MARKER_APP13 = 0xed;
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const PHOTOSHOP_HEADER = 'Photoshop 3.0\0';
+const ICC_HEADER = 'ICC_PROFILE\0';
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_PIXEL_X_DIMENSION = 0xa002;
+const TAG_PIXEL_Y_DIMENSION = 0xa003;
+const TAG_THUMBNAIL_OFFSET = 0x0201;
+const TAG_THUMBNAIL_LENGTH = 0x0202;
+const IFD_ENTRY_SIZE = 12;
+const TIFF_TYPE_SHORT = 3;
+const MAX_SEGMENT_PAYLOAD = 0xffff - 2;
+// ICC chunk payload: header, sequence number (1-based), chunk count, profile bytes
+const MAX_ICC_CHUNK = MAX_SEGMENT_PAYLOAD - ICC_HEADER.length - 2;
+
+interface JpegSegment {
+  marker: number;
+  start: number; // Offset of the 0xFF marker byte
+  end: number; // Offset right after the segment
+}
+
+const encoder = new TextEncoder();
+
+const startsWith = (bytes: Uint8Array, offset: number, header: string): boolean => {
+  for (let i = 0; i < header.length; i++) {
+    if (bytes[offset + i] !== header.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+};
+
+export const isJpeg = (bytes: Uint8Array): boolean => bytes[0] === 0xff && bytes[1] === MARKER_SOI;
+
+/**
+ * Marker segments before the image data - null when the file is not a readable JPEG
+ */
+function readSegments(bytes: Uint8Array): JpegSegment[] | null {
+  if (!isJpeg(bytes)) return null;
+
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === MARKER_SOS || marker === MARKER_EOI) break;
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) return null;
+    segments.push({ marker, start: offset, end });
+    offset = end;
+  }
+
+  return segments;
+}
+
+// Payload starts after marker (2 bytes) and length (2 bytes)
+const isExif = (bytes: Uint8Array, s: JpegSegment) => s.marker === MARKER_APP1 && startsWith(bytes, s.start + 4, EXIF_HEADER);
+const isXmp = (bytes: Uint8Array, s: JpegSegment) => s.marker === MARKER_APP1 && startsWith(bytes, s.start + 4, XMP_HEADER);
+const isIptc = (bytes: Uint8Array, s: JpegSegment) =>
+  s.marker === MARKER_APP13 && startsWith(bytes, s.start + 4, PHOTOSHOP_HEADER);
+
+const isIcc = (bytes: Uint8Array, s: JpegSegment) => s.marker === MARKER_APP2 && startsWith(bytes, s.start + 4, ICC_HEADER);
+
+const isMetadataSegment = (bytes: Uint8Array, s: JpegSegment) => isExif(bytes, s) || isXmp(bytes, s) || isIptc(bytes, s);
+
+/**
+ * Offset of an IFD entry with the given tag - null when the IFD does not have it
+ */
+function findIfdEntry(view: DataView, ifd: number, tag: number, littleEndian: boolean, end: number): number | null {
+  if (ifd + 2 > end) return null;
+
+  const entryCount = view.getUint16(ifd, littleEndian);
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifd + 2 + i * IFD_ENTRY_SIZE;
+    if (entry + IFD_ENTRY_SIZE > end) return null;
+    if (view.getUint16(entry, littleEndian) === tag) return entry;
+  }
+  return null;
+}
+
+// SHORT or LONG value stored inline in an IFD entry
+const readEntryValue = (view: DataView, entry: number, littleEndian: boolean): number =>
+  view.getUint16(entry + 2, littleEndian) === TIFF_TYPE_SHORT
+    ? view.getUint16(entry + 8, littleEndian)
+    : view.getUint32(entry + 8, littleEndian);
+
+/**
+ * Offset of the Orientation value inside an EXIF segment, with the TIFF byte order
+ */
+function findOrientation(bytes: Uint8Array, segment: JpegSegment): { offset: number; littleEndian: boolean } | null {
+  const tiff = segment.start + 4 + EXIF_HEADER.length;
+  if (tiff + 8 > segment.end) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = bytes[tiff] === 0x49; // 'II' - otherwise 'MM'
+  const ifd0 = tiff + view.getUint32(tiff + 4, littleEndian);
+  const entry = findIfdEntry(view, ifd0, TAG_ORIENTATION, littleEndian, segment.end);
+  return entry === null ? null : { offset: entry + 8, littleEndian };
+}
+
+/**
+ * Remove tags from an IFD in place - later entries and the next-IFD pointer move up
+ */
+function removeIfdEntries(bytes: Uint8Array, ifd: number, tags: number[], littleEndian: boolean): void {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (ifd + 2 > bytes.length) return;
+  const entryCount = view.getUint16(ifd, littleEndian);
+  const entriesEnd = ifd + 2 + entryCount * IFD_ENTRY_SIZE;
+  if (entriesEnd + 4 > bytes.length) return;
+
+  let write = ifd + 2;
+  for (let entry = ifd + 2; entry < entriesEnd; entry += IFD_ENTRY_SIZE) {
+    if (tags.includes(view.getUint16(entry, littleEndian))) continue;
+    bytes.copyWithin(write, entry, entry + IFD_ENTRY_SIZE);
+    write += IFD_ENTRY_SIZE;
+  }
+  if (write === entriesEnd) return;
+
+  view.setUint16(ifd, (write - ifd - 2) / IFD_ENTRY_SIZE, littleEndian);
+  bytes.copyWithin(write, entriesEnd, entriesEnd + 4);
+  bytes.fill(0, write + 4, entriesEnd + 4);
+}
+
+/**
+ * EXIF segment (a standalone copy) without what no longer matches the exported pixels:
+ * the pixel dimensions are removed and the thumbnail (IFD1) unlinked - its bytes are cut
+ * off as well when they sit at the end of the segment, as cameras write them
+ */
+function stripStaleExif(copy: Uint8Array): Uint8Array {
+  const tiff = 4 + EXIF_HEADER.length;
+  if (tiff + 8 > copy.length) return copy;
+
+  const view = new DataView(copy.buffer, copy.byteOffset, copy.byteLength);
+  const littleEndian = copy[tiff] === 0x49;
+  const ifd0 = tiff + view.getUint32(tiff + 4, littleEndian);
+
+  const exifEntry = findIfdEntry(view, ifd0, TAG_EXIF_IFD, littleEndian, copy.length);
+  if (exifEntry !== null) {
+    const exifIfd = tiff + view.getUint32(exifEntry + 8, littleEndian);
+    removeIfdEntries(copy, exifIfd, [TAG_PIXEL_X_DIMENSION, TAG_PIXEL_Y_DIMENSION], littleEndian);
+  }
+
+  if (ifd0 + 2 > copy.length) return copy;
+  const nextPointer = ifd0 + 2 + view.getUint16(ifd0, littleEndian) * IFD_ENTRY_SIZE;
+  if (nextPointer + 4 > copy.length) return copy;
+  const ifd1 = view.getUint32(nextPointer, littleEndian);
+  if (ifd1 === 0) return copy;
+  view.setUint32(nextPointer, 0, littleEndian);
+
+  const offsetEntry = findIfdEntry(view, tiff + ifd1, TAG_THUMBNAIL_OFFSET, littleEndian, copy.length);
+  const lengthEntry = findIfdEntry(view, tiff + ifd1, TAG_THUMBNAIL_LENGTH, littleEndian, copy.length);
+  if (offsetEntry === null || lengthEntry === null) return copy;
+
+  const thumbnailStart = tiff + readEntryValue(view, offsetEntry, littleEndian);
+  if (thumbnailStart + readEntryValue(view, lengthEntry, littleEndian) !== copy.length) return copy;
+
+  const trimmed = copy.slice(0, thumbnailStart);
+  new DataView(trimmed.buffer).setUint16(2, trimmed.length - 2);
+  return trimmed;
+}
+
+/**
+ * EXIF orientation (1-8) - 1 when the file has none
+ */
+export function readExifOrientation(bytes: Uint8Array): number {
+  const segments = readSegments(bytes) ?? [];
+  const exif = segments.find((segment) => isExif(bytes, segment));
+  const orientation = exif && findOrientation(bytes, exif);
+  if (!orientation) return 1;
+
+  const value = new DataView(bytes.buffer, bytes.byteOffset).getUint16(orientation.offset, orientation.littleEndian);
+  return value >= 1 && value <= 8 ? value : 1;
+}
+
+/**
+ * Copies of the EXIF/XMP/IPTC segments of a JPEG (complete with marker and length)
+ * The EXIF orientation is reset to 1 - the pixels they go with are already upright -
+ * and the source's pixel dimensions and thumbnail are dropped (exports are cropped and resized)
+ */
+export function extractMetadataSegments(bytes: Uint8Array): Uint8Array[] {
+  const segments = readSegments(bytes) ?? [];
+
+  return segments
+    .filter((segment) => isMetadataSegment(bytes, segment))
+    .map((segment) => {
+      const copy = bytes.slice(segment.start, segment.end);
+      if (isExif(bytes, segment)) {
+        const orientation = findOrientation(copy, { ...segment, start: 0, end: copy.length });
+        if (orientation) {
+          new DataView(copy.buffer).setUint16(orientation.offset, 1, orientation.littleEndian);
+        }
+        return stripStaleExif(copy);
+      }
+      return copy;
+    });
+}
+
+/**
+ * Insert segments at the given offset and drop the existing segments matching isReplaced
+ */
+function replaceSegments(
+  bytes: Uint8Array,
+  segments: JpegSegment[],
+  insertAt: number,
+  inserted: Uint8Array[],
+  isReplaced: (segment: JpegSegment) => boolean
+): Uint8Array {
+  const kept: Uint8Array[] = [bytes.subarray(0, insertAt), ...inserted];
+  let offset = insertAt;
+
+  for (const segment of segments) {
+    if (segment.start < insertAt || !isReplaced(segment)) continue;
+    kept.push(bytes.subarray(offset, segment.start));
+    offset = segment.end;
+  }
+  kept.push(bytes.subarray(offset));
+
+  return concatBytes(kept);
+}
+
+/**
+ * Replace the metadata segments of a JPEG - after SOI and a leading JFIF (APP0) segment
+ * Returns the input unchanged when it is not a readable JPEG
+ */
+export function insertMetadataSegments(bytes: Uint8Array, metadata: Uint8Array[]): Uint8Array {
+  const segments = readSegments(bytes);
+  if (!segments) return bytes;
+
+  const insertAt = segments[0]?.marker === MARKER_APP0 ? segments[0].end : 2;
+  // Drop metadata the encoder may have written itself
+  return replaceSegments(bytes, segments, insertAt, metadata, (segment) => isMetadataSegment(bytes, segment));
+}
+
+/**
+ * Embedded ICC profile of a JPEG, reassembled from its APP2 chunks - null when there is none
+ */
+export function extractIccProfile(bytes: Uint8Array): Uint8Array | null {
+  const chunks = (readSegments(bytes) ?? [])
+    .filter((segment) => isIcc(bytes, segment))
+    .map((segment) => {
+      const payload = segment.start + 4 + ICC_HEADER.length;
+      return { sequence: bytes[payload], data: bytes.subarray(payload + 2, segment.end) };
+    })
+    .sort((a, b) => a.sequence - b.sequence);
+
+  return chunks.length > 0 ? concatBytes(chunks.map((chunk) => chunk.data)) : null;
+}
+
+/**
+ * Replace the ICC profile of a JPEG - after the leading JFIF/EXIF/XMP segments
+ * Returns the input unchanged when it is not a readable JPEG
+ */
+export function insertIccProfile(bytes: Uint8Array, profile: Uint8Array): Uint8Array {
+  const segments = readSegments(bytes);
+  if (!segments) return bytes;
+
+  const chunkCount = Math.ceil(profile.length / MAX_ICC_CHUNK);
+  if (chunkCount > 255) {
+    console.warn(`[JpegMetadata] ICC profile too large (${profile.length} bytes), skipped`);
+    return bytes;
+  }
+  const chunks = Array.from({ length: chunkCount }, (_, i) =>
+    buildSegment(
+      MARKER_APP2,
+      concatBytes([
+        encoder.encode(ICC_HEADER),
+        new Uint8Array([i + 1, chunkCount]),
+        profile.subarray(i * MAX_ICC_CHUNK, (i + 1) * MAX_ICC_CHUNK),
+      ])
+    )
+  ).filter((segment): segment is Uint8Array => segment !== null);
+
+  const leading = segments.findIndex((segment) => segment.marker !== MARKER_APP0 && segment.marker !== MARKER_APP1);
+  const insertAt = leading === -1 ? (segments.at(-1)?.end ?? 2) : segments[leading].start;
+  return replaceSegments(bytes, segments, insertAt, chunks, (segment) => isIcc(bytes, segment));
+}
+
+/**
+ * Marker + length + payload - null when the payload does not fit a segment
+ */
+function buildSegment(marker: number, payload: Uint8Array): Uint8Array | null {
+  if (payload.length > MAX_SEGMENT_PAYLOAD) {
+    console.warn(`[JpegMetadata] Segment too large (${payload.length} bytes), skipped`);
+    return null;
+  }
+  const segment = new Uint8Array(payload.length + 4);
+  segment[0] = 0xff;
+  segment[1] = marker;
+  segment[2] = (payload.length + 2) >> 8;
+  segment[3] = (payload.length + 2) & 0xff;
+  segment.set(payload, 4);
+  return segment;
+}
+
+/**
+ * EXIF with ImageDescription, Orientation, Artist and Copyright in IFD0 (little endian)
+ * Text is written as UTF-8 - strict readers expect ASCII, XMP carries the same fields properly
+ */
+export function buildExifSegment(fields: Partial<MetadataFields>, orientation = 1): Uint8Array | null {
+  const ascii = (text: string) => concatBytes([encoder.encode(text), new Uint8Array([0])]);
+  const entries: { tag: number; type: number; count: number; data: Uint8Array }[] = [];
+
+  if (fields.description) entries.push({ tag: 0x010e, type: 2, count: 0, data: ascii(fields.description) });
+  entries.push({ tag: TAG_ORIENTATION, type: 3, count: 1, data: new Uint8Array([orientation, 0]) });
+  if (fields.author) entries.push({ tag: 0x013b, type: 2, count: 0, data: ascii(fields.author) });
+  if (fields.copyright) entries.push({ tag: 0x8298, type: 2, count: 0, data: ascii(fields.copyright) });
+
+  const ifdSize = 2 + entries.length * 12 + 4;
+  let dataOffset = 8 + ifdSize; // TIFF header + IFD0, then the values that do not fit inline
+  const tiff = new Uint8Array(dataOffset + entries.reduce((sum, e) => sum + (e.data.length > 4 ? e.data.length : 0), 0));
+  const view = new DataView(tiff.buffer);
+
+  tiff.set([0x49, 0x49, 0x2a, 0x00]); // 'II', 42
+  view.setUint32(4, 8, true);
+  view.setUint16(8, entries.length, true);
+
+  entries.forEach((entry, i) => {
+    const position = 10 + i * 12;
+    view.setUint16(position, entry.tag, true);
+    view.setUint16(position + 2, entry.type, true);
+    view.setUint32(position + 4, entry.type === 2 ? entry.data.length : entry.count, true);
+    if (entry.data.length <= 4) {
+      tiff.set(entry.data, position + 8);
+    } else {
+      view.setUint32(position + 8, dataOffset, true);
+      tiff.set(entry.data, dataOffset);
+      dataOffset += entry.data.length;
+    }
+  });
+  // Next IFD offset stays 0
+
+  return buildSegment(MARKER_APP1, concatBytes([encoder.encode(EXIF_HEADER), tiff]));
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * XMP packet with Dublin Core creator, rights and description
+ */
+export function buildXmpSegment(fields: Partial<MetadataFields>): Uint8Array | null {
+  const properties: string[] = [];
+  if (fields.author) {
+    properties.push(`<dc:creator><rdf:Seq><rdf:li>${escapeXml(fields.author)}</rdf:li></rdf:Seq></dc:creator>`);
+  }
+  if (fields.copyright) {
+    properties.push(
+      `<dc:rights><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(fields.copyright)}</rdf:li></rdf:Alt></dc:rights>`
+    );
+  }
+  if (fields.description) {
+    properties.push(
+      `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(fields.description)}</rdf:li></rdf:Alt></dc:description>`
+    );
+  }
+  if (properties.length === 0) return null;
+
+  const packet = [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    ...properties,
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('');
+
+  return buildSegment(MARKER_APP1, encoder.encode(XMP_HEADER + packet));
+}
+
+/**
+ * IPTC-IIM (By-line, Copyright Notice, Caption) inside a Photoshop 8BIM resource, UTF-8 declared
+ */
+export function buildIptcSegment(fields: Partial<MetadataFields>): Uint8Array | null {
+  const dataset = (record: number, id: number, data: Uint8Array) =>
+    concatBytes([new Uint8Array([0x1c, record, id, data.length >> 8, data.length & 0xff]), data]);
+
+  const datasets: Uint8Array[] = [];
+  if (fields.author) datasets.push(dataset(2, 80, encoder.encode(fields.author)));
+  if (fields.copyright) datasets.push(dataset(2, 116, encoder.encode(fields.copyright)));
+  if (fields.description) datasets.push(dataset(2, 120, encoder.encode(fields.description)));
+  if (datasets.length === 0) return null;
+
+  const iptc = concatBytes([
+    dataset(1, 90, new Uint8Array([0x1b, 0x25, 0x47])), // Coded character set: UTF-8
+    dataset(2, 0, new Uint8Array([0x00, 0x04])), // Record version 4
+    ...datasets,
+  ]);
+  const padded = iptc.length % 2 === 0 ? iptc : concatBytes([iptc, new Uint8Array([0])]);
+
+  const resource = new Uint8Array(12);
+  resource.set(encoder.encode('8BIM'));
+  resource.set([0x04, 0x04, 0x00, 0x00], 4); // Resource id 0x0404 (IPTC), empty padded name
+  new DataView(resource.buffer).setUint32(8, iptc.length);
+
+  return buildSegment(MARKER_APP13, concatBytes([encoder.encode(PHOTOSHOP_HEADER), resource, padded]));
+}
@@ -0,0 +1,71 @@
+import type { MarketplacePreset } from '../types/preset';
+
+const MB = 1024 * 1024;
+
+/**
+ * Built-in presets - based on the image guidelines of each marketplace
+ * (recommended sizes, not just the bare minimums)
+ */
+export const MARKETPLACE_PRESETS: MarketplacePreset[] = [
+  {
+    id: 'amazon',
+    label: 'Amazon',
+    dimensions: { width: 2000, height: 2000 },
+    resizeMode: 'subject',
+    fillRatio: 0.85,
+    backgroundColor: '#FFFFFF',
+    format: 'jpeg',
+    maxFileSizeBytes: 10 * MB,
+    minSourceSize: 1000,
+  },
+  {
+    id: 'trendyol',
+    label: 'Trendyol',
+    dimensions: { width: 1200, height: 1800 },
+    resizeMode: 'subject',
+    fillRatio: 0.9,
+    backgroundColor: '#FFFFFF',
+    format: 'jpeg',
+    maxFileSizeBytes: 5 * MB,
+    minSourceSize: 1200,
+  },
+  {
+    id: 'hepsiburada',
+    label: 'Hepsiburada',
+    dimensions: { width: 1500, height: 1500 },
+    resizeMode: 'subject',
+    fillRatio: 0.85,
+    backgroundColor: '#FFFFFF',
+    format: 'jpeg',
+    maxFileSizeBytes: 5 * MB,
+    minSourceSize: 500,
+  },
+  {
+    id: 'etsy',
+    label: 'Etsy',
+    dimensions: { width: 2700, height: 2025 },
+    resizeMode: 'fit',
+    backgroundColor: '#FFFFFF',
+    format: 'jpeg',
+    maxFileSizeBytes: 1 * MB,
+    minSourceSize: 2000,
+  },
+  {
+    id: 'shopify',
+    label: 'Shopify',
+    dimensions: { width: 2048, height: 2048 },
+    resizeMode: 'subject',
+    fillRatio: 0.8,
+    backgroundColor: '#FFFFFF',
+    format: 'jpeg',
+    maxFileSizeBytes: 20 * MB,
+    minSourceSize: 800,
+  },
+];
+
+export function getMarketplacePreset(id: string | undefined): MarketplacePreset | undefined {
+  return id ? MARKETPLACE_PRESETS.find((preset) => preset.id === id) : undefined;
+}
+
+export const formatFileSize = (bytes: number): string =>
+  bytes >= MB ? `${(bytes / MB).toFixed(1)} MB` : `${(bytes / 1024).toFixed(0)} KB`;
@@ -0,0 +1,184 @@
+import type { MaskBrush, MaskBrushMode, MaskLayers, MaskRect, MaskStroke } from '../types/mask';
+
+export const DEFAULT_MASK_BRUSH: MaskBrush = {
+  mode: 'erase',
+  size: 40,
+  hardness: 0.6,
+  magic: false,
+  tolerance: 0.2,
+};
+
+export const MASK_BRUSH_MODE_LABELS: Record<MaskBrushMode, string> = {
+  erase: 'Sil',
+  restore: 'Geri getir',
+};
+
+export const MASK_BRUSH_SIZE_RANGE = { min: 2, max: 400 };
+export const MAX_MASK_UNDO_STEPS = 20;
+
+const DAB_SPACING = 0.15; // Distance between dabs along a stroke, share of the brush size
+const MAX_COLOR_DISTANCE = Math.sqrt(3) * 255;
+// Removed areas are shown tinted instead of invisible, so they can be found and restored
+const REMOVED_TINT = [239, 68, 68];
+const REMOVED_TINT_OPACITY = 0.4;
+
+export const beginStroke = (mask: Uint8ClampedArray): MaskStroke => ({
+  base: mask.slice(),
+  weights: new Uint8Array(mask.length),
+});
+
+export const unionRect = (a: MaskRect | null, b: MaskRect | null): MaskRect | null => {
+  if (!a || !b) return a ?? b;
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+};
+
+const colorDistance = (data: Uint8ClampedArray, offset: number, reference: number[]): number => {
+  const dr = data[offset] - reference[0];
+  const dg = data[offset + 1] - reference[1];
+  const db = data[offset + 2] - reference[2];
+  return Math.sqrt(dr * dr + dg * dg + db * db);
+};
+
+/**
+ * Edge-aware gate of a magic dab: flood fill from the center through pixels that look like it
+ * Pixels across an edge (another color) or not connected to the center get 0
+ */
+function magicGate(layers: MaskLayers, rect: MaskRect, cx: number, cy: number, brush: MaskBrush): Float32Array {
+  const gate = new Float32Array(rect.width * rect.height);
+  const data = layers.color.data;
+  const startX = Math.min(rect.x + rect.width - 1, Math.max(rect.x, Math.floor(cx)));
+  const startY = Math.min(rect.y + rect.height - 1, Math.max(rect.y, Math.floor(cy)));
+  const startOffset = (startY * layers.width + startX) * 4;
+  const reference = [data[startOffset], data[startOffset + 1], data[startOffset + 2]];
+  const maxDistance = Math.max(1, brush.tolerance * MAX_COLOR_DISTANCE);
+
+  const visited = new Uint8Array(gate.length);
+  const queue = [(startY - rect.y) * rect.width + (startX - rect.x)];
+  visited[queue[0]] = 1;
+
+  while (queue.length > 0) {
+    const index = queue.pop()!;
+    const x = (index % rect.width) + rect.x;
+    const y = Math.floor(index / rect.width) + rect.y;
+    const distance = colorDistance(data, (y * layers.width + x) * 4, reference);
+    if (distance > maxDistance) continue;
+    gate[index] = 1 - (distance / maxDistance) ** 2;
+
+    const neighbors = [
+      x > rect.x ? index - 1 : -1,
+      x < rect.x + rect.width - 1 ? index + 1 : -1,
+      y > rect.y ? index - rect.width : -1,
+      y < rect.y + rect.height - 1 ? index + rect.width : -1,
+    ];
+    for (const neighbor of neighbors) {
+      if (neighbor >= 0 && !visited[neighbor]) {
+        visited[neighbor] = 1;
+        queue.push(neighbor);
+      }
+    }
+  }
+
+  return gate;
+}
+
+/**
+ * Paint one round dab into the mask
+ */
+function paintDab(layers: MaskLayers, stroke: MaskStroke, cx: number, cy: number, brush: MaskBrush): MaskRect | null {
+  const radius = Math.max(0.5, brush.size / 2);
+  const x0 = Math.max(0, Math.floor(cx - radius));
+  const y0 = Math.max(0, Math.floor(cy - radius));
+  const x1 = Math.min(layers.width, Math.ceil(cx + radius));
+  const y1 = Math.min(layers.height, Math.ceil(cy + radius));
+  if (x1 <= x0 || y1 <= y0) return null;
+
+  const rect = { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+  const gate = brush.magic ? magicGate(layers, rect, cx, cy, brush) : null;
+  const inner = radius * brush.hardness;
+
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const distance = Math.hypot(x + 0.5 - cx, y + 0.5 - cy);
+      if (distance > radius) continue;
+
+      // Full strength inside the hard core, smooth fade to the rim
+      const t = distance <= inner ? 0 : (distance - inner) / (radius - inner);
+      let weight = 1 - t * t * (3 - 2 * t);
+      if (gate) weight *= gate[(y - y0) * rect.width + (x - x0)];
+
+      const i = y * layers.width + x;
+      const level = Math.round(weight * 255);
+      if (level <= stroke.weights[i]) continue;
+      stroke.weights[i] = level;
+      weight = level / 255;
+      const base = stroke.base[i];
+      layers.mask[i] = brush.mode === 'erase' ? base * (1 - weight) : base + (255 - base) * weight;
+    }
+  }
+
+  return rect;
+}
+
+/**
+ * Paint a stroke segment - dabs are spaced along the line so fast pointer moves leave no gaps
+ * @returns The changed region, null if the segment is outside the image
+ */
+export function paintStroke(
+  layers: MaskLayers,
+  stroke: MaskStroke,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  brush: MaskBrush
+): MaskRect | null {
+  const spacing = Math.max(1, brush.size * DAB_SPACING);
+  const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / spacing));
+  let changed: MaskRect | null = null;
+
+  for (let step = 0; step <= steps; step++) {
+    const t = step / steps;
+    changed = unionRect(
+      changed,
+      paintDab(layers, stroke, from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t, brush)
+    );
+  }
+  return changed;
+}
+
+/**
+ * Draw the layers into the editor's display pixels
+ * @param showRemoved - Tint transparent areas instead of leaving them invisible
+ */
+export function renderMaskPreview(layers: MaskLayers, target: ImageData, rect: MaskRect, showRemoved: boolean): void {
+  const source = layers.color.data;
+  const out = target.data;
+
+  for (let y = rect.y; y < rect.y + rect.height; y++) {
+    for (let x = rect.x; x < rect.x + rect.width; x++) {
+      const i = y * layers.width + x;
+      const offset = i * 4;
+      const alpha = layers.mask[i] / 255;
+
+      if (!showRemoved) {
+        out[offset] = source[offset];
+        out[offset + 1] = source[offset + 1];
+        out[offset + 2] = source[offset + 2];
+        out[offset + 3] = layers.mask[i];
+        continue;
+      }
+
+      const tint = REMOVED_TINT_OPACITY * (1 - alpha);
+      const total = alpha + tint;
+      for (let channel = 0; channel < 3; channel++) {
+        out[offset + channel] = (source[offset + channel] * alpha + REMOVED_TINT[channel] * tint) / total;
+      }
+      out[offset + 3] = total * 255;
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import type { MetadataFields, MetadataMode, MetadataPolicy } from '../types/metadata';
+
+export const DEFAULT_METADATA_POLICY: MetadataPolicy = {
+  mode: 'strip',
+  fields: { author: '', copyright: '', description: '' },
+};
+
+export const METADATA_MODE_LABELS: Record<MetadataMode, string> = {
+  strip: 'Kaldır',
+  preserve: 'Koru',
+  rewrite: 'Yeniden yaz',
+};
+
+export const METADATA_FIELD_LABELS: Record<keyof MetadataFields, string> = {
+  author: 'Yazar',
+  copyright: 'Telif hakkı',
+  description: 'Açıklama',
+};
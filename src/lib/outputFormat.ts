@@ -0,0 +1,73 @@
+import type { CompressionReport, OutputFormat, OutputSettings } from '../types/output';
+import { formatFileSize } from './marketplacePresets';
+
+export const DEFAULT_OUTPUT: OutputSettings = { format: 'jpeg', quality: 0.95 };
+
+// Intermediate steps (before a watermark or a byte budget search) - compressed only once at the end
+export const LOSSLESS_OUTPUT: OutputSettings = { format: 'png', quality: 1 };
+
+// Previews are re-derived often - JPEG is small, PNG keeps a transparent background visible
+export const PREVIEW_OUTPUT: OutputSettings = DEFAULT_OUTPUT;
+export const TRANSPARENT_PREVIEW_OUTPUT: OutputSettings = LOSSLESS_OUTPUT;
+
+export const OUTPUT_FORMAT_MIME: Record<OutputFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+export const OUTPUT_FORMAT_LABELS: Record<OutputFormat, string> = {
+  jpeg: 'JPEG',
+  png: 'PNG',
+  webp: 'WebP',
+  avif: 'AVIF',
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+};
+
+export function supportsTransparency(format: OutputFormat): boolean {
+  return format !== 'jpeg';
+}
+
+export function isLossyFormat(format: OutputFormat): boolean {
+  return format !== 'png';
+}
+
+/**
+ * Formats to try in order - the last one is always encodable
+ * @param keepAlpha - Fall back to PNG instead of JPEG so a transparent background survives
+ */
+export function getFormatFallbacks(format: OutputFormat, keepAlpha: boolean): OutputFormat[] {
+  const last: OutputFormat = keepAlpha ? 'png' : 'jpeg';
+  switch (format) {
+    case 'avif':
+      return ['avif', 'webp', last];
+    case 'webp':
+      return ['webp', last];
+    default:
+      return [format];
+  }
+}
+
+/**
+ * File extension for a blob's MIME type (jpg for anything unknown)
+ */
+export function getFileExtension(mimeType: string): string {
+  return EXTENSIONS[mimeType] ?? 'jpg';
+}
+
+/**
+ * "412 KB / 500 KB, kalite %78" - plus the scale when the image had to shrink
+ */
+export function describeCompression(report: CompressionReport): string {
+  const parts = [`${formatFileSize(report.bytes)} / ${formatFileSize(report.targetBytes)}`];
+  parts.push(report.quality === null ? 'kayıpsız' : `kalite %${Math.round(report.quality * 100)}`);
+  if (report.scale < 1) parts.push(`boyut %${Math.round(report.scale * 100)}`);
+  return parts.join(', ');
+}
@@ -0,0 +1,8 @@
+import type { ProviderMode } from '../types/image';
+import { providerRegistry } from '../services/providerRegistry';
+
+/**
+ * Short human readable name of a provider mode
+ */
+export const describeProviderMode = (mode: ProviderMode): string =>
+  mode.kind === 'single' ? `Yalnızca ${providerRegistry.getLabel(mode.providerId)}` : 'Karşılaştır';
@@ -0,0 +1,31 @@
+import type { ProviderAccent } from '../types/provider';
+
+/**
+ * Tailwind classes per provider accent
+ * Full class names are spelled out so Tailwind can detect them
+ */
+export const PROVIDER_ACCENT_CLASSES: Record<
+  ProviderAccent,
+  { text: string; iconButton: string; solidButton: string }
+> = {
+  blue: {
+    text: 'text-blue-600',
+    iconButton: 'text-blue-600 hover:bg-blue-50',
+    solidButton: 'bg-blue-600 hover:bg-blue-700',
+  },
+  purple: {
+    text: 'text-purple-600',
+    iconButton: 'text-purple-600 hover:bg-purple-50',
+    solidButton: 'bg-purple-600 hover:bg-purple-700',
+  },
+  green: {
+    text: 'text-green-600',
+    iconButton: 'text-green-600 hover:bg-green-50',
+    solidButton: 'bg-green-600 hover:bg-green-700',
+  },
+  amber: {
+    text: 'text-amber-600',
+    iconButton: 'text-amber-600 hover:bg-amber-50',
+    solidButton: 'bg-amber-600 hover:bg-amber-700',
+  },
+};
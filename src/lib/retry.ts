@@ -0,0 +1,69 @@
+/**
+ * Retry helpers
+ * Exponential backoff with jitter and Retry-After parsing for remote APIs
+ */
+
+import { createAbortError } from './abort';
+
+export interface RetryPolicy {
+  maxAttempts: number; // Total tries including the first one (1 = no retry)
+  baseDelayMs: number; // Delay before the first retry, doubled for every further one
+  maxDelayMs: number; // Upper bound for a single wait (also caps Retry-After)
+  jitter: number; // 0-1 - share of the delay that is randomized to spread out parallel retries
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: 0.5,
+};
+
+/**
+ * Wait before retry number `attempt` (1 = first retry)
+ * A server-provided Retry-After wins over the computed backoff
+ */
+export function getRetryDelay(attempt: number, policy: RetryPolicy, retryAfterMs?: number | null): number {
+  if (retryAfterMs != null) {
+    return Math.min(retryAfterMs, policy.maxDelayMs);
+  }
+
+  const exponential = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  const jitter = Math.min(1, Math.max(0, policy.jitter));
+  return Math.round(exponential * (1 - jitter) + Math.random() * exponential * jitter);
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * setTimeout as a promise - rejects with an AbortError as soon as the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(createAbortError());
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
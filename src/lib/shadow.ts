@@ -0,0 +1,28 @@
+import type { ReflectionSpec, ShadowSpec, ShadowType } from '../types/shadow';
+
+export const DEFAULT_SHADOW: ShadowSpec = {
+  type: 'none',
+  angle: 180,
+  distance: 0.02,
+  blur: 0.04,
+  opacity: 0.35,
+  reflection: null,
+};
+
+export const DEFAULT_REFLECTION: ReflectionSpec = { opacity: 0.3, length: 0.35 };
+
+export const SHADOW_TYPE_LABELS: Record<ShadowType, string> = {
+  none: 'Yok',
+  contact: 'Temas',
+  drop: 'Düşen',
+};
+
+export function hasShadowEffect(spec: ShadowSpec): boolean {
+  return spec.type !== 'none' || spec.reflection !== null;
+}
+
+export function describeShadow(spec: ShadowSpec): string {
+  const parts = spec.type === 'none' ? [] : [`${SHADOW_TYPE_LABELS[spec.type]} gölge`];
+  if (spec.reflection) parts.push('yansıma');
+  return parts.length > 0 ? parts.join(' + ') : 'Gölge yok';
+}
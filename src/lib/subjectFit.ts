@@ -0,0 +1,12 @@
+import type { SubjectAnchor, SubjectFit } from '../types/image';
+
+export const DEFAULT_SUBJECT_FIT: SubjectFit = { fillRatio: 0.85, anchor: 'center' };
+
+export const SUBJECT_ANCHOR_LABELS: Record<SubjectAnchor, string> = {
+  center: 'Ortala',
+  'bottom-center': 'Alta oturt',
+};
+
+export function describeSubjectFit(fit: SubjectFit): string {
+  return `Ürün %${Math.round(fit.fillRatio * 100)} (${SUBJECT_ANCHOR_LABELS[fit.anchor].toLowerCase()})`;
+}
@@ -0,0 +1,56 @@
+import type { ImageObject } from '../types/image';
+import type { SizeVariant, VariantNaming, VariantProfile } from '../types/variant';
+
+export const DEFAULT_VARIANT_PROFILE: VariantProfile = {
+  enabled: false,
+  naming: 'suffix',
+  variants: [
+    { id: 'large', name: 'large', longestSide: 2000 },
+    { id: 'medium', name: 'medium', longestSide: 1000 },
+    { id: 'small', name: 'small', longestSide: 500 },
+    { id: 'thumb', name: 'thumb', longestSide: 150 },
+  ],
+};
+
+export const VARIANT_NAMING_LABELS: Record<VariantNaming, string> = {
+  suffix: 'Dosya soneki',
+  folder: 'Alt klasör',
+};
+
+/**
+ * Output size of a variant - the configured dimensions scaled so their longest side matches
+ */
+export function getVariantDimensions(
+  dimensions: ImageObject['dimensions'],
+  variant: SizeVariant
+): ImageObject['dimensions'] {
+  const scale = variant.longestSide / Math.max(dimensions.width, dimensions.height);
+  return {
+    width: Math.max(1, Math.round(dimensions.width * scale)),
+    height: Math.max(1, Math.round(dimensions.height * scale)),
+  };
+}
+
+/**
+ * Letters, digits, '-' and '_' only - the name ends up in file and folder names
+ */
+export const sanitizeVariantName = (name: string): string =>
+  name.trim().replace(/[^a-zA-Z0-9_-]+/g, '-').replace(/^-+|-+$/g, '');
+
+export function describeVariantProfile(profile: VariantProfile): string {
+  if (!profile.enabled || profile.variants.length === 0) return 'Tek boyut';
+  return profile.variants.map((variant) => `${variant.longestSide}px`).join(', ');
+}
+
+/**
+ * New variant for the profile editor - half the size of the smallest one so far
+ */
+export function createVariant(existing: SizeVariant[]): SizeVariant {
+  const smallest = Math.min(...existing.map((variant) => variant.longestSide), 1000);
+  const longestSide = Math.max(50, Math.round(smallest / 2));
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    name: `${longestSide}px`,
+    longestSide,
+  };
+}
@@ -0,0 +1,104 @@
+import type {
+  ImageWatermarkSpec,
+  LegacyWatermarkSpec,
+  TextWatermarkSpec,
+  WatermarkAnchor,
+  WatermarkBlendMode,
+  WatermarkLayout,
+  WatermarkPlacement,
+  WatermarkSpec,
+} from '../types/watermark';
+
+export const DEFAULT_WATERMARK_SCALE = 0.3;
+
+// Centered and opaque - what every watermark looked like before placements existed
+export const DEFAULT_WATERMARK_PLACEMENT: WatermarkPlacement = {
+  layout: 'single',
+  anchor: 'center',
+  margin: 0.03,
+  spacing: 0.5,
+  opacity: 1,
+  rotation: 0,
+  blendMode: 'normal',
+};
+
+// Row by row, top-left first - the order of the anchor grid in the UI
+export const WATERMARK_ANCHORS: WatermarkAnchor[] = [
+  'top-left',
+  'top',
+  'top-right',
+  'left',
+  'center',
+  'right',
+  'bottom-left',
+  'bottom',
+  'bottom-right',
+];
+
+export const WATERMARK_LAYOUT_LABELS: Record<WatermarkLayout, string> = {
+  single: 'Tek',
+  tiled: 'Döşeme',
+  diagonal: 'Çapraz',
+};
+
+export const WATERMARK_BLEND_LABELS: Record<WatermarkBlendMode, string> = {
+  normal: 'Normal',
+  multiply: 'Çoğalt',
+  screen: 'Ekran',
+  overlay: 'Bindirme',
+  'soft-light': 'Yumuşak ışık',
+  difference: 'Fark',
+};
+
+// Canvas compositing operation of each blend mode
+export const WATERMARK_COMPOSITE_OPERATIONS: Record<WatermarkBlendMode, GlobalCompositeOperation> = {
+  normal: 'source-over',
+  multiply: 'multiply',
+  screen: 'screen',
+  overlay: 'overlay',
+  'soft-light': 'soft-light',
+  difference: 'difference',
+};
+
+// Fonts available in every browser - watermarks are drawn in workers, where web fonts are not loaded
+export const WATERMARK_FONTS = ['sans-serif', 'serif', 'monospace', 'Arial', 'Georgia', 'Verdana', 'Impact'];
+
+export const createImageWatermark = (file: File, scale = DEFAULT_WATERMARK_SCALE): ImageWatermarkSpec => ({
+  ...DEFAULT_WATERMARK_PLACEMENT,
+  type: 'image',
+  file,
+  scale,
+});
+
+export const createTextWatermark = (text = '© Marka'): TextWatermarkSpec => ({
+  ...DEFAULT_WATERMARK_PLACEMENT,
+  anchor: 'bottom-right',
+  opacity: 0.7,
+  type: 'text',
+  text,
+  fontFamily: 'sans-serif',
+  bold: true,
+  fontSize: 0.05,
+  color: '#FFFFFF',
+  strokeColor: '#000000',
+  strokeWidth: 0.08,
+});
+
+/**
+ * Bring a watermark saved by an older version to the current shape
+ */
+export function normalizeWatermark(watermark: WatermarkSpec | LegacyWatermarkSpec): WatermarkSpec {
+  return 'type' in watermark ? watermark : createImageWatermark(watermark.file, watermark.scale);
+}
+
+/**
+ * Short label for buttons and tooltips
+ */
+export function describeWatermark(watermark: WatermarkSpec | null | undefined): string {
+  if (!watermark) return 'Filigran yok';
+  const mark =
+    watermark.type === 'image'
+      ? `${watermark.file.name} (%${Math.round(watermark.scale * 100)})`
+      : `"${watermark.text}"`;
+  return watermark.layout === 'single' ? mark : `${mark}, ${WATERMARK_LAYOUT_LABELS[watermark.layout].toLowerCase()}`;
+}
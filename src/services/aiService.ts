@@ -1,24 +1,37 @@
 /**
  * AI Background Removal Service
- * Dual provider system - runs both imgly and Photoroom in parallel
+ * Multi provider system - runs the selected registered providers in parallel
  * Implements Singleton pattern for model caching
  */
 
-import * as backgroundRemoval from '@imgly/background-removal';
-import { photoroomService } from './photoroomService';
+import { ConcurrencyLimiter } from '../lib/concurrency';
+import { throwIfAborted } from '../lib/abort';
+import { providerRegistry } from './providerRegistry';
+import { ProviderError } from './providers/providerError';
+import type { ProviderDiagnostics, ProviderId, ProviderRemoveOptions } from '../types/provider';
 
-export interface DualProcessingResult {
-  imglyBlob: Blob | null;
-  photoroomBlob: Blob | null;
-  imglyError?: string;
-  photoroomError?: string;
+export interface ProviderProcessingResult {
+  blob: Blob | null;
+  error?: string;
+  diagnostics?: ProviderDiagnostics;
 }
 
+export type MultiProcessingResult = Record<ProviderId, ProviderProcessingResult>;
+
+export type ProviderConcurrency = Record<ProviderId, number>;
+
+const DEFAULT_REMOVE_OPTIONS: ProviderRemoveOptions = {
+  productMode: true,
+  keepShadow: false,
+};
+
 class AIService {
   private static instance: AIService;
   private isInitialized = false;
   private isLoading = false;
   private loadingPromise: Promise<void> | null = null;
+  // One limiter per provider - local inference and API calls have very different costs
+  private limiters = new Map<ProviderId, ConcurrencyLimiter>();
 
   // Singleton pattern
   private constructor() {}
@@ -30,11 +43,24 @@ class AIService {
     return AIService.instance;
   }
 
+  private getLimiter(providerId: ProviderId): ConcurrencyLimiter {
+    let limiter = this.limiters.get(providerId);
+    if (!limiter) {
+      const provider = providerRegistry.get(providerId);
+      limiter = new ConcurrencyLimiter(provider?.capabilities.defaultConcurrency ?? 1);
+      this.limiters.set(providerId, limiter);
+    }
+    return limiter;
+  }
+
   /**
-   * Check if Photoroom is available
+   * Limit how many requests each provider may run in parallel
    */
-  public isPhotoroomAvailable(): boolean {
-    return photoroomService.isReady();
+  public setProviderConcurrency(concurrency: ProviderConcurrency): void {
+    Object.entries(concurrency).forEach(([providerId, limit]) => {
+      this.getLimiter(providerId).setLimit(limit);
+    });
+    console.log('[AIService] Provider concurrency updated:', concurrency);
   }
 
   /**
@@ -72,156 +98,94 @@ class AIService {
   }
 
   /**
-   * DUAL PROCESSING - Process image with both providers in parallel
-   * Returns results from both imgly and Photoroom
+   * MULTI PROCESSING - Process image with the given providers in parallel
+   * Returns one result per provider, failures are reported per provider
+   * onProgress fires with 0 once a provider actually starts (after waiting for its limiter)
+   * Rejects with an AbortError once the signal aborts - partial results are dropped
    */
-  public async removeBackgroundDual(
+  public async removeBackgroundMulti(
     imageFile: File,
-    onImglyProgress?: (progress: number) => void,
-    onPhotoroomProgress?: (progress: number) => void
-  ): Promise<DualProcessingResult> {
-    console.log('[AIService] Starting dual processing (imgly + Photoroom)');
-
-    // Process both in parallel
-    const [imglyResult, photoroomResult] = await Promise.allSettled([
-      // imgly processing
-      (async () => {
-        try {
-          console.log('[AIService] imgly: Starting local processing');
-          const blob = await backgroundRemoval.removeBackground(imageFile, {
-            progress: (key: string, current: number, total: number) => {
-              const percentage = Math.round((current / total) * 100);
-              onImglyProgress?.(percentage);
-              console.log(`[AIService/imgly] ${key}: ${percentage}%`);
-            },
-          });
-          console.log('[AIService] imgly: Success');
-          return blob;
-        } catch (error) {
-          console.error('[AIService] imgly: Failed', error);
-          throw error;
+    providerIds: ProviderId[],
+    onProgress?: (providerId: ProviderId, progress: number) => void,
+    signal?: AbortSignal,
+    options: ProviderRemoveOptions = {}
+  ): Promise<MultiProcessingResult> {
+    const removeOptions = { ...DEFAULT_REMOVE_OPTIONS, ...options };
+    throwIfAborted(signal);
+    console.log(`[AIService] Starting processing with: ${providerIds.join(', ')}`);
+
+    const settled = await Promise.allSettled(
+      providerIds.map((providerId) => {
+        const provider = providerRegistry.get(providerId);
+        if (!provider) {
+          return Promise.reject(new Error(`Bilinmeyen sağlayıcı: ${providerId}`));
         }
-      })(),
-      
-      // Photoroom processing
-      (async () => {
-        try {
-          if (!photoroomService.isReady()) {
-            throw new Error('Photoroom API not configured');
-          }
-          
-          console.log('[AIService] Photoroom: Starting API processing');
-          const result = await photoroomService.removeBackground(imageFile, {
-            removeShadow: true,
-            productMode: true,
-            format: 'png',
-            size: 'full',
-            channels: 'rgba',
-          });
-
-          if (!result.success || !result.resultBlob) {
-            throw new Error(result.error || 'Photoroom processing failed');
-          }
-
-          console.log('[AIService] Photoroom: Success');
-          onPhotoroomProgress?.(100);
-          return result.resultBlob;
-        } catch (error) {
-          console.error('[AIService] Photoroom: Failed', error);
-          throw error;
-        }
-      })(),
-    ]);
-
-    // Prepare results
-    const dualResult: DualProcessingResult = {
-      imglyBlob: null,
-      photoroomBlob: null,
-    };
-
-    if (imglyResult.status === 'fulfilled') {
-      dualResult.imglyBlob = imglyResult.value;
-    } else {
-      dualResult.imglyError = imglyResult.reason?.message || 'imgly processing failed';
-    }
 
-    if (photoroomResult.status === 'fulfilled') {
-      dualResult.photoroomBlob = photoroomResult.value;
-    } else {
-      dualResult.photoroomError = photoroomResult.reason?.message || 'Photoroom processing failed';
-    }
-
-    console.log('[AIService] Dual processing complete:', {
-      imgly: !!dualResult.imglyBlob,
-      photoroom: !!dualResult.photoroomBlob,
+        return this.getLimiter(providerId).run(async () => {
+          // Got a slot - reports the provider as started
+          onProgress?.(providerId, 0);
+          try {
+            const output = await provider.removeBackground(
+              imageFile,
+              removeOptions,
+              (progress) => onProgress?.(providerId, progress),
+              signal
+            );
+            return output;
+          } catch (error) {
+            console.error(`[AIService] ${provider.label}: Failed`, error);
+            throw error;
+          }
+        }, signal);
+      })
+    );
+
+    // Never hand out results for an aborted job
+    throwIfAborted(signal);
+
+    const result: MultiProcessingResult = {};
+    settled.forEach((outcome, index) => {
+      const providerId = providerIds[index];
+      result[providerId] =
+        outcome.status === 'fulfilled'
+          ? { blob: outcome.value.blob, diagnostics: outcome.value.diagnostics }
+          : {
+              blob: null,
+              error: outcome.reason?.message || `${providerRegistry.getLabel(providerId)} processing failed`,
+              diagnostics: outcome.reason instanceof ProviderError ? outcome.reason.diagnostics : undefined,
+            };
     });
 
-    return dualResult;
+    console.log(
+      '[AIService] Processing complete:',
+      Object.fromEntries(Object.entries(result).map(([id, entry]) => [id, !!entry.blob]))
+    );
+
+    return result;
   }
 
   /**
    * LEGACY - Remove background from an image
-   * Uses Photoroom API with imgly as fallback
-   * @deprecated Use removeBackgroundDual() for comparison feature
+   * Tries available providers one by one - remote (high quality) first, local as fallback
+   * @deprecated Use removeBackgroundMulti() for comparison feature
    */
   public async removeBackground(imageFile: File): Promise<Blob> {
-    try {
-      // Photoroom API kullan (öncelikli)
-      if (photoroomService.isReady()) {
-        console.log('[AIService] Using Photoroom API (high quality, shadow detection)');
-        
-        const result = await photoroomService.removeBackground(imageFile, {
-          removeShadow: true, // Gölge tespiti aktif
-          productMode: true, // Ürün modu aktif
-          format: 'png',
-          size: 'full',
-          channels: 'rgba',
-        });
-
-        if (result.success && result.resultBlob) {
-          console.log('[AIService] Photoroom success');
-          return result.resultBlob;
-        }
-
-        // Photoroom başarısız, imgly'ye fallback
-        console.warn('[AIService] Photoroom failed, falling back to imgly:', result.error);
-      } else {
-        console.warn('[AIService] Photoroom not configured, using imgly fallback');
-      }
+    const providers = providerRegistry
+      .getAll()
+      .filter((provider) => provider.isAvailable())
+      .sort((a, b) => Number(a.capabilities.local) - Number(b.capabilities.local));
 
-      // imgly ile işle (fallback)
-      console.log('[AIService] Using imgly (local processing)');
-      return await this.removeBackgroundWithImgly(imageFile);
-      
-    } catch (error) {
-      console.error('[AIService] Error removing background:', error);
-      
-      // Son şans: imgly'yi dene
-      console.log('[AIService] Attempting imgly fallback...');
+    for (const provider of providers) {
       try {
-        return await this.removeBackgroundWithImgly(imageFile);
-      } catch (fallbackError) {
-        console.error('[AIService] Fallback also failed:', fallbackError);
-        throw new Error('Arka plan kaldırma işlemi başarısız oldu');
+        console.log(`[AIService] Using ${provider.label}`);
+        const output = await provider.removeBackground(imageFile, DEFAULT_REMOVE_OPTIONS);
+        return output.blob;
+      } catch (error) {
+        console.warn(`[AIService] ${provider.label} failed, trying next provider:`, error);
       }
     }
-  }
-
-  /**
-   * Remove background using imgly (local processing)
-   */
-  private async removeBackgroundWithImgly(imageFile: File): Promise<Blob> {
-    console.log('[AIService] Processing with imgly:', imageFile.name);
-    
-    const blob = await backgroundRemoval.removeBackground(imageFile, {
-      progress: (key: string, current: number, total: number) => {
-        const percentage = Math.round((current / total) * 100);
-        console.log(`[AIService/imgly] ${key}: ${percentage}%`);
-      },
-    });
 
-    console.log('[AIService] imgly background removed successfully');
-    return blob;
+    throw new Error('Arka plan kaldırma işlemi başarısız oldu');
   }
 
   /**
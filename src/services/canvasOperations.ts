@@ -0,0 +1,1308 @@
+/**
+ * Canvas Operations
+ * Environment-agnostic implementation of the ImageProcessor pipeline.
+ * Runs inside the image worker (OffscreenCanvas) and, as a fallback,
+ * on the main thread - so every function must only take and return
+ * structured-cloneable values (Blob, File, plain objects).
+ */
+
+import Pica from 'pica';
+import type { InputFormat, ResizeMode, SubjectFit } from '../types/image';
+import type { BackgroundSpec } from '../types/background';
+import type { ShadowSpec } from '../types/shadow';
+import type { CropSpec } from '../types/crop';
+import type { CompressionReport, OutputFormat, OutputSettings, RenderedImage } from '../types/output';
+import type { ColorTransform } from '../types/color';
+import type { ForensicPayload, ForensicReading } from '../types/forensic';
+import type { MaskLayers } from '../types/mask';
+import type { WatermarkAnchor, WatermarkSpec } from '../types/watermark';
+import { DEFAULT_BACKGROUND } from '../lib/background';
+import { buildExifSegment, insertMetadataSegments } from '../lib/jpegMetadata';
+import { hasShadowEffect } from '../lib/shadow';
+import { applyColorTransform } from '../lib/colorProfiles';
+import { embedForensicPayload, readForensicPayload } from '../lib/forensicMark';
+import { WATERMARK_COMPOSITE_OPERATIONS } from '../lib/watermark';
+import { DEFAULT_SUBJECT_FIT } from '../lib/subjectFit';
+import { INPUT_FORMAT_LABELS } from '../lib/inputFormats';
+import { decodeHeic, decodeTiff } from './imageDecoders';
+import {
+  DEFAULT_OUTPUT,
+  LOSSLESS_OUTPUT,
+  OUTPUT_FORMAT_MIME,
+  getFormatFallbacks,
+  supportsTransparency,
+} from '../lib/outputFormat';
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+export interface PixelBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type AnyCanvas = OffscreenCanvas | HTMLCanvasElement;
+export type AnyCanvasContext = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+const isWorkerScope = typeof document === 'undefined';
+
+/**
+ * Create a canvas - OffscreenCanvas where available (always inside workers)
+ */
+export function createCanvas(width: number, height: number): AnyCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+export function getContext(canvas: AnyCanvas, errorMessage = 'Canvas context oluşturulamadı'): AnyCanvasContext {
+  const ctx = canvas.getContext('2d') as AnyCanvasContext | null;
+  if (!ctx) {
+    throw new Error(errorMessage);
+  }
+  return ctx;
+}
+
+export async function canvasToBlob(canvas: AnyCanvas, type = 'image/jpeg', quality = 0.95): Promise<Blob> {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type, quality });
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Canvas to Blob dönüşümü başarısız'));
+        }
+      },
+      type,
+      quality
+    );
+  });
+}
+
+/**
+ * Encode in the requested output format, falling back when the browser cannot
+ * (unsupported types silently come back as PNG, so the result type is checked)
+ * @param keepAlpha - The canvas has a transparent background that should survive the fallback
+ */
+export async function encodeCanvas(
+  canvas: AnyCanvas,
+  output: OutputSettings = DEFAULT_OUTPUT,
+  keepAlpha = false
+): Promise<Blob> {
+  const formats = getFormatFallbacks(output.format, keepAlpha);
+
+  for (const format of formats) {
+    const mimeType = OUTPUT_FORMAT_MIME[format];
+    const blob = await canvasToBlob(canvas, mimeType, output.quality);
+    if (blob.type === mimeType) return blob;
+    console.warn(`[ImageProcessor] ${mimeType} is not supported here, trying the next format`);
+  }
+
+  // Only reached if even the last fallback failed - PNG always works
+  return canvasToBlob(canvas, OUTPUT_FORMAT_MIME.png);
+}
+
+// Target file size search
+const MIN_BUDGET_QUALITY = 0.3; // Below this JPEG/WebP artifacts get too visible
+const QUALITY_SEARCH_STEPS = 6; // Binary search steps - about 0.01 quality precision
+const MIN_BUDGET_SCALE = 0.25; // Never shrink below a quarter of the requested size
+const MIN_MARKED_QUALITY = 0.75; // Lower JPEG/WebP quantization starts to wipe out the forensic mark
+
+/**
+ * Highest quality (between minQuality and output.quality) whose encoding fits the budget
+ * Returns the smallest attempt when even the lowest quality is too big
+ */
+async function searchQuality(
+  canvas: AnyCanvas,
+  output: OutputSettings,
+  keepAlpha: boolean,
+  targetBytes: number,
+  minQuality = MIN_BUDGET_QUALITY
+): Promise<{ blob: Blob; quality: number | null }> {
+  const first = await encodeCanvas(canvas, output, keepAlpha);
+  // Lossless (PNG, also after a fallback) has no quality to trade
+  if (first.type === OUTPUT_FORMAT_MIME.png) return { blob: first, quality: null };
+  if (first.size <= targetBytes || output.quality <= minQuality) return { blob: first, quality: output.quality };
+
+  let low = minQuality;
+  let high = output.quality;
+  let best: { blob: Blob; quality: number } | null = null;
+
+  for (let step = 0; step < QUALITY_SEARCH_STEPS && high - low > 0.005; step++) {
+    const quality = (low + high) / 2;
+    const blob = await encodeCanvas(canvas, { ...output, quality }, keepAlpha);
+    if (blob.size <= targetBytes) {
+      best = { blob, quality };
+      low = quality;
+    } else {
+      high = quality;
+    }
+  }
+
+  if (best) return best;
+  const smallest = await encodeCanvas(canvas, { ...output, quality: minQuality }, keepAlpha);
+  return { blob: smallest, quality: minQuality };
+}
+
+/**
+ * Re-encode an image (ideally a lossless intermediate) to fit output.maxBytes
+ * Lowers the quality first, then - if allowed - the dimensions
+ * @param keepAlpha - The image has a transparent background that should survive a format fallback
+ * @param forensicMark - The image carries this mark: quality stays high enough for it and
+ *   a downscaled copy is marked again at its own size
+ */
+export async function encodeToSize(
+  imageBlob: Blob,
+  output: OutputSettings,
+  keepAlpha = false,
+  forensicMark?: ForensicPayload
+): Promise<RenderedImage> {
+  const img = await loadBitmap(imageBlob);
+
+  try {
+    const original = bitmapToCanvas(img);
+    if (!output.maxBytes) {
+      return { blob: await encodeCanvas(original, output, keepAlpha) };
+    }
+
+    const targetBytes = output.maxBytes;
+    let canvas: AnyCanvas = original;
+    let scale = 1;
+    const minQuality = forensicMark ? MIN_MARKED_QUALITY : MIN_BUDGET_QUALITY;
+    let result = await searchQuality(canvas, output, keepAlpha, targetBytes, minQuality);
+
+    while (result.blob.size > targetBytes && output.allowDownscale && scale > MIN_BUDGET_SCALE) {
+      // File size grows roughly with the pixel count - aim a bit below the budget
+      scale = Math.max(MIN_BUDGET_SCALE, scale * Math.min(0.9, Math.sqrt(targetBytes / result.blob.size) * 0.95));
+      const width = Math.max(1, Math.round(img.width * scale));
+      const height = Math.max(1, Math.round(img.height * scale));
+
+      canvas = createCanvas(width, height);
+      await pica.resize(original as HTMLCanvasElement, canvas as HTMLCanvasElement, PICA_RESIZE_OPTIONS);
+      // Resampling blurs the 8x8 block grid the mark lives on
+      if (forensicMark) markCanvas(canvas, forensicMark);
+      result = await searchQuality(canvas, output, keepAlpha, targetBytes, minQuality);
+    }
+
+    const compression: CompressionReport = {
+      targetBytes,
+      bytes: result.blob.size,
+      quality: result.quality,
+      scale,
+      withinBudget: result.blob.size <= targetBytes,
+    };
+    console.log(
+      `[ImageProcessor] Encoded to ${(result.blob.size / 1024).toFixed(0)} KB (budget ${(targetBytes / 1024).toFixed(0)} KB, quality ${
+        result.quality ?? 'lossless'
+      }, scale ${scale.toFixed(2)})`
+    );
+    return { blob: result.blob, compression };
+  } finally {
+    img.close();
+  }
+}
+
+/**
+ * Output formats this environment can encode (worker or main thread)
+ */
+export async function detectOutputFormats(): Promise<OutputFormat[]> {
+  const canvas = createCanvas(1, 1);
+  const formats = Object.keys(OUTPUT_FORMAT_MIME) as OutputFormat[];
+  const results = await Promise.all(
+    formats.map(async (format) => {
+      try {
+        const blob = await canvasToBlob(canvas, OUTPUT_FORMAT_MIME[format], 0.8);
+        return blob.type === OUTPUT_FORMAT_MIME[format];
+      } catch {
+        return false;
+      }
+    })
+  );
+  return formats.filter((_, index) => results[index]);
+}
+
+/**
+ * A transparent background only survives formats with an alpha channel - JPEG gets white
+ */
+function resolveOutputBackground(background: BackgroundSpec, output: OutputSettings): BackgroundSpec {
+  return background.type === 'transparent' && !supportsTransparency(output.format) ? DEFAULT_BACKGROUND : background;
+}
+
+/**
+ * Decode a Blob without touching the DOM
+ */
+export async function loadBitmap(blob: Blob, errorMessage = 'Görüntü yüklenemedi'): Promise<ImageBitmap> {
+  try {
+    return await createImageBitmap(blob);
+  } catch {
+    throw new Error(errorMessage);
+  }
+}
+
+// Inside a worker pica cannot spawn nested workers - it runs its js/wasm code inline.
+// On the main thread it uses its own worker mode ('ww') to keep the UI responsive.
+const pica = Pica({
+  features: isWorkerScope ? ['js', 'wasm'] : ['js', 'wasm', 'ww'],
+  createCanvas: (width: number, height: number) => createCanvas(width, height) as HTMLCanvasElement,
+});
+
+const PICA_RESIZE_OPTIONS = {
+  quality: 3, // 0-3, 3 is highest (Lanczos3)
+  unsharpAmount: 80, // Sharpening amount
+  unsharpRadius: 0.6,
+  unsharpThreshold: 2,
+} as const;
+
+/**
+ * Paint a background spec over the whole canvas
+ */
+export async function paintBackground(
+  ctx: AnyCanvasContext,
+  spec: BackgroundSpec,
+  width: number,
+  height: number
+): Promise<void> {
+  switch (spec.type) {
+    case 'color':
+      ctx.fillStyle = spec.color;
+      ctx.fillRect(0, 0, width, height);
+      return;
+
+    case 'transparent':
+      return;
+
+    case 'linear-gradient': {
+      // CSS semantics: the gradient line runs through the center at the given angle
+      // and is just long enough for its ends to touch the farthest corners
+      const radians = (spec.angle * Math.PI) / 180;
+      const dx = Math.sin(radians);
+      const dy = -Math.cos(radians);
+      const halfLength = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+      const gradient = ctx.createLinearGradient(
+        width / 2 - dx * halfLength,
+        height / 2 - dy * halfLength,
+        width / 2 + dx * halfLength,
+        height / 2 + dy * halfLength
+      );
+      spec.stops.forEach((stop) => gradient.addColorStop(stop.offset, stop.color));
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+      return;
+    }
+
+    case 'radial-gradient': {
+      const gradient = ctx.createRadialGradient(
+        width / 2, height / 2, 0,
+        width / 2, height / 2, Math.hypot(width, height) / 2
+      );
+      spec.stops.forEach((stop) => gradient.addColorStop(stop.offset, stop.color));
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+      return;
+    }
+
+    case 'image': {
+      ctx.fillStyle = spec.color;
+      ctx.fillRect(0, 0, width, height);
+
+      const backdrop = await loadBitmap(spec.file, 'Arka plan görseli yüklenemedi');
+      try {
+        // fill crops through negative offsets, fit leaves color bars
+        const calc = calculateTargetDimensions(backdrop.width, backdrop.height, width, height, spec.fit);
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(backdrop, calc.offsetX, calc.offsetY, calc.width, calc.height);
+      } finally {
+        backdrop.close();
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Put a background behind a transparent image
+ * @param imageBlob - Transparent PNG blob from AI service
+ * @param background - What to paint behind it (white by default)
+ * @param output - File format (JPEG by default)
+ * @returns Image blob in the output format
+ */
+export async function applyBackground(
+  imageBlob: Blob,
+  background: BackgroundSpec = DEFAULT_BACKGROUND,
+  output: OutputSettings = DEFAULT_OUTPUT
+): Promise<Blob> {
+  const img = await loadBitmap(imageBlob);
+  background = resolveOutputBackground(background, output);
+
+  try {
+    // Create canvas with image dimensions
+    const canvas = createCanvas(img.width, img.height);
+    const ctx = getContext(canvas);
+
+    await paintBackground(ctx, background, canvas.width, canvas.height);
+
+    // Draw the transparent image on top
+    ctx.drawImage(img, 0, 0);
+
+    const blob = await encodeCanvas(canvas, output, background.type === 'transparent');
+    console.log(`[ImageProcessor] Background applied (${background.type}, ${blob.type})`);
+    return blob;
+  } finally {
+    img.close();
+  }
+}
+
+/**
+ * Apply white background to a transparent image
+ * @param imageBlob - Transparent PNG blob from AI service
+ * @returns Blob with white background
+ */
+export async function applyWhiteBackground(imageBlob: Blob): Promise<Blob> {
+  return applyBackground(imageBlob, DEFAULT_BACKGROUND);
+}
+
+/**
+ * Calculate target dimensions based on resize mode and aspect ratio
+ * 'subject' needs the alpha mask (see calculateSubjectPlacement) - here it behaves like 'fit'
+ */
+export function calculateTargetDimensions(
+  originalWidth: number,
+  originalHeight: number,
+  targetWidth: number,
+  targetHeight: number,
+  mode: ResizeMode = 'fit'
+): { width: number; height: number; offsetX: number; offsetY: number } {
+  const originalRatio = originalWidth / originalHeight;
+  const targetRatio = targetWidth / targetHeight;
+
+  let width = targetWidth;
+  let height = targetHeight;
+  let offsetX = 0;
+  let offsetY = 0;
+
+  if (mode === 'stretch') {
+    // Stretch mode - use target dimensions as is (may distort)
+    return { width: targetWidth, height: targetHeight, offsetX: 0, offsetY: 0 };
+  }
+
+  if (mode === 'fit' || mode === 'subject') {
+    // Fit mode - scale to fit within target dimensions, maintain aspect ratio
+    if (originalRatio > targetRatio) {
+      // Image is wider - fit to width
+      height = Math.round(targetWidth / originalRatio);
+      offsetY = Math.round((targetHeight - height) / 2);
+    } else {
+      // Image is taller - fit to height
+      width = Math.round(targetHeight * originalRatio);
+      offsetX = Math.round((targetWidth - width) / 2);
+    }
+  } else if (mode === 'fill') {
+    // Fill mode - scale to cover target dimensions, crop excess
+    if (originalRatio > targetRatio) {
+      // Image is wider - fit to height and crop sides
+      width = Math.round(targetHeight * originalRatio);
+      offsetX = Math.round((targetWidth - width) / 2);
+    } else {
+      // Image is taller - fit to width and crop top/bottom
+      height = Math.round(targetWidth / originalRatio);
+      offsetY = Math.round((targetHeight - height) / 2);
+    }
+  }
+
+  return { width, height, offsetX, offsetY };
+}
+
+/**
+ * HIGH-QUALITY RESIZE using Pica library (Lanczos3 algorithm)
+ * Supports aspect ratio preservation and different resize modes
+ * @param imageBlob - Image blob to resize
+ * @param dimensions - Target width and height
+ * @param mode - How to handle aspect ratio: 'fit', 'fill', or 'stretch'
+ * @returns Resized image blob
+ */
+export async function resizeImage(
+  imageBlob: Blob,
+  dimensions: ImageDimensions,
+  mode: ResizeMode = 'fit',
+  background: BackgroundSpec = DEFAULT_BACKGROUND,
+  output: OutputSettings = DEFAULT_OUTPUT
+): Promise<Blob> {
+  const img = await loadBitmap(imageBlob);
+  // A flattened image has no mask to find the subject in
+  if (mode === 'subject') mode = 'fit';
+  background = resolveOutputBackground(background, output);
+
+  try {
+    // Calculate optimal dimensions based on mode
+    const calc = calculateTargetDimensions(img.width, img.height, dimensions.width, dimensions.height, mode);
+
+    // Create target canvas
+    const targetCanvas = createCanvas(dimensions.width, dimensions.height);
+    const targetCtx = getContext(targetCanvas, 'Target canvas context oluşturulamadı');
+
+    // Fill with the background first (for fit mode with letterboxing)
+    if (mode === 'fit' && (calc.offsetX > 0 || calc.offsetY > 0)) {
+      await paintBackground(targetCtx, background, dimensions.width, dimensions.height);
+    }
+
+    // Use pica for high-quality resize
+    // First resize to calculated dimensions (decoded bitmap is the source)
+    const resizedCanvas = createCanvas(calc.width, calc.height);
+
+    await pica.resize(img, resizedCanvas as HTMLCanvasElement, PICA_RESIZE_OPTIONS);
+
+    // Draw resized image onto target canvas with proper positioning
+    if (mode === 'fill') {
+      // For fill mode, we need to crop the center
+      const sourceX = Math.abs(calc.offsetX);
+      const sourceY = Math.abs(calc.offsetY);
+      targetCtx.drawImage(
+        resizedCanvas,
+        sourceX, sourceY,
+        dimensions.width, dimensions.height,
+        0, 0,
+        dimensions.width, dimensions.height
+      );
+    } else {
+      // For fit and stretch modes, draw with offset
+      targetCtx.drawImage(resizedCanvas, calc.offsetX, calc.offsetY);
+    }
+
+    const blob = await encodeCanvas(targetCanvas, output, background.type === 'transparent');
+    console.log(
+      `[ImageProcessor] High-quality resize to ${dimensions.width}x${dimensions.height} (mode: ${mode}, ${blob.type})`
+    );
+    return blob;
+  } finally {
+    img.close();
+  }
+}
+
+/**
+ * Bounding box of the visible (non-transparent) pixels
+ * @param alphaThreshold - Pixels at or below this alpha count as background (edge noise)
+ * @returns null for a fully transparent image
+ */
+export function getAlphaBounds(canvas: AnyCanvas, alphaThreshold = 8): PixelBounds | null {
+  const { width, height } = canvas;
+  const { data } = getContext(canvas).getImageData(0, 0, width, height);
+
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width * 4;
+    for (let x = 0; x < width; x++) {
+      if (data[row + x * 4 + 3] > alphaThreshold) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        maxY = y;
+      }
+    }
+  }
+
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+function bitmapToCanvas(img: ImageBitmap): AnyCanvas {
+  const canvas = createCanvas(img.width, img.height);
+  getContext(canvas).drawImage(img, 0, 0);
+  return canvas;
+}
+
+const TIGHT_CROP: CropSpec = { enabled: true, unit: 'px', margin: { top: 0, right: 0, bottom: 0, left: 0 } };
+
+/**
+ * Scale and position for 'subject' mode: the subject (not the whole frame) is fitted
+ * into fillRatio of the target and anchored - everything else is background
+ * Same shape as calculateTargetDimensions: size and offset of the whole source image
+ */
+export function calculateSubjectPlacement(
+  bounds: PixelBounds,
+  sourceWidth: number,
+  sourceHeight: number,
+  targetWidth: number,
+  targetHeight: number,
+  fit: SubjectFit
+): { width: number; height: number; offsetX: number; offsetY: number } {
+  const fillRatio = Math.min(1, Math.max(0.05, fit.fillRatio));
+  const scale = fillRatio * Math.min(targetWidth / bounds.width, targetHeight / bounds.height);
+
+  const subjectCenterX = (bounds.x + bounds.width / 2) * scale;
+  const offsetX = Math.round(targetWidth / 2 - subjectCenterX);
+
+  let offsetY: number;
+  if (fit.anchor === 'bottom-center') {
+    // Same gap under the subject as the fill ratio leaves on one side
+    const bottomGap = (targetHeight * (1 - fillRatio)) / 2;
+    offsetY = Math.round(targetHeight - bottomGap - (bounds.y + bounds.height) * scale);
+  } else {
+    offsetY = Math.round(targetHeight / 2 - (bounds.y + bounds.height / 2) * scale);
+  }
+
+  return {
+    width: Math.max(1, Math.round(sourceWidth * scale)),
+    height: Math.max(1, Math.round(sourceHeight * scale)),
+    offsetX,
+    offsetY,
+  };
+}
+
+/**
+ * Subject bounds grown by the crop margins - may reach past the image edges
+ */
+export function getCropRect(bounds: PixelBounds, crop: CropSpec): PixelBounds {
+  const toPixels = (value: number, size: number) =>
+    Math.max(0, Math.round(crop.unit === 'percent' ? (size * value) / 100 : value));
+
+  const top = toPixels(crop.margin.top, bounds.height);
+  const right = toPixels(crop.margin.right, bounds.width);
+  const bottom = toPixels(crop.margin.bottom, bounds.height);
+  const left = toPixels(crop.margin.left, bounds.width);
+
+  return {
+    x: bounds.x - left,
+    y: bounds.y - top,
+    width: bounds.width + left + right,
+    height: bounds.height + top + bottom,
+  };
+}
+
+/**
+ * Cut the frame down to the subject plus margin, keeping transparency
+ * Margins past the image edges stay transparent and get the background later
+ * @returns null when the cutout has no visible pixels (nothing to crop to)
+ */
+function cropToSubject(img: ImageBitmap, crop: CropSpec): AnyCanvas | null {
+  const full = bitmapToCanvas(img);
+  const bounds = getAlphaBounds(full);
+  if (!bounds) return null;
+
+  const rect = getCropRect(bounds, crop);
+  const cropped = createCanvas(rect.width, rect.height);
+  getContext(cropped).drawImage(full, -rect.x, -rect.y);
+  console.log(
+    `[ImageProcessor] Cropped to subject: ${img.width}x${img.height} -> ${rect.width}x${rect.height}`
+  );
+  return cropped;
+}
+
+/**
+ * Draw only the shadow of a source region: the source itself is moved out of view
+ * and the canvas shadow (which follows its alpha mask) is offset back into place
+ */
+function drawSilhouetteShadow(
+  ctx: AnyCanvasContext,
+  source: AnyCanvas,
+  sourceRect: PixelBounds,
+  target: PixelBounds,
+  color: string,
+  blur: number
+): void {
+  const shift = ctx.canvas.width + target.width + blur * 2;
+  ctx.save();
+  ctx.shadowColor = color;
+  ctx.shadowBlur = blur;
+  ctx.shadowOffsetX = shift;
+  ctx.shadowOffsetY = 0;
+  ctx.drawImage(
+    source,
+    sourceRect.x, sourceRect.y, sourceRect.width, sourceRect.height,
+    target.x - shift, target.y, target.width, target.height
+  );
+  ctx.restore();
+}
+
+/**
+ * Reflection, contact shadow and drop shadow for a subject drawn at (x, y)
+ * Painted between the background and the subject
+ */
+export function paintShadowEffects(
+  ctx: AnyCanvasContext,
+  subject: AnyCanvas,
+  x: number,
+  y: number,
+  spec: ShadowSpec
+): void {
+  const bounds = getAlphaBounds(subject);
+  if (!bounds) return;
+
+  const floorY = y + bounds.y + bounds.height; // Where the subject touches the ground
+  const opacity = Math.min(1, Math.max(0, spec.opacity));
+  const color = `rgba(0, 0, 0, ${opacity})`;
+  const blur = spec.blur * bounds.height;
+  const distance = spec.distance * bounds.height;
+
+  // Mirror image under the subject, fading out downwards
+  if (spec.reflection && spec.reflection.opacity > 0 && spec.reflection.length > 0) {
+    const reflectionHeight = Math.max(1, Math.round(bounds.height * Math.min(1, spec.reflection.length)));
+    const reflection = createCanvas(bounds.width, reflectionHeight);
+    const reflectionCtx = getContext(reflection);
+
+    reflectionCtx.translate(0, reflectionHeight);
+    reflectionCtx.scale(1, -1);
+    reflectionCtx.drawImage(
+      subject,
+      bounds.x, bounds.y + bounds.height - reflectionHeight, bounds.width, reflectionHeight,
+      0, 0, bounds.width, reflectionHeight
+    );
+    reflectionCtx.setTransform(1, 0, 0, 1, 0, 0);
+
+    const fade = reflectionCtx.createLinearGradient(0, 0, 0, reflectionHeight);
+    fade.addColorStop(0, `rgba(0, 0, 0, ${Math.min(1, spec.reflection.opacity)})`);
+    fade.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    reflectionCtx.globalCompositeOperation = 'destination-in';
+    reflectionCtx.fillStyle = fade;
+    reflectionCtx.fillRect(0, 0, bounds.width, reflectionHeight);
+
+    ctx.drawImage(reflection, x + bounds.x, floorY);
+  }
+
+  if (spec.type === 'contact') {
+    // Silhouette squashed to a thin band at the floor line
+    const bandHeight = Math.max(2, bounds.height * 0.06);
+    drawSilhouetteShadow(
+      ctx,
+      subject,
+      bounds,
+      { x: x + bounds.x, y: floorY - bandHeight / 2 + distance, width: bounds.width, height: bandHeight },
+      color,
+      Math.max(blur, 1)
+    );
+  } else if (spec.type === 'drop') {
+    const radians = (spec.angle * Math.PI) / 180;
+    drawSilhouetteShadow(
+      ctx,
+      subject,
+      bounds,
+      {
+        x: x + bounds.x + Math.sin(radians) * distance,
+        y: y + bounds.y - Math.cos(radians) * distance,
+        width: bounds.width,
+        height: bounds.height,
+      },
+      color,
+      blur
+    );
+  }
+}
+
+export interface ComposeOptions {
+  dimensions?: ImageDimensions; // Output size - cutout size if omitted
+  resizeMode?: ResizeMode;
+  background?: BackgroundSpec;
+  shadow?: ShadowSpec; // Generated from the cutout's alpha mask
+  crop?: CropSpec; // Applied before the resize so the subject fills the output
+  subjectFit?: SubjectFit; // Fill ratio and anchor for resizeMode 'subject'
+  output?: OutputSettings; // JPEG if omitted
+}
+
+/**
+ * Cutout -> final image in one pass: the cutout is resized with its alpha intact
+ * and placed on a background painted at the output size, so gradients and
+ * backdrops are never stretched or letterboxed twice
+ * @param cutout - Transparent PNG blob from AI service
+ * @returns Image blob in the output format (transparent if the background and format allow it)
+ */
+export async function composeImage(cutout: Blob, options: ComposeOptions = {}): Promise<Blob> {
+  const { resizeMode = 'fit', output = DEFAULT_OUTPUT } = options;
+  const background = resolveOutputBackground(options.background ?? DEFAULT_BACKGROUND, output);
+  const img = await loadBitmap(cutout);
+
+  try {
+    // Tighten the frame to the subject first - the output size is calculated from the crop
+    // 'subject' mode always crops tight: the fill ratio supplies the margin and the resize stays small
+    const crop = resizeMode === 'subject' ? TIGHT_CROP : options.crop;
+    const source = (crop?.enabled && cropToSubject(img, crop)) || img;
+
+    const target =
+      options.dimensions && options.dimensions.width > 0 && options.dimensions.height > 0
+        ? options.dimensions
+        : { width: source.width, height: source.height };
+    const calc =
+      resizeMode === 'subject'
+        ? calculateSubjectPlacement(
+            { x: 0, y: 0, width: source.width, height: source.height },
+            source.width,
+            source.height,
+            target.width,
+            target.height,
+            options.subjectFit ?? DEFAULT_SUBJECT_FIT
+          )
+        : calculateTargetDimensions(source.width, source.height, target.width, target.height, resizeMode);
+
+    const canvas = createCanvas(target.width, target.height);
+    const ctx = getContext(canvas);
+    await paintBackground(ctx, background, target.width, target.height);
+
+    // Shadows need the subject at its final size as a readable canvas
+    const shadow = options.shadow && hasShadowEffect(options.shadow) ? options.shadow : null;
+    const needsResize = calc.width !== source.width || calc.height !== source.height;
+
+    if (!needsResize && !shadow) {
+      ctx.drawImage(source, calc.offsetX, calc.offsetY);
+    } else {
+      const subject = createCanvas(calc.width, calc.height);
+      if (needsResize) {
+        await pica.resize(source as HTMLCanvasElement | ImageBitmap, subject as HTMLCanvasElement, PICA_RESIZE_OPTIONS);
+      } else {
+        getContext(subject).drawImage(source, 0, 0);
+      }
+
+      if (shadow) {
+        paintShadowEffects(ctx, subject, calc.offsetX, calc.offsetY, shadow);
+      }
+      // Negative offsets (fill) crop the overflow
+      ctx.drawImage(subject, calc.offsetX, calc.offsetY);
+    }
+
+    const blob = await encodeCanvas(canvas, output, background.type === 'transparent');
+    console.log(
+      `[ImageProcessor] Composed ${target.width}x${target.height} (mode: ${resizeMode}, background: ${background.type}${
+        shadow ? ', shadow' : ''
+      }, ${blob.type})`
+    );
+    return blob;
+  } finally {
+    img.close();
+  }
+}
+
+// Re-encoded uploads (rotated, or in a format the pipeline cannot read) - close to the original,
+// they are still the AI input
+const WORKING_COPY_OUTPUT: OutputSettings = { format: 'jpeg', quality: 0.95 };
+
+let orientationSupport: Promise<boolean> | null = null;
+
+/**
+ * Whether createImageBitmap already applies EXIF orientation in this browser
+ * Decodes a 2x1 JPEG tagged as rotated 90° - an applied rotation makes it 1x2
+ */
+function decoderAppliesOrientation(): Promise<boolean> {
+  orientationSupport ??= (async () => {
+    try {
+      const probe = await canvasToBlob(createCanvas(2, 1), 'image/jpeg');
+      const exif = buildExifSegment({}, 6);
+      const bytes = insertMetadataSegments(new Uint8Array(await probe.arrayBuffer()), exif ? [exif] : []);
+      const bitmap = await createImageBitmap(new Blob([bytes as BlobPart], { type: 'image/jpeg' }));
+      const applied = bitmap.width === 1;
+      bitmap.close();
+      return applied;
+    } catch {
+      return false;
+    }
+  })();
+  return orientationSupport;
+}
+
+/**
+ * Canvas transform that turns raw pixels with the given EXIF orientation upright
+ * (orientations 5-8 swap width and height)
+ */
+function applyOrientationTransform(ctx: AnyCanvasContext, orientation: number, width: number, height: number): void {
+  switch (orientation) {
+    case 2:
+      ctx.transform(-1, 0, 0, 1, width, 0);
+      break;
+    case 3:
+      ctx.transform(-1, 0, 0, -1, width, height);
+      break;
+    case 4:
+      ctx.transform(1, 0, 0, -1, 0, height);
+      break;
+    case 5:
+      ctx.transform(0, 1, 1, 0, 0, 0);
+      break;
+    case 6:
+      ctx.transform(0, 1, -1, 0, height, 0);
+      break;
+    case 7:
+      ctx.transform(0, -1, -1, 0, height, width);
+      break;
+    case 8:
+      ctx.transform(0, -1, 1, 0, 0, width);
+      break;
+  }
+}
+
+/**
+ * Decode for a color conversion - the raw values, without the browser's own profile handling
+ */
+async function loadUnconvertedBitmap(blob: Blob): Promise<ImageBitmap> {
+  try {
+    return await createImageBitmap(blob, { colorSpaceConversion: 'none' });
+  } catch {
+    throw new Error('Görüntü yüklenemedi');
+  }
+}
+
+/**
+ * Convert the pixels of a canvas in place
+ */
+function convertCanvasColors(canvas: AnyCanvas, transform: ColorTransform): void {
+  const ctx = getContext(canvas);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  applyColorTransform(imageData.data, transform);
+  ctx.putImageData(imageData, 0, 0);
+}
+
+/**
+ * Re-encode a photo with its EXIF orientation baked into the pixels
+ * The result carries no metadata - the caller copies it back with the orientation reset
+ * @param colorTransform - Conversion from the embedded profile to sRGB, done in the same pass
+ */
+export async function normalizeOrientation(
+  imageBlob: Blob,
+  orientation: number,
+  colorTransform?: ColorTransform
+): Promise<Blob> {
+  const [img, applied] = await Promise.all([
+    colorTransform ? loadUnconvertedBitmap(imageBlob) : loadBitmap(imageBlob),
+    decoderAppliesOrientation(),
+  ]);
+
+  try {
+    let canvas: AnyCanvas;
+    if (applied || orientation === 1) {
+      canvas = bitmapToCanvas(img);
+    } else {
+      // The decoder returned the raw pixels - rotate/flip them ourselves
+      const swapsSides = orientation >= 5;
+      canvas = createCanvas(swapsSides ? img.height : img.width, swapsSides ? img.width : img.height);
+      const ctx = getContext(canvas);
+      applyOrientationTransform(ctx, orientation, img.width, img.height);
+      ctx.drawImage(img, 0, 0);
+    }
+
+    if (colorTransform) convertCanvasColors(canvas, colorTransform);
+    return await encodeCanvas(canvas, WORKING_COPY_OUTPUT);
+  } finally {
+    img.close();
+  }
+}
+
+/**
+ * Convert an image between color profiles (embedded profile -> sRGB on upload, sRGB -> output profile on export)
+ * The result carries no profile - the caller embeds the target profile where it should be tagged
+ * @param keepAlpha - The image has a transparent background that should survive a format fallback
+ */
+export async function convertColorProfile(
+  imageBlob: Blob,
+  transform: ColorTransform,
+  output: OutputSettings = DEFAULT_OUTPUT,
+  keepAlpha = false
+): Promise<Blob> {
+  const img = await loadUnconvertedBitmap(imageBlob);
+
+  try {
+    const canvas = bitmapToCanvas(img);
+    convertCanvasColors(canvas, transform);
+    return await encodeCanvas(canvas, output, keepAlpha);
+  } finally {
+    img.close();
+  }
+}
+
+/**
+ * Embed the forensic mark into the pixels of a canvas in place
+ */
+function markCanvas(canvas: AnyCanvas, payload: ForensicPayload): void {
+  const ctx = getContext(canvas);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  embedForensicPayload(imageData.data, canvas.width, canvas.height, payload);
+  ctx.putImageData(imageData, 0, 0);
+}
+
+/**
+ * Embed the invisible forensic mark (batch code + export day) into the pixels
+ * Read unconverted, so a mark embedded after the output profile conversion reads back the same
+ * @param keepAlpha - The image has a transparent background that should survive a format fallback
+ */
+export async function embedForensicMark(
+  imageBlob: Blob,
+  payload: ForensicPayload,
+  output: OutputSettings = DEFAULT_OUTPUT,
+  keepAlpha = false
+): Promise<Blob> {
+  const img = await loadUnconvertedBitmap(imageBlob);
+
+  try {
+    const canvas = bitmapToCanvas(img);
+    markCanvas(canvas, payload);
+    return await encodeCanvas(canvas, output, keepAlpha);
+  } finally {
+    img.close();
+  }
+}
+
+/**
+ * Read the forensic mark of a suspect image
+ */
+export async function readForensicMark(imageBlob: Blob): Promise<ForensicReading> {
+  const img = await loadUnconvertedBitmap(imageBlob);
+
+  try {
+    const canvas = bitmapToCanvas(img);
+    const { data } = getContext(canvas).getImageData(0, 0, canvas.width, canvas.height);
+    return readForensicPayload(data, canvas.width, canvas.height);
+  } finally {
+    img.close();
+  }
+}
+
+const hasTransparentPixels = (canvas: AnyCanvas): boolean => {
+  const { data } = getContext(canvas).getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+};
+
+/**
+ * Browser-friendly copy (JPEG, PNG when transparent) of an upload the pipeline cannot use as is
+ * Tries the browser's own decoder first (Safari opens HEIC and TIFF), then the bundled ones -
+ * either way the copy comes out upright
+ * @param colorTransform - Conversion from the embedded profile to sRGB, done in the same pass
+ */
+export async function createWorkingCopy(file: Blob, format: InputFormat, colorTransform?: ColorTransform): Promise<Blob> {
+  let canvas: AnyCanvas;
+
+  try {
+    // Raw values when we convert ourselves - otherwise the browser's color management applies
+    const img = colorTransform
+      ? await createImageBitmap(file, { colorSpaceConversion: 'none' })
+      : await createImageBitmap(file);
+    canvas = bitmapToCanvas(img);
+    img.close();
+  } catch {
+    if (format !== 'heic' && format !== 'tiff') {
+      throw new Error(`${INPUT_FORMAT_LABELS[format]} dosyaları bu tarayıcıda açılamıyor`);
+    }
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const pixels = format === 'heic' ? await decodeHeic(bytes) : await decodeTiff(bytes);
+    const decoded = createCanvas(pixels.width, pixels.height);
+    getContext(decoded).putImageData(
+      new ImageData(pixels.data as Uint8ClampedArray<ArrayBuffer>, pixels.width, pixels.height),
+      0,
+      0
+    );
+
+    if (pixels.orientation === 1) {
+      canvas = decoded;
+    } else {
+      // The bundled decoders return the stored pixels - rotate/flip them like a rotated JPEG
+      const swapsSides = pixels.orientation >= 5;
+      canvas = createCanvas(swapsSides ? pixels.height : pixels.width, swapsSides ? pixels.width : pixels.height);
+      const ctx = getContext(canvas);
+      applyOrientationTransform(ctx, pixels.orientation, pixels.width, pixels.height);
+      ctx.drawImage(decoded, 0, 0);
+    }
+  }
+
+  if (colorTransform) convertCanvasColors(canvas, colorTransform);
+  const transparent = hasTransparentPixels(canvas);
+  return encodeCanvas(canvas, transparent ? LOSSLESS_OUTPUT : WORKING_COPY_OUTPUT, transparent);
+}
+
+/**
+ * Get original dimensions of an image file
+ * @param file - Image file
+ * @returns Width and height
+ */
+export async function getImageDimensions(file: Blob): Promise<ImageDimensions> {
+  const img = await loadBitmap(file, 'Görüntü boyutları alınamadı');
+  const dimensions = { width: img.width, height: img.height };
+  img.close();
+  return dimensions;
+}
+
+/**
+ * Share of the pixels along the image border that are (near) white
+ * Used to check marketplace "pure white background" rules on the final output
+ * @param band - Border thickness in pixels
+ * @param threshold - Minimum value of every channel for a pixel to count as white
+ * @returns 0-1
+ */
+export async function measureEdgeWhiteness(imageBlob: Blob, band = 2, threshold = 245): Promise<number> {
+  const img = await loadBitmap(imageBlob);
+
+  try {
+    const canvas = bitmapToCanvas(img);
+    const { data } = getContext(canvas).getImageData(0, 0, img.width, img.height);
+    const thickness = Math.max(1, Math.min(band, Math.floor(Math.min(img.width, img.height) / 2)));
+
+    let total = 0;
+    let white = 0;
+    for (let y = 0; y < img.height; y++) {
+      const onHorizontalEdge = y < thickness || y >= img.height - thickness;
+      for (let x = 0; x < img.width; x++) {
+        if (!onHorizontalEdge && x >= thickness && x < img.width - thickness) {
+          x = img.width - thickness - 1; // Skip the inside of the row
+          continue;
+        }
+        const i = (y * img.width + x) * 4;
+        total++;
+        if (data[i] >= threshold && data[i + 1] >= threshold && data[i + 2] >= threshold) {
+          white++;
+        }
+      }
+    }
+
+    return total > 0 ? white / total : 1;
+  } finally {
+    img.close();
+  }
+}
+
+// Below this alpha the cutout's colors are too imprecise (or missing) - the original photo's are used
+const MASK_COLOR_MIN_ALPHA = 64;
+
+/**
+ * Split a cutout into what the mask editor paints on: its alpha mask and opaque colors
+ * Colors the provider removed come from the original photo, so the restore brush can bring them back
+ * @param original - The photo the cutout was made from - scaled to the cutout if their sizes differ
+ */
+export async function loadMaskLayers(cutout: Blob, original: Blob): Promise<MaskLayers> {
+  const [cutoutImg, originalImg] = await Promise.all([
+    loadBitmap(cutout, 'Maske yüklenemedi'),
+    loadBitmap(original, 'Orijinal görsel yüklenemedi'),
+  ]);
+
+  try {
+    const { width, height } = cutoutImg;
+    const color = getContext(bitmapToCanvas(cutoutImg)).getImageData(0, 0, width, height);
+    const backdrop = createCanvas(width, height);
+    getContext(backdrop).drawImage(originalImg, 0, 0, width, height);
+    const originalData = getContext(backdrop).getImageData(0, 0, width, height).data;
+
+    const mask = new Uint8ClampedArray(width * height);
+    const data = color.data;
+    for (let i = 0; i < mask.length; i++) {
+      const offset = i * 4;
+      mask[i] = data[offset + 3];
+      if (mask[i] < MASK_COLOR_MIN_ALPHA) {
+        data[offset] = originalData[offset];
+        data[offset + 1] = originalData[offset + 1];
+        data[offset + 2] = originalData[offset + 2];
+      }
+      data[offset + 3] = 255;
+    }
+
+    return { width, height, color, mask };
+  } finally {
+    cutoutImg.close();
+    originalImg.close();
+  }
+}
+
+/**
+ * Put the edited mask back together with the colors into a transparent cutout (PNG)
+ */
+export async function composeMaskedCutout(layers: MaskLayers): Promise<Blob> {
+  const { width, height, color, mask } = layers;
+  const imageData = new ImageData(new Uint8ClampedArray(color.data), width, height);
+  for (let i = 0; i < mask.length; i++) {
+    imageData.data[i * 4 + 3] = mask[i];
+  }
+
+  const canvas = createCanvas(width, height);
+  getContext(canvas).putImageData(imageData, 0, 0);
+  return encodeCanvas(canvas, LOSSLESS_OUTPUT, true);
+}
+
+/**
+ * The mark itself (logo or text) on its own canvas, sized for an image of the given size
+ */
+async function renderWatermarkMark(watermark: WatermarkSpec, width: number, height: number): Promise<AnyCanvas> {
+  if (watermark.type === 'image') {
+    const logo = await loadBitmap(watermark.file, 'Filigran görüntüsü yüklenemedi');
+    try {
+      // Fitted into scale x image size, keeping the logo's aspect ratio
+      const fit = Math.min((width * watermark.scale) / logo.width, (height * watermark.scale) / logo.height);
+      const mark = createCanvas(Math.max(1, Math.round(logo.width * fit)), Math.max(1, Math.round(logo.height * fit)));
+      getContext(mark).drawImage(logo, 0, 0, mark.width, mark.height);
+      return mark;
+    } finally {
+      logo.close();
+    }
+  }
+
+  const fontSize = Math.max(1, watermark.fontSize * Math.min(width, height));
+  const font = `${watermark.bold ? 'bold ' : ''}${fontSize}px ${watermark.fontFamily}`;
+  const strokeWidth = watermark.strokeWidth * fontSize;
+  const measureCtx = getContext(createCanvas(1, 1));
+  measureCtx.font = font;
+  const textWidth = measureCtx.measureText(watermark.text).width;
+
+  const mark = createCanvas(
+    Math.max(1, Math.ceil(textWidth + strokeWidth * 2)),
+    Math.ceil(fontSize * 1.3 + strokeWidth * 2)
+  );
+  const ctx = getContext(mark);
+  ctx.font = font;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const x = mark.width / 2;
+  const y = mark.height / 2;
+  // Outline first - the fill covers its inner half
+  if (strokeWidth > 0) {
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = strokeWidth * 2;
+    ctx.strokeStyle = watermark.strokeColor;
+    ctx.strokeText(watermark.text, x, y);
+  }
+  ctx.fillStyle = watermark.color;
+  ctx.fillText(watermark.text, x, y);
+  return mark;
+}
+
+// Horizontal and vertical position of each anchor (0 = left/top edge, 1 = right/bottom edge)
+const ANCHOR_POSITIONS: Record<WatermarkAnchor, [number, number]> = {
+  'top-left': [0, 0],
+  top: [0.5, 0],
+  'top-right': [1, 0],
+  left: [0, 0.5],
+  center: [0.5, 0.5],
+  right: [1, 0.5],
+  'bottom-left': [0, 1],
+  bottom: [0.5, 1],
+  'bottom-right': [1, 1],
+};
+
+/**
+ * Center of a single mark at its anchor (box = the rotated mark's bounding box)
+ */
+function getWatermarkCenter(
+  anchor: WatermarkAnchor,
+  width: number,
+  height: number,
+  box: ImageDimensions,
+  margin: number
+): { x: number; y: number } {
+  const [horizontal, vertical] = ANCHOR_POSITIONS[anchor];
+  return {
+    x: margin + box.width / 2 + horizontal * (width - 2 * margin - box.width),
+    y: margin + box.height / 2 + vertical * (height - 2 * margin - box.height),
+  };
+}
+
+/**
+ * Draw a watermark over a canvas: one anchored mark, a grid or a diagonal pattern
+ */
+async function paintWatermark(
+  ctx: AnyCanvasContext,
+  watermark: WatermarkSpec,
+  width: number,
+  height: number
+): Promise<void> {
+  const mark = await renderWatermarkMark(watermark, width, height);
+  const rotation = (watermark.rotation * Math.PI) / 180;
+  const box = {
+    width: Math.abs(mark.width * Math.cos(rotation)) + Math.abs(mark.height * Math.sin(rotation)),
+    height: Math.abs(mark.width * Math.sin(rotation)) + Math.abs(mark.height * Math.cos(rotation)),
+  };
+
+  const drawMark = (x: number, y: number) => {
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.rotate(rotation);
+    ctx.drawImage(mark, -mark.width / 2, -mark.height / 2);
+    ctx.restore();
+  };
+
+  ctx.save();
+  ctx.globalAlpha = watermark.opacity;
+  ctx.globalCompositeOperation = WATERMARK_COMPOSITE_OPERATIONS[watermark.blendMode];
+
+  if (watermark.layout === 'single') {
+    const { x, y } = getWatermarkCenter(watermark.anchor, width, height, box, watermark.margin * Math.min(width, height));
+    drawMark(x, y);
+  } else {
+    const stepX = box.width * (1 + watermark.spacing);
+    const stepY = box.height * (1 + watermark.spacing);
+    // The diagonal grid is drawn in a frame turned by 45° - it has to cover the image's diagonal
+    const diagonal = watermark.layout === 'diagonal';
+    const extent = diagonal ? Math.hypot(width, height) : Math.max(width, height);
+    const columns = Math.ceil(extent / 2 / stepX) + 1;
+    const rows = Math.ceil(extent / 2 / stepY) + 1;
+
+    ctx.translate(width / 2, height / 2);
+    if (diagonal) ctx.rotate(-Math.PI / 4);
+    for (let row = -rows; row <= rows; row++) {
+      const offset = diagonal && row % 2 !== 0 ? stepX / 2 : 0;
+      for (let column = -columns; column <= columns; column++) {
+        drawMark(column * stepX + offset, row * stepY);
+      }
+    }
+  }
+
+  ctx.restore();
+}
+
+/**
+ * Add a watermark (logo or text, single or repeated) to an image
+ * @param imageBlob - Image blob to add watermark to
+ * @param watermark - Mark and placement
+ * @param output - File format (JPEG by default) - transparency of the image is kept if it allows
+ * @returns Image with watermark
+ */
+export async function addWatermark(
+  imageBlob: Blob,
+  watermark: WatermarkSpec,
+  output: OutputSettings = DEFAULT_OUTPUT
+): Promise<Blob> {
+  const img = await loadBitmap(imageBlob, 'Ana görüntü yüklenemedi');
+
+  try {
+    const canvas = bitmapToCanvas(img);
+    await paintWatermark(getContext(canvas), watermark, img.width, img.height);
+
+    const blob = await encodeCanvas(canvas, output, supportsTransparency(output.format));
+    console.log(`[ImageProcessor] Watermark added (${watermark.type}, ${watermark.layout})`);
+    return blob;
+  } finally {
+    img.close();
+  }
+}
+
+/**
+ * Operations callable through the worker pool, by name
+ */
+export const imageOperations = {
+  applyWhiteBackground,
+  applyBackground,
+  resizeImage,
+  composeImage,
+  getImageDimensions,
+  normalizeOrientation,
+  convertColorProfile,
+  embedForensicMark,
+  readForensicMark,
+  createWorkingCopy,
+  measureEdgeWhiteness,
+  loadMaskLayers,
+  composeMaskedCutout,
+  detectOutputFormats,
+  encodeToSize,
+  addWatermark,
+};
+
+export type ImageOperations = typeof imageOperations;
+export type ImageOperationName = keyof ImageOperations;
+export type ImageOperationResult<K extends ImageOperationName> = Awaited<ReturnType<ImageOperations[K]>>;
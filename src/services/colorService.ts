@@ -0,0 +1,160 @@
+/**
+ * Color Service
+ * ICC color management around the sRGB pipeline:
+ * uploads with another embedded profile (Display P3 from phones, Adobe RGB from cameras)
+ * are converted to sRGB before anything reads their pixels, and JPEG/PNG exports are
+ * converted to the chosen output profile and tagged with it.
+ * Implements Singleton pattern like the other services
+ */
+
+import type { InputFormat } from '../types/image';
+import type { OutputFormat, RenderedImage } from '../types/output';
+import type { ColorProfileId, ColorSettings, ColorTransform, IccProfile } from '../types/color';
+import {
+  BUILT_IN_PROFILES,
+  PROFILE_OUTPUT_FORMATS,
+  createColorTransform,
+  isSrgbProfile,
+  profileFromCicp,
+} from '../lib/colorProfiles';
+import {
+  buildIccProfile,
+  embedPngIccProfile,
+  extractHeifColorInfo,
+  extractPngIccProfile,
+  extractTiffIccProfile,
+  extractWebpIccProfile,
+  parseIccProfile,
+} from '../lib/iccProfile';
+import { extractIccProfile, insertIccProfile } from '../lib/jpegMetadata';
+import { OUTPUT_FORMAT_MIME } from '../lib/outputFormat';
+
+// APP2 headers (JPEG) or chunk framing (PNG) around the profile itself
+const EMBED_FRAMING_BYTES = 64;
+
+export interface InputConversion {
+  profile: IccProfile; // The embedded profile, for display
+  transform: ColorTransform; // Embedded profile -> sRGB
+}
+
+class ColorService {
+  private static instance: ColorService;
+  private outputTransforms = new Map<ColorProfileId, ColorTransform>();
+
+  private constructor() {}
+
+  public static getInstance(): ColorService {
+    if (!ColorService.instance) {
+      ColorService.instance = new ColorService();
+    }
+    return ColorService.instance;
+  }
+
+  /**
+   * Conversion an upload needs before processing - null when it has no profile or an sRGB one
+   * Profiles that cannot be converted here (LUT-based, CMYK) are left to the browser's decoder
+   * HEIC and TIFF are converted while their working copy is made - BMP/AVIF are left to the browser
+   */
+  public async getInputConversion(bytes: Uint8Array, format: InputFormat, fileName: string): Promise<InputConversion | null> {
+    try {
+      const profile = await this.readInputProfile(bytes, format);
+      if (profile === undefined) return null;
+      if (!profile) {
+        console.warn(`[ColorService] ${fileName}: unsupported color profile, left to the browser`);
+        return null;
+      }
+      if (isSrgbProfile(profile)) return null;
+
+      return { profile, transform: createColorTransform(profile, 'srgb') };
+    } catch (error) {
+      console.error(`[ColorService] Could not read the ICC profile of ${fileName}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Embedded profile of an upload - undefined when it has none, null when it cannot be converted
+   */
+  private async readInputProfile(bytes: Uint8Array, format: InputFormat): Promise<IccProfile | null | undefined> {
+    if (format === 'heic') {
+      const color = extractHeifColorInfo(bytes);
+      if (!color) return undefined;
+      return 'icc' in color ? parseIccProfile(color.icc) : profileFromCicp(color.primaries, color.transfer);
+    }
+
+    const icc =
+      format === 'jpeg'
+        ? extractIccProfile(bytes)
+        : format === 'png'
+          ? await extractPngIccProfile(bytes)
+          : format === 'webp'
+            ? extractWebpIccProfile(bytes)
+            : format === 'tiff'
+              ? extractTiffIccProfile(bytes)
+              : null;
+    return icc ? parseIccProfile(icc) : undefined;
+  }
+
+  /**
+   * Profile written into an export - null when the file stays untagged sRGB
+   * Only JPEG and PNG are converted and tagged, other formats always stay sRGB
+   */
+  public getOutputProfile(settings: ColorSettings, format: OutputFormat): ColorProfileId | null {
+    if (!PROFILE_OUTPUT_FORMATS.includes(format)) return null;
+    if (settings.outputProfile === 'srgb' && !settings.embedProfile) return null;
+    return settings.outputProfile;
+  }
+
+  /**
+   * Pixel conversion from the sRGB pipeline to an output profile - none for sRGB
+   */
+  public getOutputTransform(profileId: ColorProfileId | null): ColorTransform | undefined {
+    if (!profileId || profileId === 'srgb') return undefined;
+
+    let transform = this.outputTransforms.get(profileId);
+    if (!transform) {
+      transform = createColorTransform(BUILT_IN_PROFILES.srgb, profileId);
+      this.outputTransforms.set(profileId, transform);
+    }
+    return transform;
+  }
+
+  /**
+   * Bytes the embedded profile adds to a file - kept free in byte budgets
+   */
+  public getEmbedOverhead(profileId: ColorProfileId | null): number {
+    return profileId ? buildIccProfile(profileId).length + EMBED_FRAMING_BYTES : 0;
+  }
+
+  /**
+   * Tag a rendered JPEG/PNG with the output profile - other files pass through
+   * A compression report is updated to the final size
+   */
+  public async embed(rendered: RenderedImage, profileId: ColorProfileId | null): Promise<RenderedImage> {
+    const { blob, compression } = rendered;
+    if (!profileId) return rendered;
+
+    const icc = buildIccProfile(profileId);
+    let bytes: Uint8Array;
+    if (blob.type === OUTPUT_FORMAT_MIME.jpeg) {
+      bytes = insertIccProfile(new Uint8Array(await blob.arrayBuffer()), icc);
+    } else if (blob.type === OUTPUT_FORMAT_MIME.png) {
+      bytes = await embedPngIccProfile(new Uint8Array(await blob.arrayBuffer()), icc, BUILT_IN_PROFILES[profileId].description);
+    } else {
+      return rendered;
+    }
+
+    const result = new Blob([bytes as BlobPart], { type: blob.type });
+    return {
+      blob: result,
+      compression: compression && {
+        ...compression,
+        bytes: result.size,
+        withinBudget: result.size <= compression.targetBytes,
+      },
+    };
+  }
+}
+
+// Export singleton instance
+export const colorService = ColorService.getInstance();
@@ -0,0 +1,208 @@
+/**
+ * Credit Tracker Service
+ * Keeps track of Photoroom credit usage (this session, today, per upload batch)
+ * and enforces the configured spending caps before a request is sent.
+ * Today's usage and the caps live in localStorage so a reload does not reset them.
+ * Implements Singleton pattern like the other services
+ */
+
+const USAGE_STORAGE_KEY = 'photo-automation:credit-usage';
+const LIMITS_STORAGE_KEY = 'photo-automation:credit-limits';
+
+export interface CreditLimits {
+  perBatch: number | null; // Max credits for one upload (drop) - null = unlimited
+  perDay: number | null; // Max credits per calendar day - null = unlimited
+}
+
+export interface CreditUsage {
+  remaining: number | null; // Last X-Credits-Remaining seen (null until the first request)
+  usedThisSession: number;
+  usedToday: number;
+  limits: CreditLimits;
+}
+
+/**
+ * Thrown when a request would go over a spending cap
+ */
+export class CreditLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CreditLimitError';
+  }
+}
+
+/**
+ * A credit set aside for one in-flight request
+ * Parallel requests reserve first, so they cannot overshoot a cap together
+ */
+export interface CreditReservation {
+  commit: (remaining?: number) => void; // Request was billed
+  release: () => void; // Request failed or was cancelled - no-op after commit
+}
+
+const todayKey = (): string => {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+};
+
+const readStorage = <T>(key: string): T | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeStorage = (key: string, value: unknown): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn('[CreditTracker] Could not persist credit data:', error);
+  }
+};
+
+class CreditTracker {
+  private static instance: CreditTracker;
+  private remaining: number | null = null;
+  private usedThisSession = 0;
+  private daily: { date: string; used: number };
+  private limits: CreditLimits;
+  private batchUsage = new Map<string, number>();
+  private reservedToday = 0;
+  private reservedByBatch = new Map<string, number>();
+  private listeners = new Set<() => void>();
+  private snapshot: CreditUsage;
+
+  private constructor() {
+    const storedDaily = readStorage<{ date: string; used: number }>(USAGE_STORAGE_KEY);
+    this.daily = storedDaily?.date === todayKey() ? storedDaily : { date: todayKey(), used: 0 };
+    this.limits = readStorage<CreditLimits>(LIMITS_STORAGE_KEY) ?? { perBatch: null, perDay: null };
+    this.snapshot = this.createSnapshot();
+  }
+
+  public static getInstance(): CreditTracker {
+    if (!CreditTracker.instance) {
+      CreditTracker.instance = new CreditTracker();
+    }
+    return CreditTracker.instance;
+  }
+
+  /**
+   * Current usage - same object until something changes (for useSyncExternalStore)
+   */
+  public getUsage = (): CreditUsage => this.snapshot;
+
+  public subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  public setLimits(limits: Partial<CreditLimits>): void {
+    this.limits = { ...this.limits, ...limits };
+    writeStorage(LIMITS_STORAGE_KEY, this.limits);
+    console.log('[CreditTracker] Limits updated:', this.limits);
+    this.emit();
+  }
+
+  /**
+   * Remember the balance reported by the API
+   */
+  public setRemaining(remaining: number): void {
+    if (this.remaining === remaining) return;
+    this.remaining = remaining;
+    this.emit();
+  }
+
+  /**
+   * Reserve one credit for a request
+   * @throws CreditLimitError when the daily or batch cap is reached
+   */
+  public reserve(batchId?: string): CreditReservation {
+    if (this.daily.date !== todayKey()) {
+      this.rollOverDay();
+    }
+
+    const { perDay, perBatch } = this.limits;
+    const todayTotal = this.daily.used + this.reservedToday;
+    if (perDay !== null && todayTotal >= perDay) {
+      throw new CreditLimitError(
+        `Günlük Photoroom kredi limitine ulaşıldı (${this.daily.used}/${perDay}). Limit kredi panelinden değiştirilebilir.`
+      );
+    }
+
+    if (batchId && perBatch !== null) {
+      const batchTotal = (this.batchUsage.get(batchId) ?? 0) + (this.reservedByBatch.get(batchId) ?? 0);
+      if (batchTotal >= perBatch) {
+        throw new CreditLimitError(
+          `Bu yükleme için Photoroom kredi limitine ulaşıldı (${this.batchUsage.get(batchId) ?? 0}/${perBatch}).`
+        );
+      }
+    }
+
+    this.reservedToday++;
+    if (batchId) {
+      this.reservedByBatch.set(batchId, (this.reservedByBatch.get(batchId) ?? 0) + 1);
+    }
+
+    let settled = false;
+    const unreserve = () => {
+      settled = true;
+      this.reservedToday--;
+      if (batchId) {
+        this.reservedByBatch.set(batchId, (this.reservedByBatch.get(batchId) ?? 1) - 1);
+      }
+    };
+
+    return {
+      commit: (remaining?: number) => {
+        if (settled) return;
+        unreserve();
+        this.recordUsage(batchId, remaining);
+      },
+      release: () => {
+        if (settled) return;
+        unreserve();
+      },
+    };
+  }
+
+  private recordUsage(batchId?: string, remaining?: number): void {
+    this.usedThisSession++;
+    this.daily = { date: this.daily.date, used: this.daily.used + 1 };
+    writeStorage(USAGE_STORAGE_KEY, this.daily);
+
+    if (batchId) {
+      this.batchUsage.set(batchId, (this.batchUsage.get(batchId) ?? 0) + 1);
+    }
+    if (remaining !== undefined) {
+      this.remaining = remaining;
+    }
+    this.emit();
+  }
+
+  private rollOverDay(): void {
+    this.daily = { date: todayKey(), used: 0 };
+    writeStorage(USAGE_STORAGE_KEY, this.daily);
+    this.emit();
+  }
+
+  private createSnapshot(): CreditUsage {
+    return {
+      remaining: this.remaining,
+      usedThisSession: this.usedThisSession,
+      usedToday: this.daily.used,
+      limits: { ...this.limits },
+    };
+  }
+
+  private emit(): void {
+    this.snapshot = this.createSnapshot();
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// Export singleton instance
+export const creditTracker = CreditTracker.getInstance();
@@ -0,0 +1,309 @@
+/**
+ * Export Service
+ * Derives previews and downloads from the stored transparent cutouts.
+ * Shared by the store (preview), ComparisonView (single download) and BulkActions (ZIP)
+ * so every output goes through the same ImageProcessor pipeline.
+ * Implements Singleton pattern like the other services
+ */
+
+import JSZip from 'jszip';
+import type { ImageObject, SubjectFit } from '../types/image';
+import type { ProviderId } from '../types/provider';
+import type { BackgroundSpec } from '../types/background';
+import type { ShadowSpec } from '../types/shadow';
+import type { CropSpec } from '../types/crop';
+import type { CompressionReport, OutputSettings, RenderedImage } from '../types/output';
+import type { SizeVariant, VariantProfile } from '../types/variant';
+import type { MetadataPolicy } from '../types/metadata';
+import type { ColorSettings, ColorTransform } from '../types/color';
+import type { ForensicPayload, ForensicSettings } from '../types/forensic';
+import { imageProcessor } from './imageProcessor';
+import { metadataService } from './metadataService';
+import { colorService } from './colorService';
+import { forensicService } from './forensicService';
+import { LOSSLESS_OUTPUT, PREVIEW_OUTPUT, TRANSPARENT_PREVIEW_OUTPUT, getFileExtension } from '../lib/outputFormat';
+import { getVariantDimensions } from '../lib/variants';
+
+/**
+ * Global output settings - images may override parts of them
+ */
+export interface ExportSettings {
+  background: BackgroundSpec; // Used unless the image has its own
+  shadow: ShadowSpec; // Same - image.shadow wins
+  crop: CropSpec; // Same - image.crop wins
+  subjectFit: SubjectFit; // Same - image.subjectFit wins (resizeMode 'subject' only)
+  output: OutputSettings; // Same - image.output wins (set by marketplace presets)
+  variants: VariantProfile; // Bulk downloads only - every image in every listed size
+  metadata: MetadataPolicy; // EXIF/IPTC/XMP of exported JPEGs
+  color: ColorSettings; // Output ICC profile of exported JPEGs/PNGs
+  forensic: ForensicSettings; // Invisible trace mark in every export
+}
+
+/**
+ * One rendered output file, ready to be checked and zipped
+ */
+export interface RenderedFile {
+  image: ImageObject;
+  providerId: ProviderId;
+  fileName: string;
+  blob: Blob;
+  compression?: CompressionReport; // Only with a byte budget
+  variant?: SizeVariant; // Only when the variant profile is on
+  forensicMark?: ForensicPayload; // Only when the mark survived the export
+}
+
+class ExportService {
+  private static instance: ExportService;
+
+  private constructor() {}
+
+  public static getInstance(): ExportService {
+    if (!ExportService.instance) {
+      ExportService.instance = new ExportService();
+    }
+    return ExportService.instance;
+  }
+
+  public resolveBackground(image: ImageObject, settings: ExportSettings): BackgroundSpec {
+    return image.background ?? settings.background;
+  }
+
+  public resolveShadow(image: ImageObject, settings: ExportSettings): ShadowSpec {
+    return image.shadow ?? settings.shadow;
+  }
+
+  public resolveCrop(image: ImageObject, settings: ExportSettings): CropSpec {
+    return image.crop ?? settings.crop;
+  }
+
+  public resolveSubjectFit(image: ImageObject, settings: ExportSettings): SubjectFit {
+    return image.subjectFit ?? settings.subjectFit;
+  }
+
+  public resolveOutput(image: ImageObject, settings: ExportSettings): OutputSettings {
+    return image.output ?? settings.output;
+  }
+
+  /**
+   * Preview shown in the comparison view - original size, no resize
+   * Always JPEG, or PNG when the background is transparent - the output format only matters for files
+   */
+  public async renderPreview(image: ImageObject, cutout: Blob, settings: ExportSettings): Promise<Blob> {
+    const background = this.resolveBackground(image, settings);
+    return imageProcessor.processImage(cutout, {
+      background,
+      output: background.type === 'transparent' ? TRANSPARENT_PREVIEW_OUTPUT : PREVIEW_OUTPUT,
+      shadow: this.resolveShadow(image, settings),
+      crop: this.resolveCrop(image, settings),
+      watermark: image.watermark,
+    });
+  }
+
+  /**
+   * Final output of one provider with the image's export settings, metadata policy, output profile
+   * and forensic mark (returned with the file - the caller logs it once the download went through)
+   * The byte budget leaves room for the metadata and the ICC profile written afterwards
+   */
+  public async renderResult(
+    image: ImageObject,
+    providerId: ProviderId,
+    settings: ExportSettings
+  ): Promise<RenderedImage> {
+    const output = this.resolveOutput(image, settings);
+    const profileId = colorService.getOutputProfile(settings.color, output.format);
+    const segments = await metadataService.getSegments(image.originalFile, settings.metadata);
+    const overhead =
+      (output.format === 'jpeg' ? segments.reduce((sum, segment) => sum + segment.length, 0) : 0) +
+      colorService.getEmbedOverhead(profileId);
+    const budget = output.maxBytes && overhead ? Math.max(1, output.maxBytes - overhead) : output.maxBytes;
+    const forensicMark = forensicService.getPayload(image, settings.forensic);
+
+    const rendered = await this.renderPixels(
+      image,
+      providerId,
+      settings,
+      { ...output, maxBytes: budget },
+      colorService.getOutputTransform(profileId),
+      forensicMark ?? undefined
+    );
+    const carriedMark = forensicMark && (await this.carriesMark(rendered.blob, forensicMark)) ? forensicMark : undefined;
+    const embedded = {
+      ...(await colorService.embed(await metadataService.embed(rendered, segments), profileId)),
+      forensicMark: carriedMark,
+    };
+    // Report against the real budget, not the one reduced for the metadata
+    return embedded.compression && output.maxBytes
+      ? {
+          ...embedded,
+          compression: {
+            ...embedded.compression,
+            targetBytes: output.maxBytes,
+            withinBudget: embedded.compression.bytes <= output.maxBytes,
+          },
+        }
+      : embedded;
+  }
+
+  /**
+   * Encoded image of one provider, without metadata or ICC profile
+   * Results saved before cutouts were kept only have the flattened preview - it is resized as is
+   * (no mask left to derive a shadow from)
+   */
+  private async renderPixels(
+    image: ImageObject,
+    providerId: ProviderId,
+    settings: ExportSettings,
+    output: OutputSettings,
+    colorTransform?: ColorTransform,
+    forensicMark?: ForensicPayload
+  ): Promise<RenderedImage> {
+    const result = image.results[providerId];
+    const dimensions = { width: image.dimensions.width, height: image.dimensions.height };
+    const resizeMode = image.resizeMode || 'fit';
+    const background = this.resolveBackground(image, settings);
+
+    if (result?.cutout) {
+      return imageProcessor.renderImage(result.cutout, {
+        dimensions,
+        resizeMode,
+        background,
+        shadow: this.resolveShadow(image, settings),
+        crop: this.resolveCrop(image, settings),
+        subjectFit: this.resolveSubjectFit(image, settings),
+        watermark: image.watermark,
+        colorTransform,
+        forensicMark,
+        output,
+      });
+    }
+    if (result?.blob) {
+      const lossless = !!output.maxBytes || !!colorTransform || !!forensicMark;
+      let blob = await imageProcessor.resizeImage(
+        result.blob,
+        dimensions,
+        resizeMode,
+        background,
+        lossless ? LOSSLESS_OUTPUT : output
+      );
+      if (colorTransform) {
+        blob = await imageProcessor.convertColorProfile(
+          blob,
+          colorTransform,
+          output.maxBytes || forensicMark ? LOSSLESS_OUTPUT : output
+        );
+      }
+      if (forensicMark) {
+        blob = await imageProcessor.embedForensicMark(blob, forensicMark, output.maxBytes ? LOSSLESS_OUTPUT : output);
+      }
+      return output.maxBytes ? imageProcessor.encodeToSize(blob, output, false, forensicMark) : { blob };
+    }
+    throw new Error(`${providerId} sonucu bulunamadı`);
+  }
+
+  /**
+   * Whether the mark can still be read from the encoded file - only those exports are logged
+   * (a low quality or a tiny image can leave too few blocks to read it)
+   */
+  private async carriesMark(blob: Blob, forensicMark: ForensicPayload): Promise<boolean> {
+    try {
+      const { payload } = await imageProcessor.readForensicMark(blob);
+      if (payload?.batchCode === forensicMark.batchCode && payload.date === forensicMark.date) return true;
+    } catch (error) {
+      console.error('[ExportService] Could not read the forensic mark back:', error);
+    }
+    console.warn('[ExportService] Forensic mark did not survive the export - not logged');
+    return false;
+  }
+
+  public hasResult(image: ImageObject, providerId: ProviderId): boolean {
+    const result = image.results[providerId];
+    return !!(result?.cutout || result?.blob);
+  }
+
+  /**
+   * File name with the extension of the rendered blob - the format may have fallen back
+   * Variants get a suffix or a folder (ZIP path) depending on the profile's naming
+   */
+  public getFileName(
+    image: ImageObject,
+    providerId: ProviderId,
+    blob: Blob,
+    variant?: SizeVariant,
+    profile?: VariantProfile
+  ): string {
+    const extension = getFileExtension(blob.type);
+    if (!variant) return `${image.newName}_${providerId}.${extension}`;
+    return profile?.naming === 'folder'
+      ? `${variant.name}/${image.newName}_${providerId}.${extension}`
+      : `${image.newName}_${providerId}_${variant.name}.${extension}`;
+  }
+
+  /**
+   * Render every result of the given providers (zipped with zipFiles after validation)
+   * With the variant profile on, each result is rendered once per size variant
+   * Failed images are skipped (and counted) so one bad file does not stop the batch
+   */
+  public async renderFiles(
+    images: ImageObject[],
+    providerIds: ProviderId[],
+    settings: ExportSettings
+  ): Promise<{ files: RenderedFile[]; failedCount: number }> {
+    const files: RenderedFile[] = [];
+    let failedCount = 0;
+    const profile = settings.variants;
+    const variants: (SizeVariant | undefined)[] =
+      profile.enabled && profile.variants.length > 0 ? profile.variants : [undefined];
+
+    for (const image of images) {
+      for (const providerId of providerIds) {
+        if (!this.hasResult(image, providerId)) continue;
+
+        for (const variant of variants) {
+          // Variants only change the output size - everything else comes from the image as usual
+          const target = variant ? { ...image, dimensions: getVariantDimensions(image.dimensions, variant) } : image;
+
+          try {
+            const { blob, compression, forensicMark } = await this.renderResult(target, providerId, settings);
+            files.push({
+              image,
+              providerId,
+              fileName: this.getFileName(image, providerId, blob, variant, profile),
+              blob,
+              compression,
+              variant,
+              forensicMark,
+            });
+          } catch (error) {
+            console.error(
+              `[ExportService] Error rendering image ${image.id} (${providerId}${variant ? `, ${variant.name}` : ''}):`,
+              error
+            );
+            failedCount++;
+          }
+        }
+      }
+    }
+
+    return { files, failedCount };
+  }
+
+  /**
+   * Log the forensic marks of files that left the app - call only after the download succeeded
+   */
+  public recordForensicMarks(files: Pick<RenderedFile, 'image' | 'forensicMark'>[]): void {
+    files.forEach(({ image, forensicMark }) => {
+      if (forensicMark) forensicService.record(forensicMark, image.newName);
+    });
+  }
+
+  public async zipFiles(files: RenderedFile[]): Promise<Blob> {
+    const zip = new JSZip();
+    files.forEach((file) => zip.file(file.fileName, file.blob));
+
+    console.log(`[ExportService] Creating zip with ${files.length} images...`);
+    return zip.generateAsync({ type: 'blob' });
+  }
+}
+
+// Export singleton instance
+export const exportService = ExportService.getInstance();
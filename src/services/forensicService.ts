@@ -0,0 +1,123 @@
+/**
+ * Forensic Service
+ * Invisible trace mark of exported images: builds the payload of an export (batch code + day),
+ * logs which files this browser exported under which code, and verifies suspect images against that log.
+ * The log lives in localStorage so a leaked file can still be traced after the session is gone.
+ * Implements Singleton pattern like the other services
+ */
+
+import type { ImageObject } from '../types/image';
+import type { ForensicPayload, ForensicSettings, ForensicVerification } from '../types/forensic';
+import { hashBatchId } from '../lib/forensicMark';
+import { imageProcessor } from './imageProcessor';
+
+const LOG_STORAGE_KEY = 'photo-automation:forensic-log';
+const MAX_LOGGED_BATCHES = 500; // Oldest export days are dropped first
+const MAX_LOGGED_FILES = 50; // Per batch and day
+
+interface ForensicLogEntry {
+  batchCode: number;
+  date: string;
+  files: string[];
+}
+
+const todayKey = (): string => {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+};
+
+const logKey = ({ batchCode, date }: ForensicPayload): string => `${batchCode}@${date}`;
+
+const readStorage = <T>(key: string): T | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeStorage = (key: string, value: unknown): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn('[ForensicService] Could not persist the export log:', error);
+  }
+};
+
+class ForensicService {
+  private static instance: ForensicService;
+  private log: Record<string, ForensicLogEntry>;
+
+  private constructor() {
+    this.log = readStorage<Record<string, ForensicLogEntry>>(LOG_STORAGE_KEY) ?? {};
+  }
+
+  public static getInstance(): ForensicService {
+    if (!ForensicService.instance) {
+      ForensicService.instance = new ForensicService();
+    }
+    return ForensicService.instance;
+  }
+
+  /**
+   * Code of the batch an image was uploaded with - images saved before batches existed use their own id
+   */
+  public getBatchCode(image: ImageObject): number {
+    return hashBatchId(image.batchId ?? image.id);
+  }
+
+  /**
+   * Payload to embed into an export of the image today - null when the mark is off
+   */
+  public getPayload(image: ImageObject, settings: ForensicSettings): ForensicPayload | null {
+    return settings.enabled ? { batchCode: this.getBatchCode(image), date: todayKey() } : null;
+  }
+
+  /**
+   * Remember that a file went out with the payload
+   */
+  public record(payload: ForensicPayload, fileName: string): void {
+    const key = logKey(payload);
+    const entry = this.log[key];
+    if (entry && (entry.files.includes(fileName) || entry.files.length >= MAX_LOGGED_FILES)) return;
+
+    const updated: ForensicLogEntry = { ...payload, files: [...(entry?.files ?? []), fileName] };
+    const entries = Object.entries({ ...this.log, [key]: updated })
+      .sort(([, a], [, b]) => b.date.localeCompare(a.date))
+      .slice(0, MAX_LOGGED_BATCHES);
+    this.log = Object.fromEntries(entries);
+    writeStorage(LOG_STORAGE_KEY, this.log);
+  }
+
+  /**
+   * Read the mark of a suspect image and look its batch up in the log and the open session
+   */
+  public async verify(file: File, images: ImageObject[]): Promise<ForensicVerification> {
+    const reading = await imageProcessor.readForensicMark(file);
+    const { payload } = reading;
+    if (!payload) {
+      console.log(`[ForensicService] No mark found in ${file.name} (confidence ${reading.confidence.toFixed(2)})`);
+      return { ...reading, logged: false, knownFiles: [] };
+    }
+
+    const entry = this.log[logKey(payload)];
+    const sessionFiles = images
+      .filter((image) => this.getBatchCode(image) === payload.batchCode)
+      .map((image) => image.newName);
+    console.log(
+      `[ForensicService] ${file.name}: batch ${payload.batchCode.toString(16)}, ${payload.date}${entry ? ' (logged)' : ''}`
+    );
+
+    return {
+      ...reading,
+      logged: !!entry,
+      knownFiles: [...new Set([...(entry?.files ?? []), ...sessionFiles])],
+    };
+  }
+}
+
+// Export singleton instance
+export const forensicService = ForensicService.getInstance();
@@ -0,0 +1,120 @@
+/**
+ * Image Decoders
+ * HEIC (libheif, WASM) and TIFF (UTIF) decoding for uploads the browser cannot open itself.
+ * Both libraries are bundled with the app and loaded on first use - wherever canvasOperations
+ * runs (worker pool or main thread). Unsupported variants fail with a message naming the reason.
+ */
+
+import type { HeifDecoder, LibHeif } from 'libheif-js/libheif-wasm/libheif-bundle.mjs';
+import { ConcurrencyLimiter } from '../lib/concurrency';
+
+export interface DecodedPixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA, raw values of the file's color space
+  orientation: number; // EXIF-style 1-8 still to apply - 1 when the decoder already did
+}
+
+// TIFF compression schemes UTIF can decode (None, CCITT G3/G4, LZW, old/new JPEG, Deflate, PackBits, Thunderscan)
+const TIFF_COMPRESSIONS = [1, 3, 4, 5, 6, 7, 8, 32773, 32809];
+// Photometric interpretations UTIF converts to RGBA (WhiteIsZero, BlackIsZero, RGB, Palette, CMYK)
+const TIFF_PHOTOMETRICS = [0, 1, 2, 3, 5];
+const TIFF_JPEG_COMPRESSIONS = [6, 7]; // Decoded to RGB whatever the photometric tag says
+
+let libheifPromise: Promise<LibHeif> | null = null;
+let heifDecoder: HeifDecoder | null = null;
+// A decoder frees its previous file on every decode - one HEIC at a time per context
+const heicLimiter = new ConcurrencyLimiter(1);
+
+function loadLibHeif(): Promise<LibHeif> {
+  libheifPromise ??= import('libheif-js/libheif-wasm/libheif-bundle.mjs')
+    .then(
+      ({ default: createLibHeif }) =>
+        new Promise<LibHeif>((resolve) => {
+          createLibHeif({
+            onRuntimeInitialized() {
+              resolve(this);
+            },
+          });
+        })
+    )
+    .catch((error) => {
+      libheifPromise = null;
+      console.error('[ImageDecoders] libheif could not be loaded:', error);
+      throw new Error('HEIC çözücü yüklenemedi');
+    });
+  return libheifPromise;
+}
+
+/**
+ * Primary image of a HEIC/HEIF file (rotation/mirroring from the file already applied)
+ */
+export async function decodeHeic(bytes: Uint8Array): Promise<DecodedPixels> {
+  const libheif = await loadLibHeif();
+
+  return heicLimiter.run(async () => {
+    heifDecoder ??= new libheif.HeifDecoder();
+    const images = heifDecoder.decode(bytes);
+    if (images.length === 0) {
+      throw new Error('HEIC dosyası okunamadı - bozuk veya desteklenmeyen bir HEIF türü');
+    }
+
+    try {
+      const image = images.find((item) => item.is_primary()) ?? images[0];
+      const width = image.get_width();
+      const height = image.get_height();
+
+      return await new Promise<DecodedPixels>((resolve, reject) => {
+        image.display({ data: new Uint8ClampedArray(width * height * 4), width, height }, (result) => {
+          if (result) {
+            resolve({ ...result, orientation: 1 });
+          } else {
+            reject(new Error('HEIC görüntüsü çözülemedi - desteklenmeyen kodlama (ör. 10-bit veya yardımcı görüntü)'));
+          }
+        });
+      });
+    } finally {
+      images.forEach((item) => item.free());
+    }
+  });
+}
+
+/**
+ * First page of a TIFF file
+ */
+export async function decodeTiff(bytes: Uint8Array): Promise<DecodedPixels> {
+  const UTIF = await import('utif');
+  const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+  let ifd;
+  try {
+    ifd = UTIF.decode(buffer)[0];
+  } catch {
+    throw new Error('TIFF dosyası okunamadı - bozuk dosya');
+  }
+  if (!ifd) throw new Error('TIFF dosyasında görüntü yok');
+
+  const compression = (ifd.t259 as number[] | undefined)?.[0] ?? 1;
+  const photometric = (ifd.t262 as number[] | undefined)?.[0] ?? 2;
+  if (!TIFF_COMPRESSIONS.includes(compression)) {
+    throw new Error(`TIFF sıkıştırması desteklenmiyor (kod ${compression}) - dosyayı LZW veya sıkıştırmasız kaydedin`);
+  }
+  if (!TIFF_PHOTOMETRICS.includes(photometric) && !TIFF_JPEG_COMPRESSIONS.includes(compression)) {
+    throw new Error(`TIFF renk düzeni desteklenmiyor (kod ${photometric}) - RGB, gri tonlama veya CMYK olmalı`);
+  }
+
+  try {
+    UTIF.decodeImage(buffer, ifd);
+  } catch {
+    throw new Error('TIFF görüntüsü çözülemedi');
+  }
+  if (!ifd.width || !ifd.height) throw new Error('TIFF görüntüsü çözülemedi');
+
+  const orientation = (ifd.t274 as number[] | undefined)?.[0] ?? 1;
+  return {
+    width: ifd.width,
+    height: ifd.height,
+    data: new Uint8ClampedArray(UTIF.toRGBA8(ifd).buffer),
+    orientation: orientation >= 1 && orientation <= 8 ? orientation : 1,
+  };
+}
@@ -1,128 +1,107 @@
 /**
  * Image Processor Service
  * Handles canvas operations for:
- * 1. White background injection (replacing transparency)
+ * 1. Background injection (color, gradient or image - replacing transparency)
+ *    with optional synthetic shadows/reflections from the alpha mask
+ *    and an optional crop to the subject's bounding box
  * 2. High-quality image resizing with aspect ratio control
- * 3. Watermark application
+ * 3. Watermark application (logo or text, anchored, tiled or diagonal)
+ * 4. Conversion to the output color profile (Display P3, Adobe RGB)
+ * 5. Invisible forensic mark (batch code + export day) and reading it back from a suspect image
+ * 6. Encoding in the chosen output format (JPEG/PNG/WebP/AVIF, with fallbacks),
+ *    optionally searched down to a byte budget
+ * It also splits cutouts into alpha mask + colors for the manual mask editor and joins them back.
+ *
+ * The work itself lives in canvasOperations and runs in a worker pool
+ * (OffscreenCanvas) when the browser supports it, on the main thread otherwise.
  */
 
-import Pica from 'pica';
-import type { ResizeMode } from '../types/image';
+import type { InputFormat, ResizeMode, SubjectFit } from '../types/image';
+import type { BackgroundSpec } from '../types/background';
+import type { ShadowSpec } from '../types/shadow';
+import type { CropSpec } from '../types/crop';
+import type { OutputFormat, OutputSettings, RenderedImage } from '../types/output';
+import type { ColorTransform } from '../types/color';
+import type { ForensicPayload, ForensicReading } from '../types/forensic';
+import type { MaskLayers } from '../types/mask';
+import type { WatermarkSpec } from '../types/watermark';
+import {
+  imageOperations,
+  type ImageDimensions,
+  type ImageOperationName,
+  type ImageOperationResult,
+  type ImageOperations,
+} from './canvasOperations';
+import { imageWorkerPool } from './imageWorkerPool';
+import { LOSSLESS_OUTPUT, supportsTransparency } from '../lib/outputFormat';
+
+export type { ImageDimensions } from './canvasOperations';
 
-const pica = Pica();
-
-export interface ImageDimensions {
-  width: number;
-  height: number;
+/**
+ * Steps applied on top of a transparent cutout - everything is optional
+ */
+export interface ProcessImageOptions {
+  dimensions?: ImageDimensions; // Resize target - original size if omitted
+  resizeMode?: ResizeMode;
+  background?: BackgroundSpec; // White if omitted
+  shadow?: ShadowSpec; // No shadow if omitted
+  crop?: CropSpec; // Full frame if omitted
+  subjectFit?: SubjectFit; // Only used with resizeMode 'subject'
+  output?: OutputSettings; // JPEG if omitted
+  watermark?: WatermarkSpec; // No watermark if omitted
+  colorTransform?: ColorTransform; // Output profile conversion - stays sRGB if omitted
+  forensicMark?: ForensicPayload; // Invisible trace mark - exports only, none if omitted
 }
 
 class ImageProcessor {
+  private supportedFormats: Promise<OutputFormat[]> | null = null;
+
+  /**
+   * Run an operation off the main thread if possible
+   * Falls back to the main thread when workers are unavailable or fail to start
+   */
+  private async execute<K extends ImageOperationName>(
+    operation: K,
+    ...args: Parameters<ImageOperations[K]>
+  ): Promise<ImageOperationResult<K>> {
+    const runOnMainThread = imageOperations[operation] as unknown as (
+      ...params: Parameters<ImageOperations[K]>
+    ) => Promise<ImageOperationResult<K>>;
+
+    if (!imageWorkerPool.isSupported()) {
+      return runOnMainThread(...args);
+    }
+
+    try {
+      return await imageWorkerPool.run(operation, ...args);
+    } catch (error) {
+      // Worker could not be started at all - retry inline instead of failing the export
+      if (!imageWorkerPool.isSupported()) {
+        console.warn(`[ImageProcessor] Worker unavailable, running ${operation} on main thread`);
+        return runOnMainThread(...args);
+      }
+      throw error;
+    }
+  }
+
   /**
    * Apply white background to a transparent image
    * @param imageBlob - Transparent PNG blob from AI service
    * @returns Blob with white background
    */
   public async applyWhiteBackground(imageBlob: Blob): Promise<Blob> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      const url = URL.createObjectURL(imageBlob);
-
-      img.onload = () => {
-        try {
-          // Create canvas with image dimensions
-          const canvas = document.createElement('canvas');
-          canvas.width = img.width;
-          canvas.height = img.height;
-          const ctx = canvas.getContext('2d');
-
-          if (!ctx) {
-            throw new Error('Canvas context oluşturulamadı');
-          }
-
-          // Fill with white background
-          ctx.fillStyle = '#FFFFFF';
-          ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-          // Draw the transparent image on top
-          ctx.drawImage(img, 0, 0);
-
-          // Convert to Blob (JPEG is more efficient for non-transparent images)
-          canvas.toBlob(
-            (blob) => {
-              URL.revokeObjectURL(url);
-              if (blob) {
-                console.log('[ImageProcessor] White background applied');
-                resolve(blob);
-              } else {
-                reject(new Error('Canvas to Blob dönüşümü başarısız'));
-              }
-            },
-            'image/jpeg',
-            0.95 // High quality
-          );
-        } catch (error) {
-          URL.revokeObjectURL(url);
-          reject(error);
-        }
-      };
-
-      img.onerror = () => {
-        URL.revokeObjectURL(url);
-        reject(new Error('Görüntü yüklenemedi'));
-      };
-
-      img.src = url;
-    });
+    return this.execute('applyWhiteBackground', imageBlob);
   }
 
   /**
-   * Calculate target dimensions based on resize mode and aspect ratio
+   * Put a background (color, gradient or image) behind a transparent image
+   * @param imageBlob - Transparent PNG blob from AI service
+   * @param background - Background spec
+   * @param output - File format (JPEG by default)
+   * @returns Flattened image blob
    */
-  private calculateTargetDimensions(
-    originalWidth: number,
-    originalHeight: number,
-    targetWidth: number,
-    targetHeight: number,
-    mode: ResizeMode = 'fit'
-  ): { width: number; height: number; offsetX: number; offsetY: number } {
-    const originalRatio = originalWidth / originalHeight;
-    const targetRatio = targetWidth / targetHeight;
-
-    let width = targetWidth;
-    let height = targetHeight;
-    let offsetX = 0;
-    let offsetY = 0;
-
-    if (mode === 'stretch') {
-      // Stretch mode - use target dimensions as is (may distort)
-      return { width: targetWidth, height: targetHeight, offsetX: 0, offsetY: 0 };
-    }
-
-    if (mode === 'fit') {
-      // Fit mode - scale to fit within target dimensions, maintain aspect ratio
-      if (originalRatio > targetRatio) {
-        // Image is wider - fit to width
-        height = Math.round(targetWidth / originalRatio);
-        offsetY = Math.round((targetHeight - height) / 2);
-      } else {
-        // Image is taller - fit to height
-        width = Math.round(targetHeight * originalRatio);
-        offsetX = Math.round((targetWidth - width) / 2);
-      }
-    } else if (mode === 'fill') {
-      // Fill mode - scale to cover target dimensions, crop excess
-      if (originalRatio > targetRatio) {
-        // Image is wider - fit to height and crop sides
-        width = Math.round(targetHeight * originalRatio);
-        offsetX = Math.round((targetWidth - width) / 2);
-      } else {
-        // Image is taller - fit to width and crop top/bottom
-        height = Math.round(targetWidth / originalRatio);
-        offsetY = Math.round((targetHeight - height) / 2);
-      }
-    }
-
-    return { width, height, offsetX, offsetY };
+  public async applyBackground(imageBlob: Blob, background: BackgroundSpec, output?: OutputSettings): Promise<Blob> {
+    return this.execute('applyBackground', imageBlob, background, output);
   }
 
   /**
@@ -130,119 +109,19 @@ class ImageProcessor {
    * Supports aspect ratio preservation and different resize modes
    * @param imageBlob - Image blob to resize
    * @param dimensions - Target width and height
-   * @param mode - How to handle aspect ratio: 'fit', 'fill', or 'stretch'
+   * @param mode - How to handle aspect ratio: 'fit', 'fill', or 'stretch' ('subject' needs a cutout - treated as 'fit')
+   * @param background - Letterbox fill for 'fit' (white by default)
+   * @param output - File format (JPEG by default)
    * @returns Resized image blob
    */
   public async resizeImage(
     imageBlob: Blob,
     dimensions: ImageDimensions,
-    mode: ResizeMode = 'fit'
+    mode: ResizeMode = 'fit',
+    background?: BackgroundSpec,
+    output?: OutputSettings
   ): Promise<Blob> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      const url = URL.createObjectURL(imageBlob);
-
-      img.onload = async () => {
-        try {
-          const originalWidth = img.width;
-          const originalHeight = img.height;
-
-          // Calculate optimal dimensions based on mode
-          const calc = this.calculateTargetDimensions(
-            originalWidth,
-            originalHeight,
-            dimensions.width,
-            dimensions.height,
-            mode
-          );
-
-          // Create source canvas with original image
-          const sourceCanvas = document.createElement('canvas');
-          sourceCanvas.width = originalWidth;
-          sourceCanvas.height = originalHeight;
-          const sourceCtx = sourceCanvas.getContext('2d');
-
-          if (!sourceCtx) {
-            throw new Error('Source canvas context oluşturulamadı');
-          }
-
-          sourceCtx.drawImage(img, 0, 0);
-
-          // Create target canvas
-          const targetCanvas = document.createElement('canvas');
-          targetCanvas.width = dimensions.width;
-          targetCanvas.height = dimensions.height;
-          const targetCtx = targetCanvas.getContext('2d');
-
-          if (!targetCtx) {
-            throw new Error('Target canvas context oluşturulamadı');
-          }
-
-          // Fill with white background first (for fit mode with letterboxing)
-          if (mode === 'fit' && (calc.offsetX > 0 || calc.offsetY > 0)) {
-            targetCtx.fillStyle = '#FFFFFF';
-            targetCtx.fillRect(0, 0, dimensions.width, dimensions.height);
-          }
-
-          // Use pica for high-quality resize
-          // First resize to calculated dimensions
-          const resizedCanvas = document.createElement('canvas');
-          resizedCanvas.width = calc.width;
-          resizedCanvas.height = calc.height;
-
-          await pica.resize(sourceCanvas, resizedCanvas, {
-            quality: 3, // 0-3, 3 is highest (Lanczos3)
-            unsharpAmount: 80, // Sharpening amount
-            unsharpRadius: 0.6,
-            unsharpThreshold: 2,
-          });
-
-          // Draw resized image onto target canvas with proper positioning
-          if (mode === 'fill') {
-            // For fill mode, we need to crop the center
-            const sourceX = Math.abs(calc.offsetX);
-            const sourceY = Math.abs(calc.offsetY);
-            targetCtx.drawImage(
-              resizedCanvas,
-              sourceX, sourceY,
-              dimensions.width, dimensions.height,
-              0, 0,
-              dimensions.width, dimensions.height
-            );
-          } else {
-            // For fit and stretch modes, draw with offset
-            targetCtx.drawImage(resizedCanvas, calc.offsetX, calc.offsetY);
-          }
-
-          // Convert to Blob
-          targetCanvas.toBlob(
-            (blob) => {
-              URL.revokeObjectURL(url);
-              if (blob) {
-                console.log(
-                  `[ImageProcessor] High-quality resize to ${dimensions.width}x${dimensions.height} (mode: ${mode})`
-                );
-                resolve(blob);
-              } else {
-                reject(new Error('Canvas to Blob dönüşümü başarısız'));
-              }
-            },
-            'image/jpeg',
-            0.95 // High quality
-          );
-        } catch (error) {
-          URL.revokeObjectURL(url);
-          reject(error);
-        }
-      };
-
-      img.onerror = () => {
-        URL.revokeObjectURL(url);
-        reject(new Error('Görüntü yüklenemedi'));
-      };
-
-      img.src = url;
-    });
+    return this.execute('resizeImage', imageBlob, dimensions, mode, background, output);
   }
 
   /**
@@ -251,168 +130,197 @@ class ImageProcessor {
    * @returns Width and height
    */
   public async getImageDimensions(file: File): Promise<ImageDimensions> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      const url = URL.createObjectURL(file);
-
-      img.onload = () => {
-        URL.revokeObjectURL(url);
-        resolve({
-          width: img.width,
-          height: img.height,
-        });
-      };
-
-      img.onerror = () => {
-        URL.revokeObjectURL(url);
-        reject(new Error('Görüntü boyutları alınamadı'));
-      };
-
-      img.src = url;
-    });
+    return this.execute('getImageDimensions', file);
   }
 
   /**
-   * Add watermark to image (centered)
-   * @param imageBlob - Image blob to add watermark to
-   * @param watermarkFile - Watermark image file
-   * @param scale - Scale of watermark relative to image (0-1)
-   * @returns Image with watermark
+   * Bake the EXIF orientation into the pixels (upright JPEG without metadata)
+   * @param colorTransform - Also convert from the embedded color profile to sRGB
    */
-  public async addWatermark(
+  public async normalizeOrientation(
     imageBlob: Blob,
-    watermarkFile: File,
-    scale: number = 0.8
+    orientation: number,
+    colorTransform?: ColorTransform
   ): Promise<Blob> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      const watermark = new Image();
-      const imageUrl = URL.createObjectURL(imageBlob);
-      const watermarkUrl = URL.createObjectURL(watermarkFile);
-
-      let imageLoaded = false;
-      let watermarkLoaded = false;
-
-      const tryComposite = () => {
-        if (!imageLoaded || !watermarkLoaded) return;
-
-        try {
-          // Create canvas with image dimensions
-          const canvas = document.createElement('canvas');
-          canvas.width = img.width;
-          canvas.height = img.height;
-          const ctx = canvas.getContext('2d');
-
-          if (!ctx) {
-            throw new Error('Canvas context oluşturulamadı');
-          }
+    return this.execute('normalizeOrientation', imageBlob, orientation, colorTransform);
+  }
 
-          // Draw main image
-          ctx.drawImage(img, 0, 0);
+  /**
+   * Convert the pixels between color profiles (the result has no embedded profile)
+   * @param keepAlpha - Keep a transparent background through format fallbacks
+   */
+  public async convertColorProfile(
+    imageBlob: Blob,
+    transform: ColorTransform,
+    output?: OutputSettings,
+    keepAlpha = false
+  ): Promise<Blob> {
+    return this.execute('convertColorProfile', imageBlob, transform, output, keepAlpha);
+  }
 
-          // Calculate watermark dimensions (maintain aspect ratio)
-          const maxWatermarkWidth = img.width * scale;
-          const maxWatermarkHeight = img.height * scale;
-          
-          let watermarkWidth = watermark.width;
-          let watermarkHeight = watermark.height;
-          
-          // Scale down if needed
-          if (watermarkWidth > maxWatermarkWidth || watermarkHeight > maxWatermarkHeight) {
-            const scaleRatio = Math.min(
-              maxWatermarkWidth / watermarkWidth,
-              maxWatermarkHeight / watermarkHeight
-            );
-            watermarkWidth *= scaleRatio;
-            watermarkHeight *= scaleRatio;
-          }
+  /**
+   * Embed the invisible forensic mark - the last pixel change before encoding
+   * @param keepAlpha - Keep a transparent background through format fallbacks
+   */
+  public async embedForensicMark(
+    imageBlob: Blob,
+    payload: ForensicPayload,
+    output?: OutputSettings,
+    keepAlpha = false
+  ): Promise<Blob> {
+    return this.execute('embedForensicMark', imageBlob, payload, output, keepAlpha);
+  }
 
-          // Calculate center position
-          const x = (img.width - watermarkWidth) / 2;
-          const y = (img.height - watermarkHeight) / 2;
+  /**
+   * Read the forensic mark back from a suspect image
+   */
+  public async readForensicMark(imageBlob: Blob): Promise<ForensicReading> {
+    return this.execute('readForensicMark', imageBlob);
+  }
 
-          // Draw watermark at center
-          ctx.drawImage(watermark, x, y, watermarkWidth, watermarkHeight);
+  /**
+   * Decode an upload the pipeline cannot read (HEIC, TIFF, BMP, AVIF) into an upright JPEG/PNG copy
+   * @param colorTransform - Conversion from the embedded profile to sRGB
+   */
+  public async createWorkingCopy(file: Blob, format: InputFormat, colorTransform?: ColorTransform): Promise<Blob> {
+    return this.execute('createWorkingCopy', file, format, colorTransform);
+  }
 
-          // Convert to Blob
-          canvas.toBlob(
-            (blob) => {
-              URL.revokeObjectURL(imageUrl);
-              URL.revokeObjectURL(watermarkUrl);
-              if (blob) {
-                console.log('[ImageProcessor] Watermark added');
-                resolve(blob);
-              } else {
-                reject(new Error('Canvas to Blob dönüşümü başarısız'));
-              }
-            },
-            'image/jpeg',
-            0.95
-          );
-        } catch (error) {
-          URL.revokeObjectURL(imageUrl);
-          URL.revokeObjectURL(watermarkUrl);
-          reject(error);
-        }
-      };
+  /**
+   * Alpha mask and colors of a cutout for the mask editor
+   * @param original - The photo the cutout was made from (source of restored pixels)
+   */
+  public async loadMaskLayers(cutout: Blob, original: Blob): Promise<MaskLayers> {
+    return this.execute('loadMaskLayers', cutout, original);
+  }
 
-      img.onload = () => {
-        imageLoaded = true;
-        tryComposite();
-      };
+  /**
+   * Transparent cutout (PNG) from edited mask layers
+   */
+  public async composeMaskedCutout(layers: MaskLayers): Promise<Blob> {
+    return this.execute('composeMaskedCutout', layers);
+  }
 
-      watermark.onload = () => {
-        watermarkLoaded = true;
-        tryComposite();
-      };
+  /**
+   * Share of (near) white pixels along the border of an image (0-1)
+   * @param imageBlob - Final, flattened image
+   */
+  public async measureEdgeWhiteness(imageBlob: Blob): Promise<number> {
+    return this.execute('measureEdgeWhiteness', imageBlob);
+  }
 
-      img.onerror = () => {
-        URL.revokeObjectURL(imageUrl);
-        URL.revokeObjectURL(watermarkUrl);
-        reject(new Error('Ana görüntü yüklenemedi'));
-      };
+  /**
+   * Output formats the encoder (worker or main thread) supports - cached after the first call
+   */
+  public async getSupportedOutputFormats(): Promise<OutputFormat[]> {
+    if (!this.supportedFormats) {
+      this.supportedFormats = this.execute('detectOutputFormats').catch((error) => {
+        this.supportedFormats = null;
+        throw error;
+      });
+    }
+    return this.supportedFormats;
+  }
 
-      watermark.onerror = () => {
-        URL.revokeObjectURL(imageUrl);
-        URL.revokeObjectURL(watermarkUrl);
-        reject(new Error('Filigran görüntüsü yüklenemedi'));
-      };
+  /**
+   * Add a watermark (logo or text, single or repeated) to an image
+   * @param imageBlob - Image blob to add watermark to
+   * @param watermark - Mark and placement
+   * @param output - File format (JPEG by default)
+   * @returns Image with watermark
+   */
+  public async addWatermark(imageBlob: Blob, watermark: WatermarkSpec, output?: OutputSettings): Promise<Blob> {
+    return this.execute('addWatermark', imageBlob, watermark, output);
+  }
 
-      img.src = imageUrl;
-      watermark.src = watermarkUrl;
-    });
+  /**
+   * Re-encode an image to fit output.maxBytes (quality first, then size if allowed)
+   * Feed it a lossless image - every lossy round trip costs quality
+   * @param keepAlpha - Keep a transparent background through format fallbacks
+   * @param forensicMark - Mark the image carries - kept readable through the compression
+   */
+  public async encodeToSize(
+    imageBlob: Blob,
+    output: OutputSettings,
+    keepAlpha = false,
+    forensicMark?: ForensicPayload
+  ): Promise<RenderedImage> {
+    return this.execute('encodeToSize', imageBlob, output, keepAlpha, forensicMark);
   }
 
   /**
-   * Complete processing pipeline:
-   * 1. Remove background (via AI service)
-   * 2. Apply white background
-   * 3. Resize (optional - if dimensions differ from original)
-   * 4. Add watermark (optional)
+   * Complete processing pipeline, starting from the transparent cutout of the AI service:
+   * 1. Crop to the subject (optional), resize the cutout (optional - if dimensions are provided) and put it on the background,
+   *    with shadow/reflection painted in between (optional)
+   * 2. Add watermark (optional)
+   * 3. Convert to the output color profile (optional - if a colorTransform is provided)
+   * 4. Embed the forensic mark (optional - if a forensicMark payload is provided)
+   * 5. Compress to the byte budget (optional - if output.maxBytes is set)
+   * Cheap compared to background removal - previews and exports are re-derived with it
    */
-  public async processImage(
-    transparentBlob: Blob,
-    targetDimensions?: ImageDimensions,
-    watermark?: { file: File; scale: number }
-  ): Promise<Blob> {
-    // Step 1: Apply white background
-    let processedBlob = await this.applyWhiteBackground(transparentBlob);
+  public async processImage(transparentBlob: Blob, options: ProcessImageOptions = {}): Promise<Blob> {
+    const { blob } = await this.renderImage(transparentBlob, options);
+    return blob;
+  }
 
-    // Step 2: Resize if dimensions are provided
-    if (targetDimensions) {
-      processedBlob = await this.resizeImage(processedBlob, targetDimensions);
-    }
+  /**
+   * processImage that also reports how the file was fitted into its byte budget
+   */
+  public async renderImage(transparentBlob: Blob, options: ProcessImageOptions = {}): Promise<RenderedImage> {
+    const { dimensions, resizeMode, background, shadow, crop, subjectFit, watermark, colorTransform, forensicMark, output } =
+      options;
+    const hasBudget = !!output?.maxBytes;
+
+    // Step 1: Background + resize in a single pass (background is painted at output size)
+    // With more steps still to come the intermediate is lossless, so it is only compressed once
+    // - the background is then resolved for the final format here (transparent -> white for JPEG)
+    const backgroundFitsFormat = background?.type !== 'transparent' || supportsTransparency(output?.format ?? 'jpeg');
+    const keepAlpha = backgroundFitsFormat && background?.type === 'transparent';
+    let processedBlob = await this.execute('composeImage', transparentBlob, {
+      dimensions,
+      resizeMode,
+      background: backgroundFitsFormat ? background : undefined,
+      shadow,
+      crop,
+      subjectFit,
+      output: watermark || colorTransform || forensicMark || hasBudget ? LOSSLESS_OUTPUT : output,
+    });
 
-    // Step 3: Add watermark if provided
+    // Step 2: Add watermark if provided
     if (watermark) {
       processedBlob = await this.addWatermark(
         processedBlob,
-        watermark.file,
-        watermark.scale
+        watermark,
+        colorTransform || forensicMark || hasBudget ? LOSSLESS_OUTPUT : output
+      );
+    }
+
+    // Step 3: Convert to the output color profile
+    if (colorTransform) {
+      processedBlob = await this.convertColorProfile(
+        processedBlob,
+        colorTransform,
+        forensicMark || hasBudget ? LOSSLESS_OUTPUT : output,
+        keepAlpha
       );
     }
 
-    return processedBlob;
+    // Step 4: Embed the forensic mark into the final pixels (after the profile conversion it has to survive)
+    if (forensicMark) {
+      processedBlob = await this.embedForensicMark(
+        processedBlob,
+        forensicMark,
+        hasBudget ? LOSSLESS_OUTPUT : output,
+        keepAlpha
+      );
+    }
+
+    // Step 5: Search quality (and size) for the byte budget
+    if (output && hasBudget) {
+      return this.encodeToSize(processedBlob, output, keepAlpha, forensicMark);
+    }
+
+    return { blob: processedBlob };
   }
 }
 
@@ -0,0 +1,172 @@
+/**
+ * Image Worker Pool
+ * Spreads canvas operations over a small pool of dedicated workers.
+ * Workers are created lazily and replaced if one crashes.
+ * Implements Singleton pattern for a single shared pool
+ */
+
+import type { ImageOperationName, ImageOperationResult, ImageOperations } from './canvasOperations';
+import type { WorkerRequest, WorkerResponse } from '../workers/imageProcessor.worker';
+
+interface PendingTask {
+  request: WorkerRequest;
+  resolve: (value: unknown) => void;
+  reject: (reason: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: PendingTask | null;
+  // Set by the worker's ready message - a module worker that fails to load only reports it via onerror
+  loaded: boolean;
+}
+
+class ImageWorkerPool {
+  private static instance: ImageWorkerPool;
+  private workers: PoolWorker[] = [];
+  private queue: PendingTask[] = [];
+  private nextTaskId = 1;
+  private maxWorkers: number;
+  private spawnFailed = false;
+
+  private constructor() {
+    // Leave one core for the UI thread, cap memory use for large images
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+    this.maxWorkers = Math.min(4, Math.max(1, cores - 1));
+  }
+
+  public static getInstance(): ImageWorkerPool {
+    if (!ImageWorkerPool.instance) {
+      ImageWorkerPool.instance = new ImageWorkerPool();
+    }
+    return ImageWorkerPool.instance;
+  }
+
+  /**
+   * Workers need OffscreenCanvas + createImageBitmap to do canvas work
+   */
+  public isSupported(): boolean {
+    return (
+      !this.spawnFailed &&
+      typeof Worker !== 'undefined' &&
+      typeof OffscreenCanvas !== 'undefined' &&
+      typeof createImageBitmap !== 'undefined'
+    );
+  }
+
+  /**
+   * Run an operation on the next free worker
+   */
+  public run<K extends ImageOperationName>(
+    operation: K,
+    ...args: Parameters<ImageOperations[K]>
+  ): Promise<ImageOperationResult<K>> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({
+        request: { id: this.nextTaskId++, operation, args },
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const poolWorker = this.getIdleWorker();
+      if (!poolWorker) return;
+
+      const task = this.queue.shift()!;
+      poolWorker.task = task;
+      poolWorker.worker.postMessage(task.request);
+    }
+  }
+
+  private getIdleWorker(): PoolWorker | null {
+    const idle = this.workers.find((poolWorker) => !poolWorker.task);
+    if (idle) return idle;
+
+    if (this.workers.length < this.maxWorkers) {
+      return this.spawnWorker();
+    }
+    return null;
+  }
+
+  private spawnWorker(): PoolWorker | null {
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('../workers/imageProcessor.worker.ts', import.meta.url), {
+        type: 'module',
+      });
+    } catch (error) {
+      // Module workers unsupported - callers fall back to the main thread
+      console.error('[ImageWorkerPool] Failed to start worker:', error);
+      this.markSpawnFailed();
+      return null;
+    }
+
+    const poolWorker: PoolWorker = { worker, task: null, loaded: false };
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      if ('ready' in event.data) {
+        poolWorker.loaded = true;
+        return;
+      }
+
+      const task = poolWorker.task;
+      if (!task || task.request.id !== event.data.id) return;
+
+      poolWorker.task = null;
+      if ('error' in event.data) {
+        task.reject(new Error(event.data.error));
+      } else {
+        task.resolve(event.data.result);
+      }
+      this.dispatch();
+    };
+
+    worker.onerror = (event) => {
+      event.preventDefault();
+
+      if (!poolWorker.loaded) {
+        // Never got going (404 chunk, CSP, import throwing) - a replacement would fail the same way
+        console.error('[ImageWorkerPool] Worker failed to load:', event.message);
+        this.markSpawnFailed();
+        return;
+      }
+
+      // Crashed worker (e.g. out of memory) - fail its task and replace it
+      console.error('[ImageWorkerPool] Worker crashed:', event.message);
+      poolWorker.task?.reject(new Error(event.message || 'Image worker hatası'));
+      worker.terminate();
+      this.workers = this.workers.filter((entry) => entry !== poolWorker);
+      this.dispatch();
+    };
+
+    this.workers.push(poolWorker);
+    console.log(`[ImageWorkerPool] Worker started (${this.workers.length}/${this.maxWorkers})`);
+    return poolWorker;
+  }
+
+  /**
+   * Give up on workers for this session - rejected tasks are retried on the main thread by the caller
+   */
+  private markSpawnFailed(): void {
+    this.spawnFailed = true;
+    this.workers.forEach((poolWorker) => {
+      poolWorker.task?.reject(new Error('Image worker başlatılamadı'));
+      poolWorker.worker.terminate();
+    });
+    this.workers = [];
+    this.rejectQueued(new Error('Image worker başlatılamadı'));
+  }
+
+  private rejectQueued(error: Error): void {
+    const queued = this.queue;
+    this.queue = [];
+    queued.forEach((task) => task.reject(error));
+  }
+}
+
+// Export singleton instance
+export const imageWorkerPool = ImageWorkerPool.getInstance();
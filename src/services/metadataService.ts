@@ -0,0 +1,105 @@
+/**
+ * Metadata Service
+ * EXIF orientation on upload and the EXIF/IPTC/XMP policy of exported JPEGs.
+ * Canvas re-encoding loses every metadata segment, so they are carried over by hand:
+ * rotated uploads are re-encoded upright with their metadata copied back (orientation reset),
+ * and exports get the source's metadata, rewritten fields or nothing.
+ * Implements Singleton pattern like the other services
+ */
+
+import type { MetadataPolicy } from '../types/metadata';
+import type { ColorTransform } from '../types/color';
+import type { RenderedImage } from '../types/output';
+import { imageProcessor } from './imageProcessor';
+import { OUTPUT_FORMAT_MIME } from '../lib/outputFormat';
+import { detectInputFormat } from '../lib/inputFormats';
+import {
+  buildExifSegment,
+  buildIptcSegment,
+  buildXmpSegment,
+  extractMetadataSegments,
+  insertMetadataSegments,
+  readExifOrientation,
+} from '../lib/jpegMetadata';
+
+const readBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+class MetadataService {
+  private static instance: MetadataService;
+
+  private constructor() {}
+
+  public static getInstance(): MetadataService {
+    if (!MetadataService.instance) {
+      MetadataService.instance = new MetadataService();
+    }
+    return MetadataService.instance;
+  }
+
+  /**
+   * Upright copy of a rotated JPEG upload
+   * The caller detects the format from the file header - the MIME type of an upload can be empty or wrong
+   * Never fails the upload: on error the original file is kept
+   * @param colorTransform - Also convert from the embedded color profile to sRGB (re-encodes upright files too)
+   */
+  public async normalizeOrientation(file: File, colorTransform?: ColorTransform): Promise<File> {
+    try {
+      const bytes = await readBytes(file);
+      const orientation = readExifOrientation(bytes);
+      if (orientation === 1 && !colorTransform) return file;
+
+      const upright = await imageProcessor.normalizeOrientation(file, orientation, colorTransform);
+      const restored = insertMetadataSegments(await readBytes(upright), extractMetadataSegments(bytes));
+      console.log(
+        `[MetadataService] ${file.name}: EXIF orientation ${orientation} normalized${colorTransform ? ', converted to sRGB' : ''}`
+      );
+      return new File([restored as BlobPart], file.name, { type: OUTPUT_FORMAT_MIME.jpeg, lastModified: file.lastModified });
+    } catch (error) {
+      console.error(`[MetadataService] Could not normalize ${file.name}:`, error);
+      return file;
+    }
+  }
+
+  /**
+   * Metadata segments the policy writes into exported JPEGs - empty for 'strip'
+   * @param source - The uploaded photo, read for 'preserve' (pixel dimensions and thumbnail are left out)
+   */
+  public async getSegments(source: Blob, policy: MetadataPolicy): Promise<Uint8Array[]> {
+    switch (policy.mode) {
+      case 'strip':
+        return [];
+      case 'preserve': {
+        // Detected from the header like on upload - the MIME type can be empty or wrong
+        const isJpegSource = detectInputFormat(await readBytes(source.slice(0, 3))) === 'jpeg';
+        return isJpegSource ? extractMetadataSegments(await readBytes(source)) : [];
+      }
+      case 'rewrite':
+        return [buildExifSegment(policy.fields), buildXmpSegment(policy.fields), buildIptcSegment(policy.fields)].filter(
+          (segment): segment is Uint8Array => segment !== null
+        );
+    }
+  }
+
+  /**
+   * Write metadata segments into a rendered file - JPEG only, other formats pass through
+   * A compression report is updated to the final size
+   */
+  public async embed(rendered: RenderedImage, segments: Uint8Array[]): Promise<RenderedImage> {
+    const { blob, compression } = rendered;
+    if (segments.length === 0 || blob.type !== OUTPUT_FORMAT_MIME.jpeg) return rendered;
+
+    const bytes = insertMetadataSegments(await readBytes(blob), segments);
+    const result = new Blob([bytes as BlobPart], { type: blob.type });
+    return {
+      blob: result,
+      compression: compression && {
+        ...compression,
+        bytes: result.size,
+        withinBudget: result.size <= compression.targetBytes,
+      },
+    };
+  }
+}
+
+// Export singleton instance
+export const metadataService = MetadataService.getInstance();
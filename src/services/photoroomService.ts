@@ -4,9 +4,14 @@
  * Docs: https://docs.photoroom.com/
  */
 
+import { isAbortError, throwIfAborted } from '../lib/abort';
+import { DEFAULT_RETRY_POLICY, getRetryDelay, parseRetryAfter, sleep, type RetryPolicy } from '../lib/retry';
+import { CreditLimitError, creditTracker, type CreditReservation } from './creditTracker';
+
 export interface PhotoroomConfig {
   apiKey: string;
   endpoint?: string;
+  retryPolicy?: Partial<RetryPolicy>;
 }
 
 export interface PhotoroomOptions {
@@ -17,6 +22,8 @@ export interface PhotoroomOptions {
   removeShadow?: boolean;
   // Ürün fotoğrafı için optimize edilmiş ayarlar
   productMode?: boolean;
+  // Kredi limiti için yükleme grubu (bkz. creditTracker)
+  batchId?: string;
 }
 
 export interface PhotoroomResponse {
@@ -25,8 +32,23 @@ export interface PhotoroomResponse {
   error?: string;
   creditsRemaining?: number;
   processingTime?: number;
+  attempts?: number; // Requests sent, including retries
+  retryable?: boolean; // Failure was temporary (429, 5xx, network) - false for fatal errors
+  statusCode?: number; // HTTP status of the last failed request
+}
+
+/**
+ * Outcome of a single request, before the retry loop decides what to do
+ */
+interface AttemptResult {
+  response: PhotoroomResponse;
+  retryAfterMs?: number | null;
 }
 
+// Temporary failures worth another try - everything else (400, 401, 402, 403, 413...) is fatal
+const isRetryableStatus = (status: number): boolean =>
+  status === 408 || status === 429 || status >= 500;
+
 class PhotoroomService {
   private static instance: PhotoroomService;
   private apiKey: string = '';
@@ -35,8 +57,8 @@ class PhotoroomService {
   private usingSandbox: boolean = false;
   private endpoint: string = 'https://sdk.photoroom.com/v1/segment';
   private isConfigured: boolean = false;
-  private creditsUsed: number = 0;
   private lastError: string | null = null;
+  private retryPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
 
   private constructor() {
     // API key'leri environment'tan al
@@ -54,6 +76,11 @@ class PhotoroomService {
     if (this.sandboxKey) {
       console.log('[PhotoroomService] Sandbox key available for fallback');
     }
+
+    const maxAttempts = parseInt(import.meta.env.VITE_PHOTOROOM_MAX_ATTEMPTS || '', 10);
+    if (maxAttempts > 0) {
+      this.retryPolicy.maxAttempts = maxAttempts;
+    }
   }
 
   public static getInstance(): PhotoroomService {
@@ -71,6 +98,9 @@ class PhotoroomService {
     if (config.endpoint) {
       this.endpoint = config.endpoint;
     }
+    if (config.retryPolicy) {
+      this.setRetryPolicy(config.retryPolicy);
+    }
     this.isConfigured = true;
     console.log('[PhotoroomService] Manually configured');
   }
@@ -90,10 +120,23 @@ class PhotoroomService {
   }
 
   /**
-   * API kredisi bilgisi
+   * API kredisi bilgisi (bu oturumda harcanan)
    */
   public getCreditsUsed(): number {
-    return this.creditsUsed;
+    return creditTracker.getUsage().usedThisSession;
+  }
+
+  /**
+   * Yeniden deneme politikası (deneme sayısı, bekleme süreleri)
+   */
+  public setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+    this.retryPolicy.maxAttempts = Math.max(1, Math.floor(this.retryPolicy.maxAttempts));
+    console.log('[PhotoroomService] Retry policy updated:', this.retryPolicy);
+  }
+
+  public getRetryPolicy(): RetryPolicy {
+    return { ...this.retryPolicy };
   }
 
   /**
@@ -105,11 +148,15 @@ class PhotoroomService {
 
   /**
    * Arka plan kaldırma - Yüksek kaliteli, gölge tespiti ile
+   * Geçici hatalarda (429, 5xx, ağ) retry politikasına göre tekrar dener, Retry-After'a uyar
+   * İptal edilirse (signal) AbortError fırlatır - hata yanıtı döndürmez
    */
   public async removeBackground(
     imageFile: File | Blob,
-    options: PhotoroomOptions = {}
+    options: PhotoroomOptions = {},
+    signal?: AbortSignal
   ): Promise<PhotoroomResponse> {
+    throwIfAborted(signal);
     const startTime = performance.now();
 
     // API key kontrolü
@@ -118,9 +165,65 @@ class PhotoroomService {
       return {
         success: false,
         error: 'API key bulunamadı. Lütfen .env dosyasına VITE_PHOTOROOM_API_KEY ekleyin.',
+        attempts: 0,
+        retryable: false,
       };
     }
 
+    // Harcama limiti - sandbox kredi harcamaz, sadece production key sayılır
+    let reservation: CreditReservation | null = null;
+    if (!this.usingSandbox) {
+      try {
+        reservation = creditTracker.reserve(options.batchId);
+      } catch (error) {
+        if (!(error instanceof CreditLimitError)) throw error;
+        this.lastError = error.message;
+        console.warn('[PhotoroomService] Blocked by credit limit:', error.message);
+        return { success: false, error: error.message, attempts: 0, retryable: false };
+      }
+    }
+
+    try {
+      const { maxAttempts } = this.retryPolicy;
+      for (let attempt = 1; ; attempt++) {
+        const { response, retryAfterMs } = await this.sendRequest(imageFile, options, signal);
+
+        if (response.success || !response.retryable || attempt >= maxAttempts) {
+          if (!response.success && response.retryable) {
+            console.error(`[PhotoroomService] Giving up after ${attempt} attempts`);
+          }
+          // Sandbox'a geçildiyse bu istek ücretsizdi
+          if (response.success && !this.usingSandbox) {
+            reservation?.commit(response.creditsRemaining);
+          }
+          return {
+            ...response,
+            attempts: attempt,
+            processingTime: performance.now() - startTime,
+          };
+        }
+
+        const delay = getRetryDelay(attempt, this.retryPolicy, retryAfterMs);
+        console.warn(
+          `[PhotoroomService] Attempt ${attempt}/${maxAttempts} failed (${response.error}), retrying in ${delay}ms`
+        );
+        await sleep(delay, signal);
+      }
+    } finally {
+      reservation?.release();
+    }
+  }
+
+  /**
+   * Tek bir API isteği - hataları retryable/fatal olarak sınıflandırır
+   */
+  private async sendRequest(
+    imageFile: File | Blob,
+    options: PhotoroomOptions,
+    signal?: AbortSignal
+  ): Promise<AttemptResult> {
+    const startTime = performance.now();
+
     try {
       console.log('[PhotoroomService] Starting background removal...');
 
@@ -148,6 +251,7 @@ class PhotoroomService {
           'X-Api-Key': this.currentKey,
         },
         body: formData,
+        signal,
       });
 
       // Rate limit kontrolü
@@ -155,7 +259,10 @@ class PhotoroomService {
       if (remaining) {
         const creditsRemaining = parseInt(remaining, 10);
         console.log(`[PhotoroomService] Credits remaining: ${creditsRemaining}`);
-        
+        if (!this.usingSandbox) {
+          creditTracker.setRemaining(creditsRemaining);
+        }
+
         if (creditsRemaining < 10) {
           console.warn('[PhotoroomService] Low credits warning!');
         }
@@ -181,8 +288,8 @@ class PhotoroomService {
             this.currentKey = this.sandboxKey;
             this.usingSandbox = true;
             
-            // Sandbox ile tekrar dene
-            return this.removeBackground(imageFile, options);
+            // Sandbox ile tekrar dene (farklı key - deneme sayılmaz)
+            return this.sendRequest(imageFile, options, signal);
           }
           
           errorMessage = 'API krediniz tükendi. Lütfen Photoroom hesabınızı yükseltin.';
@@ -192,14 +299,21 @@ class PhotoroomService {
           errorMessage = 'Geçersiz API key. Lütfen VITE_PHOTOROOM_API_KEY kontrolü yapın.';
         } else if (response.status === 429) {
           errorMessage = 'Çok fazla istek. Lütfen birkaç saniye bekleyin.';
+        } else if (response.status >= 500) {
+          errorMessage = `Photoroom sunucu hatası (HTTP ${response.status}): ${errorMessage}`;
         }
 
         this.lastError = errorMessage;
         console.error('[PhotoroomService] API Error:', errorMessage);
 
         return {
-          success: false,
-          error: errorMessage,
+          response: {
+            success: false,
+            error: errorMessage,
+            retryable: isRetryableStatus(response.status),
+            statusCode: response.status,
+          },
+          retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
         };
       }
 
@@ -207,25 +321,36 @@ class PhotoroomService {
       const resultBlob = await response.blob();
       const processingTime = performance.now() - startTime;
 
-      this.creditsUsed++;
       this.lastError = null;
 
       console.log(`[PhotoroomService] Success! Processed in ${processingTime.toFixed(0)}ms`);
 
       return {
-        success: true,
-        resultBlob,
-        processingTime,
-        creditsRemaining: remaining ? parseInt(remaining, 10) : undefined,
+        response: {
+          success: true,
+          resultBlob,
+          processingTime,
+          creditsRemaining: remaining ? parseInt(remaining, 10) : undefined,
+        },
       };
     } catch (error) {
+      // İptal bir hata değil - çağırana aynen ilet
+      if (isAbortError(error)) {
+        console.log('[PhotoroomService] Request aborted');
+        throw error;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.lastError = errorMessage;
       console.error('[PhotoroomService] Failed:', error);
 
+      // Ağ hatası (bağlantı koptu, timeout...) - geçici kabul edilir
       return {
-        success: false,
-        error: `Network hatası: ${errorMessage}`,
+        response: {
+          success: false,
+          error: `Network hatası: ${errorMessage}`,
+          retryable: true,
+        },
       };
     }
   }
@@ -0,0 +1,94 @@
+/**
+ * Preset Validator Service
+ * Checks rendered output files against the marketplace preset of their image
+ * before the ZIP is built: source resolution, white edges, file size and format.
+ * Implements Singleton pattern like the other services
+ */
+
+import type { ValidationIssue, ValidationReport } from '../types/preset';
+import type { RenderedFile } from './exportService';
+import { imageProcessor } from './imageProcessor';
+import { formatFileSize, getMarketplacePreset } from '../lib/marketplacePresets';
+import { OUTPUT_FORMAT_MIME } from '../lib/outputFormat';
+
+// Share of the border that must be white - leaves room for JPEG noise and a few stray pixels
+const MIN_EDGE_WHITENESS = 0.98;
+
+const isWhite = (color: string): boolean => /^#(fff|ffffff)$/i.test(color.trim());
+
+class PresetValidator {
+  private static instance: PresetValidator;
+
+  private constructor() {}
+
+  public static getInstance(): PresetValidator {
+    if (!PresetValidator.instance) {
+      PresetValidator.instance = new PresetValidator();
+    }
+    return PresetValidator.instance;
+  }
+
+  /**
+   * Validate every file whose image has a preset - files without one are skipped
+   */
+  public async validate(files: RenderedFile[]): Promise<ValidationReport> {
+    const issues: ValidationIssue[] = [];
+    let checkedCount = 0;
+    // Every provider of an image shares the same original - measure it once
+    const sourceSizes = new Map<string, Promise<{ width: number; height: number }>>();
+
+    for (const file of files) {
+      const preset = getMarketplacePreset(file.image.presetId);
+      if (!preset) continue;
+      checkedCount++;
+
+      const addIssue = (kind: ValidationIssue['kind'], message: string) =>
+        issues.push({ imageId: file.image.id, fileName: file.fileName, kind, message });
+
+      try {
+        let sourceSize = sourceSizes.get(file.image.id);
+        if (!sourceSize) {
+          sourceSize = imageProcessor.getImageDimensions(file.image.originalFile);
+          sourceSizes.set(file.image.id, sourceSize);
+        }
+        const source = await sourceSize;
+        const shortestSide = Math.min(source.width, source.height);
+        if (shortestSide < preset.minSourceSize) {
+          addIssue(
+            'source-too-small',
+            `Kaynak görsel çok küçük (${source.width}×${source.height}) - ${preset.label} en az ${preset.minSourceSize} px istiyor`
+          );
+        }
+
+        if (file.blob.size > preset.maxFileSizeBytes) {
+          addIssue(
+            'file-too-large',
+            `Dosya çok büyük (${formatFileSize(file.blob.size)}) - ${preset.label} sınırı ${formatFileSize(preset.maxFileSizeBytes)}`
+          );
+        }
+
+        if (file.blob.type !== OUTPUT_FORMAT_MIME[preset.format]) {
+          addIssue('wrong-format', `Dosya biçimi ${file.blob.type || 'bilinmiyor'} - ${preset.label} ${preset.format.toUpperCase()} istiyor`);
+        }
+
+        if (isWhite(preset.backgroundColor)) {
+          const whiteness = await imageProcessor.measureEdgeWhiteness(file.blob);
+          if (whiteness < MIN_EDGE_WHITENESS) {
+            addIssue(
+              'non-white-edges',
+              `Kenarlar beyaz değil (%${Math.round(whiteness * 100)} beyaz) - ürün kenara taşıyor veya arka plan beyaz değil`
+            );
+          }
+        }
+      } catch (error) {
+        console.error(`[PresetValidator] Could not validate ${file.fileName}:`, error);
+      }
+    }
+
+    console.log(`[PresetValidator] Checked ${checkedCount} files, ${issues.length} issues`);
+    return { checkedCount, issues };
+  }
+}
+
+// Export singleton instance
+export const presetValidator = PresetValidator.getInstance();
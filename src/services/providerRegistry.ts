@@ -0,0 +1,75 @@
+/**
+ * Provider Registry
+ * Single source of truth for the available background removal engines.
+ * Add an engine by implementing BackgroundRemovalProvider and registering it below -
+ * the store, comparison columns and download buttons pick it up automatically.
+ * Implements Singleton pattern like the other services
+ */
+
+import type { BackgroundRemovalProvider, ProviderId } from '../types/provider';
+import { imglyProvider } from './providers/imglyProvider';
+import { photoroomProvider } from './providers/photoroomProvider';
+
+class ProviderRegistry {
+  private static instance: ProviderRegistry;
+  private providers = new Map<ProviderId, BackgroundRemovalProvider>();
+
+  private constructor() {}
+
+  public static getInstance(): ProviderRegistry {
+    if (!ProviderRegistry.instance) {
+      ProviderRegistry.instance = new ProviderRegistry();
+    }
+    return ProviderRegistry.instance;
+  }
+
+  /**
+   * Register a provider - registration order is the display order
+   */
+  public register(provider: BackgroundRemovalProvider): void {
+    if (this.providers.has(provider.id)) {
+      console.warn(`[ProviderRegistry] Provider "${provider.id}" already registered, replacing`);
+    }
+    this.providers.set(provider.id, provider);
+  }
+
+  public get(id: ProviderId): BackgroundRemovalProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  /**
+   * All registered providers, in display order
+   */
+  public getAll(): BackgroundRemovalProvider[] {
+    return [...this.providers.values()];
+  }
+
+  public getIds(): ProviderId[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * Order provider ids like the registry (unknown ids last)
+   */
+  public sortIds(ids: ProviderId[]): ProviderId[] {
+    const order = this.getIds();
+    const rank = (id: ProviderId) => {
+      const index = order.indexOf(id);
+      return index === -1 ? order.length : index;
+    };
+    return [...ids].sort((a, b) => rank(a) - rank(b));
+  }
+
+  /**
+   * Label for a provider id (falls back to the id for unknown/removed engines)
+   */
+  public getLabel(id: ProviderId): string {
+    return this.providers.get(id)?.label ?? id;
+  }
+}
+
+// Export singleton instance
+export const providerRegistry = ProviderRegistry.getInstance();
+
+providerRegistry.register(imglyProvider);
+providerRegistry.register(photoroomProvider);
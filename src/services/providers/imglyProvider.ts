@@ -0,0 +1,45 @@
+/**
+ * imgly Provider
+ * Free, local background removal with @imgly/background-removal (WASM/WebGPU)
+ */
+
+import * as backgroundRemoval from '@imgly/background-removal';
+import type { BackgroundRemovalProvider } from '../../types/provider';
+import { abortable } from '../../lib/abort';
+
+export const imglyProvider: BackgroundRemovalProvider = {
+  id: 'imgly',
+  label: 'imgly',
+  description: 'Standart - ücretsiz, lokal işlem',
+  accent: 'blue',
+  capabilities: {
+    local: true,
+    costsCredits: false,
+    shadowHandling: false,
+    // Inference is CPU/GPU heavy
+    defaultConcurrency: 1,
+  },
+
+  isAvailable: () => true,
+
+  removeBackground: async (file, _options, onProgress, signal) => {
+    console.log('[imglyProvider] Starting local processing');
+
+    // Inference itself cannot be interrupted - model downloads are, and the result is discarded
+    const blob = await abortable(
+      backgroundRemoval.removeBackground(file, {
+        fetchArgs: { signal },
+        progress: (key: string, current: number, total: number) => {
+          if (signal?.aborted) return;
+          const percentage = Math.round((current / total) * 100);
+          onProgress?.(percentage);
+          console.log(`[imglyProvider] ${key}: ${percentage}%`);
+        },
+      }),
+      signal
+    );
+
+    console.log('[imglyProvider] Success');
+    return { blob };
+  },
+};
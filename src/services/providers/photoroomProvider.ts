@@ -0,0 +1,53 @@
+/**
+ * Photoroom Provider
+ * High-quality background removal through the Photoroom API (paid, credits)
+ */
+
+import type { BackgroundRemovalProvider } from '../../types/provider';
+import { photoroomService } from '../photoroomService';
+import { ProviderError } from './providerError';
+
+export const photoroomProvider: BackgroundRemovalProvider = {
+  id: 'photoroom',
+  label: 'Photoroom',
+  description: 'Yüksek kalite - gölge tespiti, ince detaylar',
+  accent: 'purple',
+  capabilities: {
+    local: false,
+    costsCredits: true,
+    shadowHandling: true,
+    // Network bound
+    defaultConcurrency: 3,
+  },
+
+  isAvailable: () => photoroomService.isReady(),
+
+  removeBackground: async (file, options, onProgress, signal) => {
+    if (!photoroomService.isReady()) {
+      throw new Error('Photoroom API not configured');
+    }
+
+    console.log('[photoroomProvider] Starting API processing');
+    const result = await photoroomService.removeBackground(
+      file,
+      {
+        removeShadow: !options.keepShadow,
+        productMode: options.productMode ?? true,
+        format: 'png',
+        size: 'full',
+        channels: 'rgba',
+        batchId: options.batchId,
+      },
+      signal
+    );
+
+    const diagnostics = { attempts: result.attempts, durationMs: result.processingTime };
+    if (!result.success || !result.resultBlob) {
+      throw new ProviderError(result.error || 'Photoroom processing failed', diagnostics);
+    }
+
+    console.log('[photoroomProvider] Success');
+    onProgress?.(100);
+    return { blob: result.resultBlob, diagnostics };
+  },
+};
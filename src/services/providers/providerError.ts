@@ -0,0 +1,16 @@
+/**
+ * Provider Error
+ * Failure of a provider call that still carries its diagnostics (e.g. retry count)
+ */
+
+import type { ProviderDiagnostics } from '../../types/provider';
+
+export class ProviderError extends Error {
+  diagnostics?: ProviderDiagnostics;
+
+  constructor(message: string, diagnostics?: ProviderDiagnostics) {
+    super(message);
+    this.name = 'ProviderError';
+    this.diagnostics = diagnostics;
+  }
+}
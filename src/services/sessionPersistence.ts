@@ -0,0 +1,333 @@
+/**
+ * Session Persistence Service
+ * Autosaves the working session (images incl. original files and provider blobs)
+ * to IndexedDB so a reload does not throw away a batch and paid Photoroom credits.
+ * Implements Singleton pattern like the other services
+ */
+
+import type { ImageObject } from '../types/image';
+import type { ProviderResult } from '../types/provider';
+import type { LegacyWatermarkSpec, WatermarkSpec } from '../types/watermark';
+import { normalizeWatermark } from '../lib/watermark';
+import type { ExportSettings } from './exportService';
+
+const DB_NAME = 'photo-automation';
+const DB_VERSION = 1;
+const IMAGES_STORE = 'images';
+const META_STORE = 'meta';
+const META_KEY = 'session';
+
+/**
+ * Fields that only describe a running job - never written to disk
+ */
+const TRANSIENT_FIELDS = ['processingStage', 'progress'] as const;
+
+export type PersistedImage = Omit<ImageObject, (typeof TRANSIENT_FIELDS)[number]>;
+
+/**
+ * Records written before provider results were generic (imgly/photoroom blobs),
+ * before results had a status, before the transparent cutout was kept
+ * or before watermarks had a placement
+ */
+type LegacyProviderResult = Omit<ProviderResult, 'status' | 'cutout'> &
+  Partial<Pick<ProviderResult, 'status' | 'cutout'>>;
+
+type LegacyImageRecord = Omit<PersistedImage, 'results' | 'watermark'> & {
+  results?: Record<string, LegacyProviderResult>;
+  watermark?: WatermarkSpec | LegacyWatermarkSpec;
+  imglyBlob?: Blob | null;
+  photoroomBlob?: Blob | null;
+};
+
+export interface SessionMeta {
+  savedAt: number;
+  imageIds: string[]; // Keeps the sidebar order
+  globalWatermark: WatermarkSpec | null;
+  presetWatermarks?: Record<string, WatermarkSpec>; // Missing in sessions saved by older versions
+  exportSettings?: Partial<ExportSettings>; // Same
+}
+
+type LegacySessionMeta = Omit<SessionMeta, 'globalWatermark'> & {
+  globalWatermark: WatermarkSpec | LegacyWatermarkSpec | null;
+};
+
+export interface PersistedSession {
+  meta: SessionMeta;
+  images: PersistedImage[];
+}
+
+export interface SessionSnapshot {
+  images: ImageObject[];
+  globalWatermark: WatermarkSpec | null;
+  presetWatermarks: Record<string, WatermarkSpec>;
+  exportSettings: ExportSettings;
+}
+
+/**
+ * Thrown when the browser refuses to store more data
+ */
+export class StorageQuotaError extends Error {
+  constructor(message = 'Tarayıcı depolama alanı doldu. Oturum kaydedilemedi.') {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+
+const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+class SessionPersistence {
+  private static instance: SessionPersistence;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  // Last record written per image - unchanged images are skipped on the next save
+  private lastSaved = new Map<string, PersistedImage>();
+
+  private constructor() {}
+
+  public static getInstance(): SessionPersistence {
+    if (!SessionPersistence.instance) {
+      SessionPersistence.instance = new SessionPersistence();
+    }
+    return SessionPersistence.instance;
+  }
+
+  /**
+   * Is IndexedDB usable in this browser (private mode may disable it)
+   */
+  public isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+            db.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(META_STORE)) {
+            db.createObjectStore(META_STORE);
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Strip running-job details; an interrupted job is stored as queued
+   */
+  private toRecord(image: ImageObject): PersistedImage {
+    const record: Partial<ImageObject> = { ...image };
+    TRANSIENT_FIELDS.forEach((field) => delete record[field]);
+
+    if (record.status === 'processing') {
+      record.status = 'queued';
+    }
+    return record as PersistedImage;
+  }
+
+  /**
+   * Results change on every progress tick - compare only what matters after a reload
+   */
+  private isSameResults(a: Record<string, ProviderResult>, b: Record<string, ProviderResult>): boolean {
+    const keysA = Object.keys(a);
+    return (
+      keysA.length === Object.keys(b).length &&
+      keysA.every(
+        (key) =>
+          b[key] !== undefined &&
+          a[key].blob === b[key].blob &&
+          a[key].cutout === b[key].cutout &&
+          a[key].providerCutout === b[key].providerCutout &&
+          a[key].status === b[key].status &&
+          a[key].errorMessage === b[key].errorMessage
+      )
+    );
+  }
+
+  private isSameRecord(a: PersistedImage, b: PersistedImage): boolean {
+    const keysA = Object.keys(a) as (keyof PersistedImage)[];
+    const keysB = Object.keys(b);
+    return (
+      keysA.length === keysB.length &&
+      keysA.every((key) =>
+        key === 'results' ? this.isSameResults(a.results, b.results) : a[key] === b[key]
+      )
+    );
+  }
+
+  /**
+   * Bring records from older app versions to the current shape
+   */
+  private migrateRecord(record: LegacyImageRecord): PersistedImage {
+    const { imglyBlob, photoroomBlob, results: storedResults, watermark, ...rest } = record;
+    const legacyResults: Record<string, LegacyProviderResult> = storedResults ?? {};
+    if (!storedResults) {
+      if (imglyBlob !== undefined) legacyResults.imgly = { blob: imglyBlob, progress: imglyBlob ? 100 : 0 };
+      if (photoroomBlob !== undefined) legacyResults.photoroom = { blob: photoroomBlob, progress: photoroomBlob ? 100 : 0 };
+    }
+
+    const results: PersistedImage['results'] = Object.fromEntries(
+      Object.entries(legacyResults).map(([providerId, result]) => [
+        providerId,
+        // No cutout = flattened result only - exports fall back to resizing it
+        { ...result, cutout: result.cutout ?? null, status: result.status ?? (result.blob ? 'done' : 'pending') },
+      ])
+    );
+    return { ...rest, ...(watermark ? { watermark: normalizeWatermark(watermark) } : {}), results };
+  }
+
+  /**
+   * Load the previous session (null if nothing was saved)
+   */
+  public async loadSession(): Promise<PersistedSession | null> {
+    if (!this.isSupported()) return null;
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction([IMAGES_STORE, META_STORE], 'readonly');
+    const [storedMeta, records] = await Promise.all([
+      requestToPromise(transaction.objectStore(META_STORE).get(META_KEY)) as Promise<LegacySessionMeta | undefined>,
+      requestToPromise(transaction.objectStore(IMAGES_STORE).getAll()) as Promise<LegacyImageRecord[]>,
+    ]);
+
+    if (!storedMeta || records.length === 0) return null;
+    const meta: SessionMeta = {
+      ...storedMeta,
+      globalWatermark: storedMeta.globalWatermark && normalizeWatermark(storedMeta.globalWatermark),
+    };
+
+    // Restore sidebar order
+    const byId = new Map(records.map((record) => [record.id, this.migrateRecord(record)]));
+    const images = meta.imageIds
+      .map((id) => byId.get(id))
+      .filter((record): record is PersistedImage => !!record);
+
+    images.forEach((record) => this.lastSaved.set(record.id, record));
+
+    console.log(`[SessionPersistence] Found saved session with ${images.length} images`);
+    return { meta, images };
+  }
+
+  /**
+   * Write the current session - only changed images are rewritten
+   * @throws StorageQuotaError when the browser is out of space
+   */
+  public async saveSession(snapshot: SessionSnapshot): Promise<void> {
+    if (!this.isSupported()) return;
+
+    const records = snapshot.images.map((image) => this.toRecord(image));
+    const changed = records.filter((record) => {
+      const previous = this.lastSaved.get(record.id);
+      return !previous || !this.isSameRecord(previous, record);
+    });
+    const currentIds = new Set(records.map((record) => record.id));
+    const removedIds = [...this.lastSaved.keys()].filter((id) => !currentIds.has(id));
+
+    const meta: SessionMeta = {
+      savedAt: Date.now(),
+      imageIds: records.map((record) => record.id),
+      globalWatermark: snapshot.globalWatermark,
+      presetWatermarks: snapshot.presetWatermarks,
+      exportSettings: snapshot.exportSettings,
+    };
+
+    try {
+      const db = await this.openDatabase();
+      const transaction = db.transaction([IMAGES_STORE, META_STORE], 'readwrite');
+      const imageStore = transaction.objectStore(IMAGES_STORE);
+
+      changed.forEach((record) => imageStore.put(record));
+      removedIds.forEach((id) => imageStore.delete(id));
+      transaction.objectStore(META_STORE).put(meta, META_KEY);
+
+      await transactionDone(transaction);
+    } catch (error) {
+      if (isQuotaError(error)) {
+        const estimate = await this.getStorageEstimate();
+        console.error('[SessionPersistence] Quota exceeded:', estimate);
+        throw new StorageQuotaError(
+          estimate
+            ? `Tarayıcı depolama alanı doldu (${this.formatMB(estimate.usage)} / ${this.formatMB(estimate.quota)} MB). Oturum kaydedilemedi.`
+            : undefined
+        );
+      }
+      throw error;
+    }
+
+    changed.forEach((record) => this.lastSaved.set(record.id, record));
+    removedIds.forEach((id) => this.lastSaved.delete(id));
+
+    if (changed.length > 0 || removedIds.length > 0) {
+      console.log(`[SessionPersistence] Saved ${changed.length} changed, removed ${removedIds.length}`);
+    }
+  }
+
+  /**
+   * Delete the saved session (user chose to start fresh)
+   */
+  public async clearSession(): Promise<void> {
+    if (!this.isSupported()) return;
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction([IMAGES_STORE, META_STORE], 'readwrite');
+    transaction.objectStore(IMAGES_STORE).clear();
+    transaction.objectStore(META_STORE).clear();
+    await transactionDone(transaction);
+
+    this.lastSaved.clear();
+    console.log('[SessionPersistence] Saved session cleared');
+  }
+
+  /**
+   * Ask the browser not to evict our data under storage pressure
+   */
+  public async requestPersistentStorage(): Promise<boolean> {
+    if (!navigator.storage?.persist) return false;
+    try {
+      return await navigator.storage.persist();
+    } catch {
+      return false;
+    }
+  }
+
+  private async getStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+    if (!navigator.storage?.estimate) return null;
+    try {
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+      return { usage, quota };
+    } catch {
+      return null;
+    }
+  }
+
+  private formatMB(bytes: number): string {
+    return (bytes / 1024 / 1024).toFixed(0);
+  }
+}
+
+// Export singleton instance
+export const sessionPersistence = SessionPersistence.getInstance();
@@ -0,0 +1,111 @@
+/**
+ * Upload Preparer
+ * Turns dropped files into files the pipeline can read before they enter the queue:
+ * detects the real format from the file header, decodes HEIC/TIFF/BMP/AVIF into a
+ * JPEG/PNG working copy (the upload is kept as sourceFile), straightens rotated JPEGs/TIFFs and
+ * converts uploads with a non-sRGB ICC profile (or HEIF color description) to sRGB.
+ * Implements Singleton pattern like the other services
+ */
+
+import type { InputFormat } from '../types/image';
+import { imageProcessor } from './imageProcessor';
+import { metadataService } from './metadataService';
+import { colorService } from './colorService';
+import { INPUT_FORMAT_LABELS, detectInputFormat, needsWorkingCopy } from '../lib/inputFormats';
+import { LOSSLESS_OUTPUT, getFileExtension } from '../lib/outputFormat';
+
+// Enough for every signature incl. the compatible brands of an ISO 'ftyp' box
+const HEADER_BYTES = 64;
+
+export interface PreparedUpload {
+  file: File; // Goes into image.originalFile
+  sourceFile?: File; // The upload itself when file is a working copy
+  sourceProfile?: string; // Description of the ICC profile file was converted from
+  format: InputFormat | null;
+  error?: string; // The image is added in error state so the user sees which file failed and why
+}
+
+class UploadPreparer {
+  private static instance: UploadPreparer;
+
+  private constructor() {}
+
+  public static getInstance(): UploadPreparer {
+    if (!UploadPreparer.instance) {
+      UploadPreparer.instance = new UploadPreparer();
+    }
+    return UploadPreparer.instance;
+  }
+
+  public async prepare(file: File): Promise<PreparedUpload> {
+    const header = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+    const format = detectInputFormat(header);
+
+    if (!format) {
+      return { file, format, error: 'Desteklenmeyen dosya biçimi - JPEG, PNG, WebP, AVIF, BMP, HEIC veya TIFF olmalı' };
+    }
+
+    if (!needsWorkingCopy(format)) {
+      return { ...(await this.normalize(file, format)), format };
+    }
+
+    try {
+      // Display P3 iPhone HEICs, Adobe RGB studio TIFFs - converted while decoding
+      const conversion = await colorService.getInputConversion(new Uint8Array(await file.arrayBuffer()), format, file.name);
+      const blob = await imageProcessor.createWorkingCopy(file, format, conversion?.transform);
+      console.log(
+        `[UploadPreparer] ${file.name}: ${INPUT_FORMAT_LABELS[format]} decoded to ${blob.type}${
+          conversion ? `, converted from ${conversion.profile.description || 'ICC profile'} to sRGB` : ''
+        }`
+      );
+      return {
+        file: this.toFile(blob, file),
+        sourceFile: file,
+        sourceProfile: conversion?.profile.description,
+        format,
+      };
+    } catch (error) {
+      console.error(`[UploadPreparer] Could not decode ${file.name}:`, error);
+      const reason = error instanceof Error ? error.message : 'bilinmeyen hata';
+      return { file, format, error: `${INPUT_FORMAT_LABELS[format]} açılamadı: ${reason}` };
+    }
+  }
+
+  /**
+   * JPEG/PNG/WebP upload in sRGB and upright - JPEGs keep their format and metadata,
+   * converted PNGs/WebPs become PNG. Never fails the upload: on error the file is kept as is
+   */
+  private async normalize(file: File, format: InputFormat): Promise<Omit<PreparedUpload, 'format'>> {
+    const conversion = await colorService.getInputConversion(
+      new Uint8Array(await file.arrayBuffer()),
+      format,
+      file.name
+    );
+    if (format === 'jpeg') {
+      const normalized = await metadataService.normalizeOrientation(file, conversion?.transform);
+      // The original comes back when the re-encode failed - not converted then
+      return { file: normalized, sourceProfile: normalized !== file ? conversion?.profile.description : undefined };
+    }
+    if (!conversion) return { file };
+
+    try {
+      const blob = await imageProcessor.convertColorProfile(file, conversion.transform, LOSSLESS_OUTPUT, true);
+      console.log(`[UploadPreparer] ${file.name}: converted from ${conversion.profile.description || 'ICC profile'} to sRGB`);
+      return { file: this.toFile(blob, file), sourceProfile: conversion.profile.description };
+    } catch (error) {
+      console.error(`[UploadPreparer] Could not convert ${file.name} to sRGB:`, error);
+      return { file };
+    }
+  }
+
+  private toFile(blob: Blob, upload: File): File {
+    const baseName = upload.name.replace(/\.[^/.]+$/, '');
+    return new File([blob], `${baseName}.${getFileExtension(blob.type)}`, {
+      type: blob.type,
+      lastModified: upload.lastModified,
+    });
+  }
+}
+
+// Export singleton instance
+export const uploadPreparer = UploadPreparer.getInstance();
@@ -4,47 +4,186 @@
  */
 
 import { create } from 'zustand';
-import type { ImageObject, ResizeMode } from '../types/image';
-import { aiService } from '../services/aiService';
+import type { ImageObject, ProviderMode, ResizeMode, SubjectFit } from '../types/image';
+import { aiService, type ProviderConcurrency } from '../services/aiService';
 import { imageProcessor } from '../services/imageProcessor';
+import { exportService, type ExportSettings } from '../services/exportService';
+import { uploadPreparer, type PreparedUpload } from '../services/uploadPreparer';
+import { DEFAULT_BACKGROUND } from '../lib/background';
+import { DEFAULT_SHADOW } from '../lib/shadow';
+import { DEFAULT_CROP } from '../lib/crop';
+import { DEFAULT_SUBJECT_FIT } from '../lib/subjectFit';
+import { getMarketplacePreset } from '../lib/marketplacePresets';
+import { DEFAULT_OUTPUT } from '../lib/outputFormat';
+import { DEFAULT_VARIANT_PROFILE } from '../lib/variants';
+import { DEFAULT_METADATA_POLICY } from '../lib/metadata';
+import { DEFAULT_COLOR_SETTINGS } from '../lib/colorProfiles';
+import { DEFAULT_FORENSIC_SETTINGS } from '../lib/forensicMark';
+import type { BackgroundSpec } from '../types/background';
+import type { ShadowSpec } from '../types/shadow';
+import type { CropSpec } from '../types/crop';
+import type { WatermarkSpec } from '../types/watermark';
+import { isAbortError } from '../lib/abort';
+import { sessionPersistence, type PersistedSession } from '../services/sessionPersistence';
+import { providerRegistry } from '../services/providerRegistry';
+import type { ProviderDiagnostics, ProviderId, ProviderResult } from '../types/provider';
+
+export interface QueueSettings {
+  workerCount: number; // Max images processed at the same time
+  providerConcurrency: ProviderConcurrency; // Max parallel requests per provider
+}
+
+const DEFAULT_QUEUE_SETTINGS: QueueSettings = {
+  workerCount: 2,
+  providerConcurrency: Object.fromEntries(
+    providerRegistry.getAll().map((provider) => [provider.id, provider.capabilities.defaultConcurrency])
+  ),
+};
+
+// Images currently owned by a worker slot, with the controller that stops their work
+// Kept outside state - not rendered and not serializable
+const activeJobs = new Map<string, AbortController>();
+
+// Stop the in-flight job of an image (no-op if it is not running)
+const abortJob = (id: string) => {
+  activeJobs.get(id)?.abort();
+};
+
+// Latest recompose per image - older, slower recomposes must not overwrite newer previews
+const recomposeGenerations = new Map<string, number>();
+
+// Session found on startup, held until the user decides to restore or discard it
+let pendingSession: PersistedSession | null = null;
+
+// Debounce for autosave - progress updates fire many times per second
+const AUTOSAVE_DELAY_MS = 1000;
+let autosaveTimer: ReturnType<typeof setTimeout> | null = null;
+let persistentStorageRequested = false;
+
+/**
+ * Session lifecycle:
+ * checking -> prompt (a saved session exists) -> active
+ * Autosave only runs while active, so an unanswered prompt never overwrites the saved session
+ */
+export type SessionStatus = 'checking' | 'prompt' | 'active';
+
+/**
+ * Providers a full run of this image uses: its own mode, else the global default
+ */
+export const resolveProviderIds = (
+  image: Pick<ImageObject, 'providerMode'>,
+  state: Pick<ImageStore, 'defaultProviderMode' | 'enabledProviderIds'>
+): ProviderId[] => {
+  const mode = image.providerMode ?? state.defaultProviderMode;
+  return mode.kind === 'single' ? [mode.providerId] : state.enabledProviderIds;
+};
+
+// Export settings that change what the preview shows
+const PREVIEW_SETTING_KEYS: (keyof ExportSettings)[] = ['background', 'shadow', 'crop'];
 
 interface ImageStore {
   images: ImageObject[];
   isModelLoading: boolean;
   modelLoadError: string | null;
-  globalWatermark: { file: File; scale: number } | null;
+  globalWatermark: WatermarkSpec | null;
+  presetWatermarks: Record<string, WatermarkSpec>; // By marketplace preset id - applied together with the preset
+  exportSettings: ExportSettings; // Background etc. for previews and downloads
+  queueSettings: QueueSettings;
+  isQueuePaused: boolean;
+  priorityImageId: string | null;
+  enabledProviderIds: ProviderId[]; // Providers run in compare mode, in registry order
+  defaultProviderMode: ProviderMode; // Used by images without their own mode
+  sessionStatus: SessionStatus;
+  savedSessionInfo: { imageCount: number; savedAt: number } | null;
+  persistenceError: string | null;
 
   // Actions
   initializeModel: () => Promise<void>;
-  addImages: (files: File[]) => void;
+  addImages: (files: File[]) => Promise<void>;
+  estimateCredits: (fileCount: number) => number;
   removeImage: (id: string) => void;
   updateImageDimensions: (
     id: string,
     width: number,
     height: number,
     resizeMode?: ResizeMode,
-    maintainAspectRatio?: boolean
+    maintainAspectRatio?: boolean,
+    subjectFit?: SubjectFit
   ) => void;
   updateImageName: (id: string, newName: string) => void;
-  updateImageWatermark: (id: string, watermark: { file: File; scale: number } | null) => void;
-  setGlobalWatermark: (watermark: { file: File; scale: number } | null) => void;
+  updateImageWatermark: (id: string, watermark: WatermarkSpec | null) => void;
+  setGlobalWatermark: (watermark: WatermarkSpec | null) => void;
   updateBulkDimensions: (
     width: number,
     height: number,
     resizeMode?: ResizeMode,
-    maintainAspectRatio?: boolean
+    maintainAspectRatio?: boolean,
+    subjectFit?: SubjectFit
   ) => void;
   applyWatermarkToAll: () => void;
+  removeWatermarkFromAll: () => void;
+  setPresetWatermark: (presetId: string, watermark: WatermarkSpec | null) => void;
+  setExportSettings: (settings: Partial<ExportSettings>) => void;
+  updateImageBackground: (id: string, background: BackgroundSpec | null) => void;
+  updateImageShadow: (id: string, shadow: ShadowSpec | null) => void;
+  updateImageCrop: (id: string, crop: CropSpec | null) => void;
+  applyPreset: (presetId: string | null, batchId: string | null) => void;
+  recomposeImage: (id: string) => Promise<void>;
+  refineMask: (id: string, providerId: ProviderId, cutout: Blob) => void;
+  resetMask: (id: string, providerId: ProviderId) => void;
   processImage: (id: string) => Promise<void>;
-  reprocessImage: (id: string) => Promise<void>;
+  reprocessImage: (id: string) => void;
+  runProvider: (id: string, providerId: ProviderId) => void;
   clearAll: () => void;
+
+  // Queue actions
+  runQueue: () => void;
+  setQueueSettings: (settings: Partial<QueueSettings>) => void;
+  setPriorityImage: (id: string | null) => void;
+  setProviderEnabled: (providerId: ProviderId, enabled: boolean) => void;
+  setDefaultProviderMode: (mode: ProviderMode) => void;
+  setImageProviderMode: (id: string, mode: ProviderMode | null) => void;
+  pauseQueue: () => void;
+  resumeQueue: () => void;
+  cancelQueue: () => void;
+  pauseImage: (id: string) => void;
+  resumeImage: (id: string) => void;
+  cancelImage: (id: string) => void;
+
+  // Session persistence actions
+  checkSavedSession: () => Promise<void>;
+  restoreSession: () => void;
+  discardSavedSession: () => Promise<void>;
+  saveSession: () => Promise<void>;
 }
 
+aiService.setProviderConcurrency(DEFAULT_QUEUE_SETTINGS.providerConcurrency);
+
 export const useImageStore = create<ImageStore>((set, get) => ({
   images: [],
   isModelLoading: false,
   modelLoadError: null,
   globalWatermark: null,
+  presetWatermarks: {},
+  exportSettings: {
+    background: DEFAULT_BACKGROUND,
+    shadow: DEFAULT_SHADOW,
+    crop: DEFAULT_CROP,
+    subjectFit: DEFAULT_SUBJECT_FIT,
+    output: DEFAULT_OUTPUT,
+    variants: DEFAULT_VARIANT_PROFILE,
+    metadata: DEFAULT_METADATA_POLICY,
+    color: DEFAULT_COLOR_SETTINGS,
+    forensic: DEFAULT_FORENSIC_SETTINGS,
+  },
+  queueSettings: DEFAULT_QUEUE_SETTINGS,
+  isQueuePaused: false,
+  priorityImageId: null,
+  enabledProviderIds: providerRegistry.getIds(),
+  defaultProviderMode: { kind: 'compare' },
+  sessionStatus: 'checking',
+  savedSessionInfo: null,
+  persistenceError: null,
 
   // Initialize AI model on app start
   initializeModel: async () => {
@@ -59,58 +198,86 @@ export const useImageStore = create<ImageStore>((set, get) => ({
   },
 
   // Add new images to the queue
-  addImages: (files: File[]) => {
-    const newImages: ImageObject[] = files.map((file) => {
+  // Each file is listed as soon as it is prepared - a large HEIC drop fills the list one by one
+  addImages: async (files: File[]) => {
+    const queuedAt = Date.now();
+    const batchId = `batch-${queuedAt}`;
+    const isFirstUpload = get().images.length === 0;
+
+    for (const file of files) {
+      // Decode HEIC/TIFF/... into working copies, straighten rotated photos and convert them to sRGB
+      // - every later step reads raw pixels
+      let upload: PreparedUpload;
+      try {
+        upload = await uploadPreparer.prepare(file);
+      } catch (error) {
+        console.error(`[Store] Could not prepare ${file.name}:`, error);
+        const reason = error instanceof Error ? error.message : 'bilinmeyen hata';
+        upload = { file, format: null, error: `Dosya okunamadı: ${reason}` };
+      }
+
+      const { sourceFile, sourceProfile } = upload;
       // Generate initial filename without extension
-      const originalName = file.name.replace(/\.[^/.]+$/, '');
-      
-      return {
+      const originalName = upload.file.name.replace(/\.[^/.]+$/, '');
+
+      const newImage: ImageObject = {
         id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        originalFile: file,
+        originalFile: upload.file,
+        sourceFile,
+        sourceProfile,
         processedBlob: null,
-        imglyBlob: null,
-        photoroomBlob: null,
-        status: 'idle',
+        results: {},
+        // Files that could not be decoded stay in the list with the reason
+        status: upload.error ? 'error' : 'queued',
+        errorMessage: upload.error,
+        queuedAt,
+        batchId,
         dimensions: { width: 0, height: 0 }, // Will be set during processing
         newName: originalName,
       };
-    });
 
-    set((state) => ({
-      images: [...state.images, ...newImages],
-    }));
+      set((state) => ({
+        images: [...state.images, newImage],
+      }));
 
-    // Initialize model on first image upload (lazy loading)
-    const { images } = get();
-    if (images.length === newImages.length && !aiService.isModelLoaded() && !aiService.isModelLoading()) {
-      // This is the first upload, initialize model
-      get().initializeModel().then(() => {
-        // After model loads, start processing
-        newImages.forEach((img) => {
-          get().processImage(img.id);
+      // Initialize model on first image upload (lazy loading)
+      if (isFirstUpload && !aiService.isModelLoaded() && !aiService.isModelLoading()) {
+        // This is the first upload, initialize model
+        get().initializeModel().then(() => {
+          // After model loads, start processing
+          get().runQueue();
+        }).catch((error) => {
+          console.error('[Store] Model initialization failed:', error);
+          // Mark images as error
+          set((state) => ({
+            images: state.images.map((img) =>
+              img.batchId === batchId && img.status === 'queued'
+                ? { ...img, status: 'error' as const, errorMessage: 'Model yüklenemedi' }
+                : img
+            ),
+          }));
         });
-      }).catch((error) => {
-        console.error('[Store] Model initialization failed:', error);
-        // Mark images as error
-        set((state) => ({
-          images: state.images.map((img) =>
-            newImages.find(ni => ni.id === img.id)
-              ? { ...img, status: 'error' as const, errorMessage: 'Model yüklenemedi' }
-              : img
-          ),
-        }));
-      });
-    } else if (aiService.isModelLoaded()) {
-      // Model already loaded, start processing immediately
-      newImages.forEach((img) => {
-        get().processImage(img.id);
-      });
+      } else if (aiService.isModelLoaded()) {
+        // Model already loaded, let the queue pick up the new image
+        get().runQueue();
+      }
+      // If model is loading, images will be processed once model loads
     }
-    // If model is loading, images will be processed once model loads
+  },
+
+  // Credits a drop of new images will cost with the current default mode (pre-flight check)
+  estimateCredits: (fileCount: number) => {
+    const creditProviders = resolveProviderIds({}, get()).filter((providerId) => {
+      const provider = providerRegistry.get(providerId);
+      return provider?.capabilities.costsCredits && provider.isAvailable();
+    });
+    return fileCount * creditProviders.length;
   },
 
   // Remove an image from the queue
   removeImage: (id: string) => {
+    abortJob(id);
+    recomposeGenerations.delete(id);
     set((state) => ({
       images: state.images.filter((img) => img.id !== id),
     }));
@@ -124,7 +291,8 @@ export const useImageStore = create<ImageStore>((set, get) => ({
     width: number,
     height: number,
     resizeMode?: ResizeMode,
-    maintainAspectRatio?: boolean
+    maintainAspectRatio?: boolean,
+    subjectFit?: SubjectFit
   ) => {
     set((state) => ({
       images: state.images.map((img) =>
@@ -134,6 +302,7 @@ export const useImageStore = create<ImageStore>((set, get) => ({
               dimensions: { width, height },
               resizeMode: resizeMode ?? img.resizeMode ?? 'fit',
               maintainAspectRatio: maintainAspectRatio ?? img.maintainAspectRatio ?? true,
+              subjectFit: subjectFit ?? img.subjectFit,
             }
           : img
       ),
@@ -153,19 +322,19 @@ export const useImageStore = create<ImageStore>((set, get) => ({
   },
 
   // Update watermark for a specific image
-  updateImageWatermark: (id: string, watermark: { file: File; scale: number } | null) => {
+  updateImageWatermark: (id: string, watermark: WatermarkSpec | null) => {
     set((state) => ({
       images: state.images.map((img) =>
         img.id === id ? { ...img, watermark: watermark || undefined } : img
       ),
     }));
 
-    // Trigger reprocessing with new watermark
-    get().reprocessImage(id);
+    // Re-derive the previews with the new watermark - no background removal needed
+    get().recomposeImage(id);
   },
 
   // Set global watermark (to be applied to all)
-  setGlobalWatermark: (watermark: { file: File; scale: number } | null) => {
+  setGlobalWatermark: (watermark: WatermarkSpec | null) => {
     set({ globalWatermark: watermark });
   },
 
@@ -181,13 +350,204 @@ export const useImageStore = create<ImageStore>((set, get) => ({
       })),
     }));
 
-    // Reprocess all images with new watermark
+    // Re-derive all previews with the new watermark
+    const { images } = get();
+    images.forEach((img) => {
+      get().recomposeImage(img.id);
+    });
+  },
+
+  // Remove the watermark from every image that has one
+  removeWatermarkFromAll: () => {
+    const watermarkedIds = get().images.filter((img) => img.watermark).map((img) => img.id);
+    if (watermarkedIds.length === 0) return;
+
+    set((state) => ({
+      images: state.images.map((img) => (img.watermark ? { ...img, watermark: undefined } : img)),
+    }));
+
+    watermarkedIds.forEach((id) => get().recomposeImage(id));
+  },
+
+  // Watermark a marketplace preset applies - images that already have the preset keep theirs until it is re-applied
+  setPresetWatermark: (presetId: string, watermark: WatermarkSpec | null) => {
+    set((state) => {
+      const presetWatermarks = { ...state.presetWatermarks };
+      if (watermark) {
+        presetWatermarks[presetId] = watermark;
+      } else {
+        delete presetWatermarks[presetId];
+      }
+      return { presetWatermarks };
+    });
+  },
+
+  // Change global output settings - previews are re-derived, nothing is sent to the AI again
+  setExportSettings: (settings: Partial<ExportSettings>) => {
+    set((state) => ({ exportSettings: { ...state.exportSettings, ...settings } }));
+
+    // Size, subject fit and format only affect downloads - previews stay as they are
+    if (!PREVIEW_SETTING_KEYS.some((key) => key in settings)) return;
+
     const { images } = get();
     images.forEach((img) => {
-      get().reprocessImage(img.id);
+      get().recomposeImage(img.id);
     });
   },
 
+  // Give one image its own background (null = use the global one again)
+  updateImageBackground: (id: string, background: BackgroundSpec | null) => {
+    set((state) => ({
+      images: state.images.map((img) =>
+        img.id === id ? { ...img, background: background ?? undefined } : img
+      ),
+    }));
+
+    get().recomposeImage(id);
+  },
+
+  // Give one image its own shadow/reflection (null = use the global one again)
+  updateImageShadow: (id: string, shadow: ShadowSpec | null) => {
+    set((state) => ({
+      images: state.images.map((img) =>
+        img.id === id ? { ...img, shadow: shadow ?? undefined } : img
+      ),
+    }));
+
+    get().recomposeImage(id);
+  },
+
+  // Give one image its own subject crop (null = use the global one again)
+  updateImageCrop: (id: string, crop: CropSpec | null) => {
+    set((state) => ({
+      images: state.images.map((img) =>
+        img.id === id ? { ...img, crop: crop ?? undefined } : img
+      ),
+    }));
+
+    get().recomposeImage(id);
+  },
+
+  // Apply a marketplace preset to one upload batch (null = every image)
+  // presetId null only detaches the preset - the settings it applied are kept
+  applyPreset: (presetId: string | null, batchId: string | null) => {
+    const preset = getMarketplacePreset(presetId ?? undefined);
+    const isTarget = (img: ImageObject) => batchId === null || img.batchId === batchId;
+    const targetIds = get().images.filter(isTarget).map((img) => img.id);
+
+    set((state) => ({
+      images: state.images.map((img) => {
+        if (!isTarget(img)) return img;
+        if (!preset) return { ...img, presetId: undefined };
+
+        return {
+          ...img,
+          presetId: preset.id,
+          dimensions: { ...preset.dimensions },
+          resizeMode: preset.resizeMode,
+          maintainAspectRatio: false,
+          subjectFit: preset.fillRatio !== undefined
+            ? { ...(img.subjectFit ?? state.exportSettings.subjectFit), fillRatio: preset.fillRatio }
+            : img.subjectFit,
+          background: { type: 'color', color: preset.backgroundColor },
+          watermark: state.presetWatermarks[preset.id] ?? img.watermark,
+          // The marketplace's size limit becomes the byte budget, so exports pass validation
+          output: {
+            ...(img.output ?? state.exportSettings.output),
+            format: preset.format,
+            maxBytes: preset.maxFileSizeBytes,
+          },
+        };
+      }),
+    }));
+
+    console.log(`[Store] Preset ${preset?.id ?? 'none'} applied to ${targetIds.length} images`);
+    // The background changed - refresh the previews
+    if (preset) {
+      targetIds.forEach((id) => get().recomposeImage(id));
+    }
+  },
+
+  // Re-derive previews from the stored cutouts (e.g. after a watermark change) - no AI, no credits
+  // A running job picks up the latest settings itself when it builds its previews
+  recomposeImage: async (id: string) => {
+    const image = get().images.find((img) => img.id === id);
+    if (!image || image.status === 'processing') return;
+
+    const generation = (recomposeGenerations.get(id) ?? 0) + 1;
+    recomposeGenerations.set(id, generation);
+
+    const cutouts = Object.entries(image.results).filter(
+      (entry): entry is [ProviderId, ProviderResult & { cutout: Blob }] => !!entry[1].cutout
+    );
+    if (cutouts.length === 0) return;
+
+    const previews = await Promise.all(
+      cutouts.map(async ([providerId, result]) => {
+        try {
+          const blob = await exportService.renderPreview(image, result.cutout, get().exportSettings);
+          return { providerId, cutout: result.cutout, blob };
+        } catch (error) {
+          console.error(`[Store] Recompose failed for image ${id} (${providerId}):`, error);
+          return null;
+        }
+      })
+    );
+
+    // A newer change started its own recompose - its previews win
+    // The counter only grows while the image exists - resetting it would let a stale run match again
+    if (recomposeGenerations.get(id) !== generation) return;
+
+    set((state) => ({
+      images: state.images.map((img) => {
+        if (img.id !== id || img.status === 'processing') return img;
+
+        const results = { ...img.results };
+        previews.forEach((preview) => {
+          // Skip results replaced by a newer run in the meantime
+          if (preview && results[preview.providerId]?.cutout === preview.cutout) {
+            results[preview.providerId] = { ...results[preview.providerId], blob: preview.blob };
+          }
+        });
+        return { ...img, results };
+      }),
+    }));
+    console.log(`[Store] Previews recomposed for image ${id}`);
+  },
+
+  // Replace a provider's cutout with the one edited in the mask editor - the provider's own is kept for a reset
+  refineMask: (id: string, providerId: ProviderId, cutout: Blob) => {
+    set((state) => ({
+      images: state.images.map((img) => {
+        const result = img.results[providerId];
+        if (img.id !== id || !result?.cutout) return img;
+        return {
+          ...img,
+          results: {
+            ...img.results,
+            [providerId]: { ...result, cutout, providerCutout: result.providerCutout ?? result.cutout },
+          },
+        };
+      }),
+    }));
+    console.log(`[Store] Mask refined for image ${id} (${providerId})`);
+    get().recomposeImage(id);
+  },
+
+  // Go back to the provider's own cutout
+  resetMask: (id: string, providerId: ProviderId) => {
+    set((state) => ({
+      images: state.images.map((img) => {
+        const result = img.results[providerId];
+        if (img.id !== id || !result?.providerCutout) return img;
+        const { providerCutout, ...rest } = result;
+        return { ...img, results: { ...img.results, [providerId]: { ...rest, cutout: providerCutout } } };
+      }),
+    }));
+    console.log(`[Store] Mask reset for image ${id} (${providerId})`);
+    get().recomposeImage(id);
+  },
+
   // Update dimensions for all images
   // NOTE: This ONLY updates dimension settings, does NOT trigger reprocessing
   // Resize will be applied during download/export
@@ -195,263 +555,525 @@ export const useImageStore = create<ImageStore>((set, get) => ({
     width: number,
     height: number,
     resizeMode?: ResizeMode,
-    maintainAspectRatio?: boolean
+    maintainAspectRatio?: boolean,
+    subjectFit?: SubjectFit
   ) => {
+    // A bulk subject fit becomes the global one and replaces per-image overrides
     set((state) => ({
       images: state.images.map((img) => ({
         ...img,
         dimensions: { width, height },
         resizeMode: resizeMode ?? img.resizeMode ?? 'fit',
         maintainAspectRatio: maintainAspectRatio ?? img.maintainAspectRatio ?? true,
+        subjectFit: subjectFit ? undefined : img.subjectFit,
       })),
+      exportSettings: subjectFit ? { ...state.exportSettings, subjectFit } : state.exportSettings,
     }));
 
     // NO reprocessing - dimensions are applied only on export
     console.log(`[Store] Bulk dimensions updated: ${width}x${height} (${resizeMode || 'fit'})`);
   },
 
-  // Process a single image - DUAL PROCESSING MODE
-  // Runs both imgly and Photoroom in parallel for comparison
+  // Process a single image
+  // Runs the providers of the image's mode in parallel (all enabled ones in compare mode)
+  // or only the pending ones when a single provider was requested on demand
+  // Invoked by runQueue - use reprocessImage / runProvider to schedule a (re)run
   processImage: async (id: string) => {
     const image = get().images.find((img) => img.id === id);
-    if (!image) return;
-
-    // Update status to processing
-    set((state) => ({
-      images: state.images.map((img) =>
-        img.id === id ? { ...img, status: 'processing' as const, imglyProgress: 0, photoroomProgress: 0 } : img
-      ),
-    }));
+    if (!image || activeJobs.has(id)) return;
 
-    try {
-      // Step 1: Get original dimensions
+    // On-demand run keeps the results of the other providers
+    const isPartialRun = !!image.pendingProviderIds?.length;
+    const providerIds = isPartialRun ? image.pendingProviderIds! : resolveProviderIds(image, get());
+    if (providerIds.length === 0) {
       set((state) => ({
         images: state.images.map((img) =>
-          img.id === id ? { ...img, processingStage: 'removing-bg' as const, imglyProgress: 5, photoroomProgress: 5 } : img
+          img.id === id
+            ? { ...img, status: 'error' as const, errorMessage: 'Etkin arka plan kaldırma sağlayıcısı yok' }
+            : img
         ),
       }));
+      return;
+    }
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    activeJobs.set(id, controller);
 
-      const dimensions = await imageProcessor.getImageDimensions(image.originalFile);
-      
+    // Only write while the job is still wanted - cancelled, re-queued or removed images are left alone
+    const update = (changes: Partial<ImageObject>) => {
+      if (signal.aborted) return;
       set((state) => ({
         images: state.images.map((img) =>
-          img.id === id ? { ...img, dimensions, imglyProgress: 10, photoroomProgress: 10 } : img
+          img.id === id && img.status === 'processing' ? { ...img, ...changes } : img
         ),
       }));
+    };
+    const updateResult = (providerId: ProviderId, changes: Partial<ProviderResult>) => {
+      if (signal.aborted) return;
+      set((state) => ({
+        images: state.images.map((img) =>
+          img.id === id && img.status === 'processing'
+            ? {
+                ...img,
+                results: {
+                  ...img.results,
+                  [providerId]: { ...img.results[providerId], ...changes },
+                },
+              }
+            : img
+        ),
+      }));
+    };
+    // Providers that failed in this run keep their error instead of stage progress
+    const failedProviderIds = new Set<ProviderId>();
+    const setProgress = (progress: number) => {
+      providerIds
+        .filter((providerId) => !failedProviderIds.has(providerId))
+        .forEach((providerId) => updateResult(providerId, { progress }));
+    };
+    const failProvider = (providerId: ProviderId, errorMessage: string, diagnostics?: ProviderDiagnostics) => {
+      failedProviderIds.add(providerId);
+      updateResult(providerId, { blob: null, status: 'error', errorMessage, diagnostics });
+    };
+
+    // Update status to processing - results of the providers in this run start empty
+    set((state) => ({
+      images: state.images.map((img) =>
+        img.id === id
+          ? {
+              ...img,
+              status: 'processing' as const,
+              errorMessage: undefined,
+              results: {
+                ...(isPartialRun ? img.results : {}),
+                ...Object.fromEntries(
+                  providerIds.map((providerId) => [
+                    providerId,
+                    { cutout: null, blob: null, progress: 0, status: 'pending' as const },
+                  ])
+                ),
+              },
+            }
+          : img
+      ),
+    }));
+
+    try {
+      // Step 1: Get original dimensions (first run only - keeps user-set export dimensions on reprocess)
+      update({ processingStage: 'removing-bg' });
+      setProgress(5);
+
+      if (image.dimensions.width === 0) {
+        const dimensions = await imageProcessor.getImageDimensions(image.originalFile);
+        update({ dimensions });
+      }
+
+      setProgress(10);
 
-      // Step 2: DUAL PROCESSING - Remove background using both providers
-      console.log(`[Store] Starting dual processing for image ${id}`);
-      
-      const dualResult = await aiService.removeBackgroundDual(
+      // Step 2: Remove background with every provider of this run
+      console.log(`[Store] Starting processing for image ${id}`);
+
+      const multiResult = await aiService.removeBackgroundMulti(
         image.originalFile,
-        // imgly progress callback
-        (progress) => {
-          set((state) => ({
-            images: state.images.map((img) =>
-              img.id === id ? { ...img, imglyProgress: 10 + Math.round(progress * 0.4) } : img
-            ),
-          }));
-        },
-        // Photoroom progress callback
-        (progress) => {
-          set((state) => ({
-            images: state.images.map((img) =>
-              img.id === id ? { ...img, photoroomProgress: 10 + Math.round(progress * 0.4) } : img
-            ),
-          }));
-        }
+        providerIds,
+        (providerId, progress) =>
+          updateResult(providerId, { status: 'processing', progress: 10 + Math.round(progress * 0.4) }),
+        signal,
+        { batchId: image.batchId }
       );
 
-      console.log(`[Store] Background removal complete:`, {
-        imgly: !!dualResult.imglyBlob,
-        photoroom: !!dualResult.photoroomBlob,
+      providerIds.forEach((providerId) => {
+        const providerResult = multiResult[providerId];
+        if (providerResult?.blob) {
+          // Keep the transparent cutout - previews and exports are derived from it without re-running AI
+          updateResult(providerId, { cutout: providerResult.blob, diagnostics: providerResult.diagnostics });
+        } else {
+          failProvider(providerId, providerResult?.error || 'Arka plan kaldırılamadı', providerResult?.diagnostics);
+        }
       });
 
-      // Step 3: Add white background to both results
-      set((state) => ({
-        images: state.images.map((img) =>
-          img.id === id ? { 
-            ...img, 
-            processingStage: 'applying-bg' as const,
-            imglyProgress: 50, 
-            photoroomProgress: 50 
-          } : img
-        ),
-      }));
+      // Step 3: Derive the preview (background, watermark) from every cutout
+      // Settings may have changed while the providers were running - use the latest image
+      update({ processingStage: 'applying-bg' });
+      setProgress(50);
 
-      let imglyWithBg: Blob | null = null;
-      let photoroomWithBg: Blob | null = null;
+      const processedBlobs: Record<ProviderId, Blob> = {};
+      for (const providerId of providerIds) {
+        const transparentBlob = multiResult[providerId]?.blob;
+        if (!transparentBlob) continue;
 
-      if (dualResult.imglyBlob) {
-        imglyWithBg = await imageProcessor.applyWhiteBackground(dualResult.imglyBlob);
-      }
-      if (dualResult.photoroomBlob) {
-        photoroomWithBg = await imageProcessor.applyWhiteBackground(dualResult.photoroomBlob);
+        try {
+          const latestImage = get().images.find((img) => img.id === id) ?? image;
+          processedBlobs[providerId] = await exportService.renderPreview(
+            latestImage,
+            transparentBlob,
+            get().exportSettings
+          );
+        } catch (error) {
+          console.error(`[Store] Preview failed for ${providerId}:`, error);
+          failProvider(
+            providerId,
+            error instanceof Error ? error.message : 'Önizleme oluşturulamadı',
+            multiResult[providerId]?.diagnostics
+          );
+        }
       }
 
-      set((state) => ({
-        images: state.images.map((img) =>
-          img.id === id ? { 
-            ...img, 
-            imglyProgress: 70, 
-            photoroomProgress: 70 
-          } : img
-        ),
-      }));
+      setProgress(70);
 
       // Step 4: Store ORIGINAL SIZE results (no resize yet)
-      // Resize will be applied on-demand during download/export
-      set((state) => ({
-        images: state.images.map((img) =>
-          img.id === id ? { 
-            ...img, 
-            processingStage: 'finalizing' as const,
-            imglyBlob: imglyWithBg,
-            photoroomBlob: photoroomWithBg,
-            imglyProgress: 90, 
-            photoroomProgress: 90 
-          } : img
-        ),
-      }));
+      // Resize will be applied on-demand during download/export (exportService)
+      update({ processingStage: 'finalizing' });
+      Object.entries(processedBlobs).forEach(([providerId, blob]) =>
+        updateResult(providerId, { blob, status: 'done', progress: 90, errorMessage: undefined })
+      );
 
-      console.log(`[Store] Dual processing complete (stored at original size):`, {
-        imgly: !!imglyWithBg,
-        photoroom: !!photoroomWithBg,
-      });
+      console.log(`[Store] Processing complete (stored at original size):`, processedBlobs);
 
-      // Mark as done
-      set((state) => ({
-        images: state.images.map((img) =>
-          img.id === id
-            ? { 
-                ...img, 
-                status: 'done' as const, 
-                imglyProgress: 100, 
-                photoroomProgress: 100, 
-                processingStage: undefined 
-              }
-            : img
-        ),
-      }));
+      setProgress(100);
+
+      // The image is usable as long as any provider has a result (older ones count on partial runs)
+      const results = get().images.find((img) => img.id === id)?.results ?? {};
+      const hasResult = Object.values(results).some((result) => result.blob);
+
+      if (hasResult) {
+        update({ status: 'done', processingStage: undefined, pendingProviderIds: undefined });
+      } else {
+        const errorMessage = providerIds
+          .map((providerId) => `${providerRegistry.getLabel(providerId)}: ${results[providerId]?.errorMessage ?? 'Hata'}`)
+          .join(' · ');
+        update({
+          status: 'error',
+          errorMessage: `Hiçbir sağlayıcı sonuç üretemedi (${errorMessage})`,
+          processingStage: undefined,
+          pendingProviderIds: undefined,
+        });
+      }
     } catch (error) {
+      // Cancelled, removed or re-queued - whoever aborted already set the final state
+      if (isAbortError(error) || signal.aborted) {
+        console.log(`[Store] Processing aborted for image ${id}`);
+        return;
+      }
+
       console.error(`[Store] Error processing image ${id}:`, error);
       const errorMessage = error instanceof Error ? error.message : 'İşlem hatası';
-      
-      set((state) => ({
-        images: state.images.map((img) =>
-          img.id === id
-            ? { ...img, status: 'error' as const, errorMessage }
-            : img
-        ),
-      }));
+
+      providerIds
+        .filter((providerId) => !failedProviderIds.has(providerId))
+        .forEach((providerId) => failProvider(providerId, errorMessage));
+      update({ status: 'error', errorMessage, processingStage: undefined, pendingProviderIds: undefined });
+    } finally {
+      if (activeJobs.get(id) === controller) {
+        activeJobs.delete(id);
+      }
     }
   },
 
-  // Reprocess an image with updated dimensions (skip background removal)
-  // Reprocess an image with updated dimensions - DUAL PROCESSING MODE
-  reprocessImage: async (id: string) => {
+  // Schedule a new background removal run for an image (e.g. after watermark change)
+  // Keeps user-set dimensions - they are applied on export
+  reprocessImage: (id: string) => {
+    // A running job would otherwise finish with outdated settings
+    abortJob(id);
+    set((state) => ({
+      images: state.images.map((img) =>
+        img.id === id
+          ? {
+              ...img,
+              status: 'queued' as const,
+              queuedAt: Date.now(),
+              processingStage: undefined,
+              pendingProviderIds: undefined,
+            }
+          : img
+      ),
+    }));
+
+    get().runQueue();
+  },
+
+  // Run one more provider for an image without redoing the others (e.g. from the comparison view)
+  // Only for finished images - queued or running jobs already decide their providers
+  runProvider: (id: string, providerId: ProviderId) => {
     const image = get().images.find((img) => img.id === id);
-    if (!image) return;
+    if (!image || !['done', 'error', 'cancelled'].includes(image.status)) return;
+
+    set((state) => ({
+      images: state.images.map((img) =>
+        img.id === id
+          ? {
+              ...img,
+              status: 'queued' as const,
+              queuedAt: Date.now(),
+              // A cancelled on-demand run is merged, not lost
+              pendingProviderIds: providerRegistry.sortIds([
+                ...new Set([...(img.pendingProviderIds ?? []), providerId]),
+              ]),
+            }
+          : img
+      ),
+    }));
+
+    get().runQueue();
+  },
 
-    // Update status to processing
+  // Clear all images
+  clearAll: () => {
+    activeJobs.forEach((controller) => controller.abort());
+    recomposeGenerations.clear();
+    set({ images: [], priorityImageId: null });
+  },
+
+  // Start queued images until all worker slots are busy
+  // Called after every change that may free a slot or add work
+  runQueue: () => {
+    const { images, isQueuePaused, queueSettings, priorityImageId } = get();
+    if (isQueuePaused) return;
+
+    if (!aiService.isModelLoaded()) {
+      // e.g. images resumed from a restored session - load the model first
+      if (!aiService.isModelLoading() && images.some((img) => img.status === 'queued')) {
+        get().initializeModel().then(() => get().runQueue());
+      }
+      return;
+    }
+
+    const freeSlots = queueSettings.workerCount - activeJobs.size;
+    if (freeSlots <= 0) return;
+
+    // Selected image first, then FIFO
+    const nextImages = images
+      .filter((img) => img.status === 'queued' && !activeJobs.has(img.id))
+      .sort((a, b) => {
+        if (a.id === priorityImageId) return -1;
+        if (b.id === priorityImageId) return 1;
+        return (a.queuedAt ?? 0) - (b.queuedAt ?? 0);
+      })
+      .slice(0, freeSlots);
+
+    nextImages.forEach((img) => {
+      get().processImage(img.id).finally(() => get().runQueue());
+    });
+  },
+
+  // Update worker count and/or per-provider limits
+  setQueueSettings: (settings: Partial<QueueSettings>) => {
+    const queueSettings = { ...get().queueSettings, ...settings };
+    aiService.setProviderConcurrency(queueSettings.providerConcurrency);
+    set({ queueSettings });
+
+    // More slots may be available now
+    get().runQueue();
+  },
+
+  // Mode for images without their own override - applies to runs that have not started yet
+  setDefaultProviderMode: (mode: ProviderMode) => {
+    set({ defaultProviderMode: mode });
+  },
+
+  // Override (or with null, reset) the provider mode of one image - existing results are kept
+  setImageProviderMode: (id: string, mode: ProviderMode | null) => {
+    set((state) => ({
+      images: state.images.map((img) =>
+        img.id === id ? { ...img, providerMode: mode ?? undefined } : img
+      ),
+    }));
+  },
+
+  // Process this image next (used for the selected image)
+  setPriorityImage: (id: string | null) => {
+    set({ priorityImageId: id });
+  },
+
+  // Turn a provider on/off for upcoming jobs - existing results are kept
+  setProviderEnabled: (providerId: ProviderId, enabled: boolean) => {
+    set((state) => {
+      const ids = new Set(state.enabledProviderIds);
+      if (enabled) {
+        ids.add(providerId);
+      } else {
+        ids.delete(providerId);
+      }
+      // Keep registry order
+      return { enabledProviderIds: providerRegistry.getIds().filter((providerId) => ids.has(providerId)) };
+    });
+  },
+
+  // Stop starting new images - running ones finish normally
+  pauseQueue: () => {
+    set({ isQueuePaused: true });
+    console.log('[Store] Queue paused');
+  },
+
+  resumeQueue: () => {
+    set({ isQueuePaused: false });
+    console.log('[Store] Queue resumed');
+    get().runQueue();
+  },
+
+  // Cancel every image that has not finished yet
+  cancelQueue: () => {
+    activeJobs.forEach((controller) => controller.abort());
+    set((state) => ({
+      images: state.images.map((img) =>
+        img.status === 'queued' || img.status === 'paused' || img.status === 'processing'
+          ? { ...img, status: 'cancelled' as const, processingStage: undefined }
+          : img
+      ),
+    }));
+    console.log('[Store] Queue cancelled');
+  },
+
+  // Hold a queued image back without removing it
+  pauseImage: (id: string) => {
     set((state) => ({
       images: state.images.map((img) =>
-        img.id === id ? { ...img, status: 'processing' as const, imglyProgress: 0, photoroomProgress: 0 } : img
+        img.id === id && img.status === 'queued' ? { ...img, status: 'paused' as const } : img
       ),
     }));
+  },
 
+  // Put a paused or cancelled image back into the queue
+  // Paused images keep their place, cancelled ones go to the end
+  resumeImage: (id: string) => {
+    set((state) => ({
+      images: state.images.map((img) =>
+        img.id === id && (img.status === 'paused' || img.status === 'cancelled')
+          ? {
+              ...img,
+              status: 'queued' as const,
+              queuedAt: img.status === 'paused' ? img.queuedAt : Date.now(),
+            }
+          : img
+      ),
+    }));
+
+    get().runQueue();
+  },
+
+  cancelImage: (id: string) => {
+    abortJob(id);
+    set((state) => ({
+      images: state.images.map((img) =>
+        img.id === id &&
+        (img.status === 'queued' || img.status === 'paused' || img.status === 'processing')
+          ? { ...img, status: 'cancelled' as const, processingStage: undefined }
+          : img
+      ),
+    }));
+  },
+
+  // Look for a session saved before the last reload
+  checkSavedSession: async () => {
     try {
-      // Start background removal directly
-      set((state) => ({
-        images: state.images.map((img) =>
-          img.id === id ? { ...img, processingStage: 'removing-bg' as const, imglyProgress: 10, photoroomProgress: 10 } : img
-        ),
-      }));
+      pendingSession = await sessionPersistence.loadSession();
+    } catch (error) {
+      console.error('[Store] Failed to read saved session:', error);
+      pendingSession = null;
+    }
 
-      // DUAL PROCESSING - Remove background using both providers
-      const dualResult = await aiService.removeBackgroundDual(
-        image.originalFile,
-        (progress) => {
-          set((state) => ({
-            images: state.images.map((img) =>
-              img.id === id ? { ...img, imglyProgress: 10 + Math.round(progress * 0.4) } : img
-            ),
-          }));
+    if (pendingSession) {
+      set({
+        sessionStatus: 'prompt',
+        savedSessionInfo: {
+          imageCount: pendingSession.images.length,
+          savedAt: pendingSession.meta.savedAt,
         },
-        (progress) => {
-          set((state) => ({
-            images: state.images.map((img) =>
-              img.id === id ? { ...img, photoroomProgress: 10 + Math.round(progress * 0.4) } : img
-            ),
-          }));
-        }
-      );
+      });
+    } else {
+      set({ sessionStatus: 'active' });
+    }
+  },
 
-      // Add white background
-      set((state) => ({
-        images: state.images.map((img) =>
-          img.id === id ? { 
-            ...img, 
-            processingStage: 'applying-bg' as const,
-            imglyProgress: 50, 
-            photoroomProgress: 50 
-          } : img
-        ),
-      }));
+  // Bring back the saved images - unfinished ones come back paused so no credits are spent unasked
+  restoreSession: () => {
+    if (!pendingSession) {
+      set({ sessionStatus: 'active', savedSessionInfo: null });
+      return;
+    }
 
-      let imglyWithBg: Blob | null = null;
-      let photoroomWithBg: Blob | null = null;
+    const restoredImages: ImageObject[] = pendingSession.images.map((record) => ({
+      ...record,
+      status: record.status === 'queued' ? ('paused' as const) : record.status,
+    }));
 
-      if (dualResult.imglyBlob) {
-        imglyWithBg = await imageProcessor.applyWhiteBackground(dualResult.imglyBlob);
-      }
-      if (dualResult.photoroomBlob) {
-        photoroomWithBg = await imageProcessor.applyWhiteBackground(dualResult.photoroomBlob);
-      }
+    set((state) => ({
+      images: [...restoredImages, ...state.images],
+      globalWatermark: pendingSession?.meta.globalWatermark ?? state.globalWatermark,
+      presetWatermarks: { ...state.presetWatermarks, ...pendingSession?.meta.presetWatermarks },
+      exportSettings: { ...state.exportSettings, ...pendingSession?.meta.exportSettings },
+      sessionStatus: 'active',
+      savedSessionInfo: null,
+    }));
 
-      set((state) => ({
-        images: state.images.map((img) =>
-          img.id === id ? { 
-            ...img, 
-            imglyProgress: 70, 
-            photoroomProgress: 70 
-          } : img
-        ),
-      }));
+    console.log(`[Store] Restored ${restoredImages.length} images from previous session`);
+    pendingSession = null;
+  },
 
-      // Store ORIGINAL SIZE results (no resize yet)
-      // Resize will be applied on-demand during download/export
-      set((state) => ({
-        images: state.images.map((img) =>
-          img.id === id
-            ? { 
-                ...img, 
-                processingStage: 'finalizing' as const,
-                imglyBlob: imglyWithBg,
-                photoroomBlob: photoroomWithBg,
-                status: 'done' as const, 
-                imglyProgress: 100, 
-                photoroomProgress: 100, 
-              }
-            : img
-        ),
-      }));
+  // Start fresh - the saved session is deleted
+  discardSavedSession: async () => {
+    pendingSession = null;
+    set({ sessionStatus: 'active', savedSessionInfo: null });
+
+    try {
+      await sessionPersistence.clearSession();
     } catch (error) {
-      console.error(`[Store] Error reprocessing image ${id}:`, error);
-      const errorMessage = error instanceof Error ? error.message : 'İşlem hatası';
-      
-      set((state) => ({
-        images: state.images.map((img) =>
-          img.id === id
-            ? { ...img, status: 'error' as const, errorMessage }
-            : img
-        ),
-      }));
+      console.error('[Store] Failed to clear saved session:', error);
     }
   },
 
-  // Clear all images
-  clearAll: () => {
-    set({ images: [] });
+  // Write the current session to IndexedDB (autosave calls this debounced)
+  saveSession: async () => {
+    const { images, globalWatermark, presetWatermarks, exportSettings, sessionStatus } = get();
+    if (sessionStatus !== 'active') return;
+
+    // Ask once for eviction protection, as soon as there is something worth keeping
+    if (!persistentStorageRequested && images.length > 0) {
+      persistentStorageRequested = true;
+      sessionPersistence.requestPersistentStorage();
+    }
+
+    try {
+      await sessionPersistence.saveSession({ images, globalWatermark, presetWatermarks, exportSettings });
+      if (get().persistenceError) {
+        set({ persistenceError: null });
+      }
+    } catch (error) {
+      console.error('[Store] Autosave failed:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Oturum kaydedilemedi';
+      set({ persistenceError: errorMessage });
+    }
   },
 }));
+
+// Autosave whenever images or the global/preset watermarks or export settings change
+useImageStore.subscribe((state, prevState) => {
+  if (state.sessionStatus !== 'active') return;
+  if (
+    state.images === prevState.images &&
+    state.globalWatermark === prevState.globalWatermark &&
+    state.presetWatermarks === prevState.presetWatermarks &&
+    state.exportSettings === prevState.exportSettings &&
+    state.sessionStatus === prevState.sessionStatus
+  ) {
+    return;
+  }
+
+  if (autosaveTimer) clearTimeout(autosaveTimer);
+  autosaveTimer = setTimeout(() => {
+    autosaveTimer = null;
+    useImageStore.getState().saveSession();
+  }, AUTOSAVE_DELAY_MS);
+});
+
+// Flush a pending autosave when the tab is hidden (reload, tab switch, close)
+if (typeof document !== 'undefined') {
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden' && autosaveTimer) {
+      clearTimeout(autosaveTimer);
+      autosaveTimer = null;
+      useImageStore.getState().saveSession();
+    }
+  });
+}
@@ -0,0 +1,25 @@
+/**
+ * Background Type Definitions
+ * What is painted behind the transparent cutout - set globally or per image
+ */
+
+export interface GradientStop {
+  offset: number; // 0-1 along the gradient
+  color: string; // Any canvas color (#hex, rgb(), ...)
+}
+
+/**
+ * How a background photo covers the canvas - same meaning as ResizeMode
+ */
+export type BackgroundImageFit = 'fit' | 'fill';
+
+export type BackgroundSpec =
+  | { type: 'color'; color: string }
+  // Nothing behind the cutout - kept by PNG/WebP/AVIF, JPEG gets white
+  | { type: 'transparent' }
+  // angle like CSS linear-gradient: 0 = bottom to top, 90 = left to right
+  | { type: 'linear-gradient'; angle: number; stops: GradientStop[] }
+  // From the center outwards to the corners
+  | { type: 'radial-gradient'; stops: GradientStop[] }
+  // color fills the bars left by 'fit'
+  | { type: 'image'; file: Blob; fit: BackgroundImageFit; color: string };
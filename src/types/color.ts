@@ -0,0 +1,39 @@
+/**
+ * Color Management Type Definitions
+ * The pipeline (canvas, AI providers, previews) works in sRGB: uploads with another embedded
+ * ICC profile are converted on upload, exports may be converted to another profile and tagged with it
+ */
+
+export type ColorProfileId = 'srgb' | 'display-p3' | 'adobe-rgb';
+
+export interface ColorSettings {
+  outputProfile: ColorProfileId; // JPEG/PNG exports - WebP/AVIF always stay sRGB
+  embedProfile: boolean; // Tag sRGB exports too - other profiles are always embedded
+}
+
+/**
+ * Tone curve of one channel: a plain gamma, a sampled table or an ICC parametric curve
+ */
+export type ToneCurve =
+  | { type: 'gamma'; gamma: number }
+  | { type: 'table'; values: number[] } // 0-1, evenly spaced over the input range
+  | { type: 'parametric'; functionType: number; params: number[] };
+
+/**
+ * Matrix/TRC RGB profile read from an embedded ICC profile
+ * (LUT-based and non-RGB profiles are not supported - they parse to null)
+ */
+export interface IccProfile {
+  description: string;
+  matrix: number[]; // 3x3 row-major, linear RGB -> XYZ (D50)
+  curves: [ToneCurve, ToneCurve, ToneCurve];
+}
+
+/**
+ * Pixel conversion between two profiles, precomputed so it can be sent to a worker
+ */
+export interface ColorTransform {
+  toLinear: [number[], number[], number[]]; // 256-entry lookup per channel
+  matrix: number[]; // 3x3 row-major, source linear RGB -> target linear RGB
+  target: ColorProfileId; // Selects the output encoding curve
+}
@@ -0,0 +1,23 @@
+/**
+ * Crop Type Definitions
+ * Tightening the frame to the subject found in the cutout's alpha mask
+ */
+
+/**
+ * percent: share of the subject's size (width for left/right, height for top/bottom)
+ * px: pixels of the cutout, before any resize
+ */
+export type CropMarginUnit = 'percent' | 'px';
+
+export interface CropMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface CropSpec {
+  enabled: boolean;
+  unit: CropMarginUnit;
+  margin: CropMargins; // Space kept around the subject - beyond the cutout it is filled with background
+}
@@ -0,0 +1,33 @@
+/**
+ * Forensic Watermark Type Definitions
+ * Invisible mark embedded into exported pixels so a leaked copy can be traced back to its export batch
+ */
+
+export interface ForensicSettings {
+  enabled: boolean; // Embed into every export (previews never carry it)
+}
+
+/**
+ * What the mark carries - 48 bits, protected by a 16-bit checksum
+ */
+export interface ForensicPayload {
+  batchCode: number; // 32-bit code of the upload batch (see forensicService)
+  date: string; // Export day, YYYY-MM-DD
+}
+
+/**
+ * Raw result of reading an image - payload is null when no valid mark was found
+ */
+export interface ForensicReading {
+  payload: ForensicPayload | null;
+  confidence: number; // 0-1 - how clearly the bits were voted
+  blockCount: number; // 8x8 blocks that carried votes
+}
+
+/**
+ * Reading matched against the exports logged in this browser and the images of the open session
+ */
+export interface ForensicVerification extends ForensicReading {
+  logged: boolean; // This browser exported the batch on that day
+  knownFiles: string[]; // Names of the batch's files we know of - empty for an unknown batch
+}
@@ -1,18 +1,61 @@
 /**
  * Image Object Type Definition
- * Represents an image in the processing queue with dual provider results
+ * Represents an image in the processing queue with one result per provider
  */
 
-export type ResizeMode = 'fit' | 'fill' | 'stretch';
+import type { ProviderId, ProviderResult } from './provider';
+import type { BackgroundSpec } from './background';
+import type { ShadowSpec } from './shadow';
+import type { CropSpec } from './crop';
+import type { OutputSettings } from './output';
+import type { WatermarkSpec } from './watermark';
+
+/**
+ * fit/fill/stretch work on the whole frame
+ * subject scales and positions the detected product by its alpha mask (see SubjectFit)
+ */
+export type ResizeMode = 'fit' | 'fill' | 'stretch' | 'subject';
+
+/**
+ * Where the subject sits in 'subject' mode - bottom-center keeps shoes/furniture on the floor
+ */
+export type SubjectAnchor = 'center' | 'bottom-center';
+
+export interface SubjectFit {
+  fillRatio: number; // 0-1 - share of the frame the subject's limiting side occupies (e.g. 0.85)
+  anchor: SubjectAnchor;
+}
+
+/**
+ * Lifecycle of an image in the processing queue
+ * queued -> processing -> done | error, with paused/cancelled as user interventions
+ */
+export type ImageStatus = 'idle' | 'queued' | 'paused' | 'processing' | 'done' | 'error' | 'cancelled';
+
+/**
+ * Which provider(s) run for an image
+ * compare: every enabled provider side by side, single: one provider only (one credit at most)
+ */
+export type ProviderMode = { kind: 'compare' } | { kind: 'single'; providerId: ProviderId };
+
+/**
+ * Upload formats - everything but JPEG/PNG/WebP is decoded into a working copy on upload
+ */
+export type InputFormat = 'jpeg' | 'png' | 'webp' | 'avif' | 'bmp' | 'heic' | 'tiff';
 
 export interface ImageObject {
   id: string;
-  originalFile: File;
+  originalFile: File; // What the pipeline reads - a JPEG/PNG working copy for HEIC, TIFF, BMP and AVIF uploads
+  sourceFile?: File; // The untouched upload, only when originalFile is a working copy
+  sourceProfile?: string; // Embedded ICC profile the upload was converted to sRGB from (description)
   processedBlob: Blob | null; // Legacy - will be deprecated
-  // Dual provider results
-  imglyBlob: Blob | null;
-  photoroomBlob: Blob | null;
-  status: 'idle' | 'processing' | 'done' | 'error';
+  // Provider results, keyed by provider id (see providerRegistry)
+  results: Record<ProviderId, ProviderResult>;
+  providerMode?: ProviderMode; // Per-image override - falls back to the global default
+  pendingProviderIds?: ProviderId[]; // Run only these on the next job, keeping the other results
+  status: ImageStatus;
+  queuedAt?: number; // Enqueue timestamp - keeps FIFO order inside the queue
+  batchId?: string; // Images added by the same drop share it (per-batch credit cap)
   dimensions: {
     width: number;
     height: number;
@@ -21,15 +64,15 @@ export interface ImageObject {
   maintainAspectRatio?: boolean; // Lock aspect ratio toggle
   newName: string;
   errorMessage?: string;
-  watermark?: {
-    file: File;
-    scale: number;
-  };
+  watermark?: WatermarkSpec; // Assigned per image - the global watermark is copied in by applyWatermarkToAll
+  background?: BackgroundSpec; // Per-image override of the global background
+  shadow?: ShadowSpec; // Per-image override of the global shadow
+  crop?: CropSpec; // Per-image override of the global subject crop
+  subjectFit?: SubjectFit; // Per-image override of the global subject fit ('subject' resize mode)
+  output?: OutputSettings; // Per-image override of the global output format
+  presetId?: string; // Marketplace preset the export is validated against (see MARKETPLACE_PRESETS)
   processingStage?: 'removing-bg' | 'applying-bg' | 'resizing' | 'adding-watermark' | 'finalizing';
   progress?: number; // 0-100
-  // Provider-specific progress
-  imglyProgress?: number;
-  photoroomProgress?: number;
 }
 
 /**
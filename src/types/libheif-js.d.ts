@@ -0,0 +1,32 @@
+/**
+ * Type declarations for the pre-bundled WASM build of libheif-js (the package ships none for it)
+ * Only the small decoding API used by imageDecoders is declared
+ */
+
+declare module 'libheif-js/libheif-wasm/libheif-bundle.mjs' {
+  export interface HeifPixels {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+  }
+
+  export interface HeifImage {
+    get_width(): number;
+    get_height(): number;
+    is_primary(): boolean;
+    // Decodes into target.data as RGBA - the callback gets null on failure
+    display(target: HeifPixels, callback: (result: HeifPixels | null) => void): void;
+    free(): void;
+  }
+
+  export interface HeifDecoder {
+    // Top level images of the file - empty when it cannot be parsed
+    decode(data: Uint8Array): HeifImage[];
+  }
+
+  export interface LibHeif {
+    HeifDecoder: new () => HeifDecoder;
+  }
+
+  export default function createLibHeif(options?: { onRuntimeInitialized?: (this: LibHeif) => void }): LibHeif;
+}
@@ -0,0 +1,48 @@
+/**
+ * Mask Editor Type Definitions
+ * Manual refinement of a provider's alpha mask - brushes paint on the mask,
+ * the edited cutout replaces the provider's one for previews and exports
+ */
+
+/**
+ * erase: make pixels transparent (background islands)
+ * restore: bring back pixels of the original photo (cut-off straps, handles)
+ */
+export type MaskBrushMode = 'erase' | 'restore';
+
+export interface MaskBrush {
+  mode: MaskBrushMode;
+  size: number; // Diameter in image pixels
+  hardness: number; // 0-1 - share of the radius painted at full strength, the rest fades out
+  magic: boolean; // Edge-aware - only spreads to connected pixels that look like the one under the brush center
+  tolerance: number; // 0-1 - how different a color may be and still count as alike (magic only)
+}
+
+/**
+ * What the editor paints on, in image pixels
+ */
+export interface MaskLayers {
+  width: number;
+  height: number;
+  color: ImageData; // Opaque colors - the cutout's where it has them, the original photo's elsewhere
+  mask: Uint8ClampedArray; // Alpha, one byte per pixel
+}
+
+/**
+ * Region of the layers changed by a brush stroke, in image pixels
+ */
+export interface MaskRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * One brush stroke in progress - the mask it started from (also the undo step)
+ * and the strongest brush weight each pixel got so far, so overlapping dabs do not add up
+ */
+export interface MaskStroke {
+  base: Uint8ClampedArray;
+  weights: Uint8Array; // 0-255
+}
@@ -0,0 +1,22 @@
+/**
+ * Metadata Type Definitions
+ * What happens to EXIF/IPTC/XMP when exported JPEGs are written
+ */
+
+/**
+ * strip: no metadata (plain canvas output)
+ * preserve: copy the source photo's EXIF/IPTC/XMP (orientation reset to upright)
+ * rewrite: drop the source's metadata and write only the fields below
+ */
+export type MetadataMode = 'strip' | 'preserve' | 'rewrite';
+
+export interface MetadataFields {
+  author: string;
+  copyright: string;
+  description: string;
+}
+
+export interface MetadataPolicy {
+  mode: MetadataMode;
+  fields: MetadataFields; // Used by 'rewrite' only
+}
@@ -0,0 +1,35 @@
+/**
+ * Output Format Type Definitions
+ * File format of exported images
+ */
+
+import type { ForensicPayload } from './forensic';
+
+export type OutputFormat = 'jpeg' | 'png' | 'webp' | 'avif';
+
+export interface OutputSettings {
+  format: OutputFormat; // Falls back to the next supported format if the browser cannot encode it
+  quality: number; // 0-1 - lossy formats only (JPEG, WebP, AVIF) - the upper bound with maxBytes
+  maxBytes?: number | null; // Byte budget per file - quality is lowered until it fits
+  allowDownscale?: boolean; // With maxBytes: shrink the image when the lowest quality is still too big
+}
+
+/**
+ * How a file was fitted into its byte budget
+ */
+export interface CompressionReport {
+  targetBytes: number;
+  bytes: number;
+  quality: number | null; // null for lossless output (PNG)
+  scale: number; // 1 = requested size, < 1 = downscaled to fit
+  withinBudget: boolean;
+}
+
+/**
+ * Final image plus how it was compressed (only with a byte budget)
+ */
+export interface RenderedImage {
+  blob: Blob;
+  compression?: CompressionReport;
+  forensicMark?: ForensicPayload; // Mark the file carries - logged once the file is actually downloaded
+}
@@ -0,0 +1,33 @@
+/**
+ * Marketplace Preset Type Definitions
+ * Output requirements of a sales channel - applied to an upload batch and checked before export
+ */
+
+import type { ResizeMode } from './image';
+import type { OutputFormat } from './output';
+
+export interface MarketplacePreset {
+  id: string;
+  label: string;
+  dimensions: { width: number; height: number };
+  resizeMode: ResizeMode;
+  fillRatio?: number; // Only with resizeMode 'subject' - share of the frame the product occupies
+  backgroundColor: string; // Also checked on the output edges when it is white
+  format: OutputFormat;
+  maxFileSizeBytes: number;
+  minSourceSize: number; // Shortest side of the uploaded original, in pixels
+}
+
+export type ValidationIssueKind = 'source-too-small' | 'non-white-edges' | 'file-too-large' | 'wrong-format';
+
+export interface ValidationIssue {
+  imageId: string;
+  fileName: string;
+  kind: ValidationIssueKind;
+  message: string;
+}
+
+export interface ValidationReport {
+  checkedCount: number; // Files that had a preset to check against
+  issues: ValidationIssue[];
+}
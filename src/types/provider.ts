@@ -0,0 +1,83 @@
+/**
+ * Background Removal Provider Type Definitions
+ * Every engine (imgly, Photoroom, ...) implements BackgroundRemovalProvider
+ * and is registered in the provider registry
+ */
+
+export type ProviderId = string;
+
+/**
+ * UI accent used for a provider's column, badges and download button
+ */
+export type ProviderAccent = 'blue' | 'purple' | 'green' | 'amber';
+
+export interface ProviderCapabilities {
+  local: boolean; // Runs in the browser - no upload, no network after model download
+  costsCredits: boolean; // Each successful call is billed
+  shadowHandling: boolean; // Can keep or remove the product's own shadow
+  defaultConcurrency: number; // Sensible parallel request limit
+}
+
+export interface ProviderRemoveOptions {
+  productMode?: boolean; // Tune for product photography
+  keepShadow?: boolean; // Only honored if capabilities.shadowHandling
+  batchId?: string; // Upload the image came with - used for per-batch credit caps
+}
+
+/**
+ * How a provider call went - shown in the per-image diagnostics
+ */
+export interface ProviderDiagnostics {
+  attempts?: number; // Requests sent, including retries
+  durationMs?: number; // Wall time including retry waits
+}
+
+export interface ProviderOutput {
+  blob: Blob; // Transparent cutout (PNG)
+  diagnostics?: ProviderDiagnostics;
+}
+
+export interface BackgroundRemovalProvider {
+  id: ProviderId;
+  label: string;
+  description: string;
+  accent: ProviderAccent;
+  capabilities: ProviderCapabilities;
+
+  /**
+   * Is the provider usable right now (e.g. API key configured)
+   */
+  isAvailable(): boolean;
+
+  /**
+   * Remove the background of an image
+   * @param onProgress - 0-100
+   * @param signal - Aborting must reject with an AbortError
+   * Failures may throw a ProviderError to keep their diagnostics
+   */
+  removeBackground(
+    file: File,
+    options: ProviderRemoveOptions,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<ProviderOutput>;
+}
+
+/**
+ * Lifecycle of one provider's work on an image
+ * pending: waiting for a free provider slot
+ */
+export type ProviderResultStatus = 'pending' | 'processing' | 'done' | 'error';
+
+/**
+ * Result of one provider for one image
+ */
+export interface ProviderResult {
+  cutout: Blob | null; // Transparent cutout as returned by the provider - source for every derived image
+  providerCutout?: Blob; // The provider's own cutout, kept once the mask was refined by hand (cutout is then the edited one)
+  blob: Blob | null; // Preview derived from the cutout (background, watermark) at original size
+  progress: number; // 0-100
+  status: ProviderResultStatus;
+  errorMessage?: string;
+  diagnostics?: ProviderDiagnostics;
+}
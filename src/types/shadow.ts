@@ -0,0 +1,27 @@
+/**
+ * Shadow Type Definitions
+ * Synthetic shadows and reflections generated from the cutout's alpha mask
+ */
+
+/**
+ * contact: thin soft shadow right under the subject (where it touches the floor)
+ * drop: blurred copy of the silhouette cast in the given direction
+ */
+export type ShadowType = 'none' | 'contact' | 'drop';
+
+export interface ReflectionSpec {
+  opacity: number; // 0-1 at the contact line, fades out to 0
+  length: number; // 0-1 - share of the subject height that is mirrored
+}
+
+/**
+ * Distances are relative to the subject height so the look is the same at every output size
+ */
+export interface ShadowSpec {
+  type: ShadowType;
+  angle: number; // Direction the shadow falls, like CSS angles: 0 = up, 90 = right, 180 = down
+  distance: number; // 0-1 - offset from the subject
+  blur: number; // 0-1 - softness
+  opacity: number; // 0-1
+  reflection: ReflectionSpec | null; // Mirror image on the floor - null = off
+}
@@ -0,0 +1,22 @@
+/**
+ * Size Variant Type Definitions
+ * One export run producing several sizes of every image (e.g. 2000px, 1000px, 500px and a thumbnail)
+ */
+
+/**
+ * suffix: variants side by side - photo_provider_thumb.jpg
+ * folder: one folder per variant - thumb/photo_provider.jpg
+ */
+export type VariantNaming = 'suffix' | 'folder';
+
+export interface SizeVariant {
+  id: string;
+  name: string; // Used as file suffix or folder name
+  longestSide: number; // Pixels - the image's dimensions are scaled to it, keeping their aspect ratio
+}
+
+export interface VariantProfile {
+  enabled: boolean; // Off: one file per image at image.dimensions
+  naming: VariantNaming;
+  variants: SizeVariant[];
+}
@@ -0,0 +1,68 @@
+/**
+ * Watermark Type Definitions
+ * Logo or text mark composited over exported images (and their previews)
+ * Sizes are relative to the image so a spec looks the same at every output size
+ */
+
+/**
+ * Nine-point anchor of a single mark
+ */
+export type WatermarkAnchor =
+  | 'top-left'
+  | 'top'
+  | 'top-right'
+  | 'left'
+  | 'center'
+  | 'right'
+  | 'bottom-left'
+  | 'bottom'
+  | 'bottom-right';
+
+/**
+ * single: one mark at the anchor
+ * tiled: marks repeated in a grid over the whole image
+ * diagonal: the grid turned by 45°, every other row shifted by half a step
+ */
+export type WatermarkLayout = 'single' | 'tiled' | 'diagonal';
+
+export type WatermarkBlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'soft-light' | 'difference';
+
+/**
+ * How the mark is placed - shared by logo and text watermarks
+ */
+export interface WatermarkPlacement {
+  layout: WatermarkLayout;
+  anchor: WatermarkAnchor; // single only
+  margin: number; // 0-0.25 - distance from the anchored edges, share of the shorter image side (single only)
+  spacing: number; // 0-2 - gap between repeated marks, share of the mark size (tiled/diagonal only)
+  opacity: number; // 0-1
+  rotation: number; // Degrees, clockwise, around the center of each mark
+  blendMode: WatermarkBlendMode;
+}
+
+export interface ImageWatermarkSpec extends WatermarkPlacement {
+  type: 'image';
+  file: File; // Logo image - a PNG with transparency works best
+  scale: number; // 0-1 - the logo is fitted into this share of the image width/height
+}
+
+export interface TextWatermarkSpec extends WatermarkPlacement {
+  type: 'text';
+  text: string;
+  fontFamily: string; // A font every browser has (see WATERMARK_FONTS) - web fonts are not loaded in workers
+  bold: boolean;
+  fontSize: number; // 0-1 - share of the shorter image side
+  color: string; // Hex
+  strokeColor: string; // Hex
+  strokeWidth: number; // 0-0.3 - outline width as a share of the font size, 0 = no outline
+}
+
+export type WatermarkSpec = ImageWatermarkSpec | TextWatermarkSpec;
+
+/**
+ * Watermarks saved before layouts and text marks existed - a centered logo
+ */
+export interface LegacyWatermarkSpec {
+  file: File;
+  scale: number;
+}
@@ -0,0 +1,39 @@
+/**
+ * Image Processor Worker
+ * Runs canvas operations off the main thread with OffscreenCanvas
+ * Protocol: { id, operation, args } -> { id, result } | { id, error }
+ * Posts { ready: true } once the module has loaded
+ */
+
+import { imageOperations, type ImageOperationName } from '../services/canvasOperations';
+
+export interface WorkerRequest {
+  id: number;
+  operation: ImageOperationName;
+  args: unknown[];
+}
+
+export type WorkerResponse =
+  | { id: number; result: unknown }
+  | { id: number; error: string }
+  | { ready: true };
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const { id, operation, args } = event.data;
+
+  try {
+    const handler = imageOperations[operation] as (...params: unknown[]) => Promise<unknown>;
+    if (!handler) {
+      throw new Error(`Bilinmeyen işlem: ${operation}`);
+    }
+
+    const result = await handler(...args);
+    self.postMessage({ id, result } satisfies WorkerResponse);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Worker işlem hatası';
+    self.postMessage({ id, error: message } satisfies WorkerResponse);
+  }
+};
+
+// Imports resolved - lets the pool tell a worker that cannot load from one that crashed on a task
+self.postMessage({ ready: true } satisfies WorkerResponse);
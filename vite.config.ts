@@ -7,4 +7,8 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['@imgly/background-removal'],
   },
+  // The image worker lazy-loads the HEIC/TIFF decoders - needs code splitting
+  worker: {
+    format: 'es',
+  },
 })